@@ -0,0 +1,138 @@
+// load-agent/main.ts
+// Standalone load agent: pulls load test shards for its project, runs them and streams metrics back.
+//
+//   SUPABASE_URL=https://<project>.supabase.co \
+//   SUPABASE_ANON_KEY=<anon key> \
+//   LOAD_AGENT_TOKEN=<token from Settings> \
+//   deno run --allow-net --allow-env load-agent/main.ts
+//
+// LOAD_AGENT_MAX_VUS (default 500) caps the virtual users one shard may ask this machine for;
+// a shard asking for more runs with fewer and reports the clamp in its metrics.
+
+import { runLocalLoadTest } from '../supabase/functions/_shared/load-runner.ts'
+import { LoadMetricsCollector } from '../supabase/functions/_shared/load-metrics.ts'
+
+const AGENT_VERSION = '1.0.0'
+const HEARTBEAT_INTERVAL_MS = 15000
+const CLAIM_INTERVAL_MS = 3000
+const PROGRESS_INTERVAL_MS = 5000
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')
+const agentToken = Deno.env.get('LOAD_AGENT_TOKEN')
+const maxVUs = Number(Deno.env.get('LOAD_AGENT_MAX_VUS')) || 500
+
+if (!supabaseUrl || !anonKey || !agentToken) {
+  console.error('SUPABASE_URL, SUPABASE_ANON_KEY and LOAD_AGENT_TOKEN must be set')
+  Deno.exit(1)
+}
+
+async function callApi(action: string, payload: Record<string, unknown> = {}) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/load-agent`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${anonKey}`,
+      'apikey': anonKey!,
+      'x-agent-token': agentToken!,
+    },
+    body: JSON.stringify({ action, ...payload }),
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `load-agent ${action} failed with HTTP ${response.status}`)
+  }
+  return body
+}
+
+async function runJob(job: { id: string; test_case_id: string; shard_index: number; shard_count: number; config: Record<string, unknown> }) {
+  console.log(`Running shard ${job.shard_index + 1}/${job.shard_count} of test case ${job.test_case_id}`)
+
+  const profile = job.config.profile as { max_vus?: number } | undefined
+  const requestedVUs = Number(profile?.max_vus) || Number(job.config.threads) || 10
+  const clampedVUs = requestedVUs > maxVUs ? { requested: requestedVUs, allowed: maxVUs } : undefined
+  if (clampedVUs) console.warn(`Shard asks for ${requestedVUs} virtual users; running with ${maxVUs} (LOAD_AGENT_MAX_VUS)`)
+
+  const config = {
+    ...job.config,
+    threads: Math.min(Number(job.config.threads) || 10, maxVUs),
+    ...(profile?.max_vus !== undefined && { profile: { ...profile, max_vus: Math.min(Number(profile.max_vus), maxVUs) } }),
+  }
+  const collector = new LoadMetricsCollector()
+  let cancelled = false
+  let lastReport = Date.now()
+
+  // Cancellation comes back in the answer to each progress report
+  const report = async () => {
+    lastReport = Date.now()
+    try {
+      const result = await callApi('progress', { jobId: job.id, snapshot: collector.snapshot() })
+      cancelled = cancelled || !!result.cancelled
+    } catch (error) {
+      console.error('Failed to report progress:', error.message)
+    }
+  }
+
+  const cancellation = {
+    isCancelled: async () => {
+      if (!cancelled && Date.now() - lastReport >= PROGRESS_INTERVAL_MS) await report()
+      return cancelled
+    },
+  }
+
+  // Closed-model threads only check for cancellation between requests; keep reporting regardless
+  const ticker = setInterval(() => {
+    if (Date.now() - lastReport >= PROGRESS_INTERVAL_MS) report()
+  }, PROGRESS_INTERVAL_MS)
+
+  try {
+    const metrics = await runLocalLoadTest(config, (update) => {
+      if (update.type === 'load_test_warning') console.warn(update.message)
+    }, job.test_case_id, cancellation, collector)
+
+    // The snapshot carries the histograms; the summary only adds run-level figures
+    const { timeline, endpoint_metrics, error_details, response_time_over_time, throughput_over_time, error_rate_over_time, ...summary } = metrics
+    await callApi('complete', { jobId: job.id, snapshot: collector.snapshot(), metrics: { ...summary, clamped_vus: clampedVUs } })
+    console.log(`Shard finished: ${metrics.total_requests} requests, ${metrics.error_rate.toFixed(2)}% errors`)
+  } catch (error) {
+    console.error('Shard failed:', error.message)
+    await callApi('fail', { jobId: job.id, error: error.message, snapshot: collector.snapshot() })
+      .catch(reportError => console.error('Failed to report failure:', reportError.message))
+  } finally {
+    clearInterval(ticker)
+  }
+}
+
+async function main() {
+  let lastHeartbeat = 0
+
+  console.log(`Load agent ${AGENT_VERSION} started, up to ${maxVUs} virtual users per shard`)
+
+  const shutdown = async () => {
+    await callApi('heartbeat', { status: 'offline' }).catch(() => {})
+    Deno.exit(0)
+  }
+  Deno.addSignalListener('SIGINT', shutdown)
+
+  while (true) {
+    try {
+      if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+        await callApi('heartbeat', { status: 'online', version: AGENT_VERSION, max_vus: maxVUs })
+        lastHeartbeat = Date.now()
+      }
+
+      const { job } = await callApi('claim')
+      if (job) {
+        await runJob(job)
+        continue
+      }
+    } catch (error) {
+      console.error('Load agent error:', error.message)
+    }
+
+    await new Promise(resolve => setTimeout(resolve, CLAIM_INTERVAL_MS))
+  }
+}
+
+main()
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ImageOff } from "lucide-react";
+import { api } from "@/lib/supabase";
+
+interface ArtifactImageProps {
+  path: string;
+  alt: string;
+  className?: string;
+  onOpen?: (url: string) => void;
+}
+
+// Signed URLs are shared across thumbnails so re-renders do not re-sign
+const signedUrlCache = new Map<string, Promise<string>>();
+
+const getSignedUrl = (path: string) => {
+  let url = signedUrlCache.get(path);
+  if (!url) {
+    url = api.getArtifactUrl(path);
+    url.catch(() => signedUrlCache.delete(path));
+    signedUrlCache.set(path, url);
+  }
+  return url;
+};
+
+// Screenshot stored in the artifacts bucket; only signed and fetched once scrolled into view
+const ArtifactImage = ({ path, alt, className, onOpen }: ArtifactImageProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    getSignedUrl(path)
+      .then((signedUrl) => {
+        if (!cancelled) setUrl(signedUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVisible, path]);
+
+  return (
+    <div ref={containerRef}>
+      {url ? (
+        <img
+          src={url}
+          alt={alt}
+          loading="lazy"
+          className={className}
+          onClick={() => onOpen?.(url)}
+        />
+      ) : (
+        <div
+          className={`${className || ""} flex items-center justify-center bg-gray-100 text-gray-400 min-h-[8rem]`}
+        >
+          {failed ? (
+            <ImageOff className="w-6 h-6" />
+          ) : (
+            <div className="animate-pulse w-full h-full bg-gray-200 rounded" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtifactImage;
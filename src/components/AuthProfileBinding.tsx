@@ -0,0 +1,78 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { api, type AuthProfile, type TestCase } from "@/lib/supabase";
+
+interface AuthProfileBindingProps {
+  testCase: TestCase;
+  profiles: AuthProfile[];
+  onChange: (testCase: TestCase) => void;
+}
+
+const NO_PROFILE = "none";
+
+// Picks the auth profile a test case signs in with (Settings > Authentication Profiles)
+const AuthProfileBinding = ({
+  testCase,
+  profiles,
+  onChange,
+}: AuthProfileBindingProps) => {
+  const bind = async (name: string | null) => {
+    try {
+      onChange(await api.bindAuthProfile(testCase.id, name));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to set auth profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Profiles are defined per environment under one name
+  const names = [...new Set(profiles.map((profile) => profile.name))];
+  if (testCase.auth_profile && !names.includes(testCase.auth_profile)) {
+    names.push(testCase.auth_profile);
+  }
+  const environments = profiles
+    .filter((profile) => profile.name === testCase.auth_profile)
+    .map((profile) => profile.environment);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Authentication:</h4>
+      <Select
+        value={testCase.auth_profile || NO_PROFILE}
+        onValueChange={(value) => bind(value === NO_PROFILE ? null : value)}
+      >
+        <SelectTrigger className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROFILE}>No auth profile</SelectItem>
+          {names.map((name) => (
+            <SelectItem key={name} value={name}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {testCase.auth_profile && (
+        <p className="text-xs text-gray-500">
+          {environments.length > 0
+            ? `Defined for ${environments.join(", ")}; runs on other environments fail until it is added there.`
+            : "Not defined for any environment yet."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AuthProfileBinding;
@@ -0,0 +1,402 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  api,
+  type AuthProfile,
+  type AuthProfileType,
+} from "@/lib/supabase";
+
+interface AuthProfilesProps {
+  projectId: string;
+}
+
+type ConfigField = keyof AuthProfile["config"];
+
+// Settings each type needs, then the label of its secret
+const PROFILE_TYPES: {
+  value: AuthProfileType;
+  label: string;
+  fields: { key: ConfigField; label: string; placeholder: string }[];
+  secretLabel: string;
+}[] = [
+  {
+    value: "bearer",
+    label: "Bearer token",
+    fields: [],
+    secretLabel: "Token",
+  },
+  {
+    value: "basic",
+    label: "Basic auth",
+    fields: [{ key: "username", label: "Username", placeholder: "qa-user" }],
+    secretLabel: "Password",
+  },
+  {
+    value: "oauth2_client_credentials",
+    label: "OAuth2 client credentials",
+    fields: [
+      {
+        key: "token_url",
+        label: "Token URL",
+        placeholder: "https://auth.example.com/oauth/token",
+      },
+      { key: "client_id", label: "Client ID", placeholder: "load-tests" },
+      { key: "scope", label: "Scope (optional)", placeholder: "api:read" },
+    ],
+    secretLabel: "Client secret",
+  },
+  {
+    value: "login_form",
+    label: "Login form",
+    fields: [
+      { key: "login_url", label: "Login URL", placeholder: "/api/login" },
+      { key: "username", label: "Username", placeholder: "qa@example.com" },
+      {
+        key: "username_field",
+        label: "Username field",
+        placeholder: "username",
+      },
+      {
+        key: "password_field",
+        label: "Password field",
+        placeholder: "password",
+      },
+      {
+        key: "token_path",
+        label: "Token JSONPath (optional, else cookies)",
+        placeholder: "$.access_token",
+      },
+    ],
+    secretLabel: "Password",
+  },
+  {
+    value: "cookies",
+    label: "Cookie jar",
+    fields: [],
+    secretLabel: "Cookies (name=value; other=value)",
+  },
+];
+
+// Profiles that yield a token can hand it to the app in the browser
+const TOKEN_TYPES: AuthProfileType[] = [
+  "bearer",
+  "oauth2_client_credentials",
+  "login_form",
+];
+
+const EMPTY_FORM = {
+  id: undefined as string | undefined,
+  name: "",
+  environment: "staging" as AuthProfile["environment"],
+  type: "bearer" as AuthProfileType,
+  config: {} as AuthProfile["config"],
+  secret: "",
+};
+
+// Settings > Authentication Profiles; test cases pick a profile by name
+const AuthProfiles = ({ projectId }: AuthProfilesProps) => {
+  const [profiles, setProfiles] = useState<AuthProfile[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(EMPTY_FORM);
+    api
+      .getAuthProfiles(projectId)
+      .then(setProfiles)
+      .catch((error) => console.error("Error loading auth profiles:", error));
+  }, [projectId]);
+
+  const profileType = PROFILE_TYPES.find((type) => type.value === form.type)!;
+  const editing = profiles.find((p) => p.id === form.id);
+  const editingHint = editing?.secret_hint;
+  // The stored secret only carries over while the type stays the same
+  const needsSecret = !editing || editing.type !== form.type;
+
+  const setConfig = (key: ConfigField, value: string) =>
+    setForm((prev) => ({ ...prev, config: { ...prev.config, [key]: value } }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await api.saveAuthProfile(projectId, {
+        ...(form.id && { id: form.id }),
+        name: form.name,
+        environment: form.environment,
+        type: form.type,
+        config: form.config,
+        // Blank keeps the stored secret when editing
+        ...(form.secret && { secret: form.secret }),
+      });
+      setProfiles((current) =>
+        [...current.filter((p) => p.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Auth profile saved",
+        description: `${saved.name} (${saved.environment})`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save auth profile.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (authProfile: AuthProfile) => {
+    try {
+      await api.deleteAuthProfile(authProfile.id);
+      setProfiles((current) => current.filter((p) => p.id !== authProfile.id));
+      if (form.id === authProfile.id) setForm(EMPTY_FORM);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to delete auth profile.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Authentication Profiles</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-500">
+          Credentials the runners sign in with before a test, per environment.
+          Test cases pick a profile by name, so the same name can hold
+          different credentials on staging and production. Secrets are
+          encrypted and cannot be read back.
+        </p>
+
+        {profiles.length > 0 ? (
+          <div className="space-y-2">
+            {profiles.map((authProfile) => (
+              <div
+                key={authProfile.id}
+                className="flex items-center justify-between p-3 border rounded"
+              >
+                <div>
+                  <div className="font-medium">{authProfile.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {PROFILE_TYPES.find(
+                      (type) => type.value === authProfile.type
+                    )?.label || authProfile.type}
+                    {authProfile.config.username &&
+                      ` • ${authProfile.config.username}`}
+                    {authProfile.secret_hint &&
+                      ` • •••• ${authProfile.secret_hint}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Badge variant="outline">{authProfile.environment}</Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        id: authProfile.id,
+                        name: authProfile.name,
+                        environment: authProfile.environment,
+                        type: authProfile.type,
+                        config: authProfile.config,
+                        secret: "",
+                      })
+                    }
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(authProfile)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No auth profiles yet.</p>
+        )}
+
+        <div className="space-y-4 p-4 border rounded">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="auth_profile_name">Name</Label>
+              <Input
+                id="auth_profile_name"
+                placeholder="admin"
+                value={form.name}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Environment</Label>
+              <Select
+                value={form.environment}
+                onValueChange={(value) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    environment: value as AuthProfile["environment"],
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">Local</SelectItem>
+                  <SelectItem value="staging">Staging</SelectItem>
+                  <SelectItem value="production">Production</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    type: value as AuthProfileType,
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROFILE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {profileType.fields.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {profileType.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`auth_${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`auth_${field.key}`}
+                    placeholder={field.placeholder}
+                    value={form.config[field.key] || ""}
+                    onChange={(e) => setConfig(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+              {form.type === "login_form" && (
+                <div className="space-y-2">
+                  <Label>Body format</Label>
+                  <Select
+                    value={form.config.format || "form"}
+                    onValueChange={(value) => setConfig("format", value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="form">Form fields</SelectItem>
+                      <SelectItem value="json">JSON</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="auth_secret">{profileType.secretLabel}</Label>
+              <Input
+                id="auth_secret"
+                type="password"
+                autoComplete="new-password"
+                placeholder={
+                  !needsSecret
+                    ? `Leave blank to keep ${
+                        editingHint ? `•••• ${editingHint}` : "the current secret"
+                      }`
+                    : ""
+                }
+                value={form.secret}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, secret: e.target.value }))
+                }
+              />
+            </div>
+            {TOKEN_TYPES.includes(form.type) && (
+              <div className="space-y-2">
+                <Label htmlFor="auth_local_storage_key">
+                  Browser localStorage key (optional)
+                </Label>
+                <Input
+                  id="auth_local_storage_key"
+                  placeholder="auth_token"
+                  value={form.config.local_storage_key || ""}
+                  onChange={(e) =>
+                    setConfig("local_storage_key", e.target.value)
+                  }
+                />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            Load tests and http_request steps send the credentials as headers
+            to the environment's host. Browser sessions get the cookies and,
+            with a localStorage key, the token.
+          </p>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={
+                isSaving || !form.name.trim() || (needsSecret && !form.secret)
+              }
+            >
+              {form.id ? "Update Profile" : "Add Profile"}
+            </Button>
+            {form.id && (
+              <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthProfiles;
@@ -122,21 +122,11 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
     }
   }, [selectedRepo]);
 
+  // The token stays in the secrets vault; the edge function checks it with GitHub
   const checkGitHubAccess = async () => {
-    if (!profile?.github_token) {
-      setHasGitHubAccess(false);
-      return;
-    }
-
     try {
-      const response = await fetch("https://api.github.com/user", {
-        headers: {
-          Authorization: `token ${profile.github_token}`,
-          Accept: "application/vnd.github.v3+json",
-        },
-      });
-
-      setHasGitHubAccess(response.ok);
+      const result = await api.testSecret("github_token");
+      setHasGitHubAccess(result.valid);
     } catch (error) {
       setHasGitHubAccess(false);
     }
@@ -168,25 +158,9 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
   };
 
   const loadRepositories = async () => {
-    if (!profile?.github_token) return;
-
     setLoadingRepos(true);
     try {
-      const response = await fetch(
-        "https://api.github.com/user/repos?sort=updated&per_page=50",
-        {
-          headers: {
-            Authorization: `token ${profile.github_token}`,
-            Accept: "application/vnd.github.v3+json",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch repositories");
-      }
-
-      const repos = await response.json();
+      const repos = await api.getGitHubRepositories();
       setRepositories(repos);
     } catch (error: any) {
       toast({
@@ -200,14 +174,11 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
   };
 
   const analyzeRepository = async () => {
-    if (!selectedRepo || !profile?.github_token) return;
+    if (!selectedRepo || !hasGitHubAccess) return;
 
     setAnalyzingRepo(true);
     try {
-      const analysis = await api.analyzeRepository(
-        selectedRepo.html_url,
-        profile.github_token
-      );
+      const analysis = await api.analyzeRepository(selectedRepo.html_url);
 
       // Simulate analysis results based on repository structure
       const mockAnalysis: RepositoryAnalysis = {
@@ -286,11 +257,7 @@ const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
 
       // Setup GitHub webhook automatically
       try {
-        await api.setupGitHubWebhook(
-          newProject.id,
-          selectedRepo.html_url,
-          profile!.github_token!
-        );
+        await api.setupGitHubWebhook(newProject.id, selectedRepo.html_url);
       } catch (webhookError) {
         console.warn("Webhook setup failed:", webhookError);
         // Don't fail project creation if webhook fails
@@ -0,0 +1,147 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import {
+  api,
+  type Dataset,
+  type DatasetSelection,
+  type TestCase,
+} from "@/lib/supabase";
+
+interface DatasetBindingProps {
+  testCase: TestCase;
+  datasets: Omit<Dataset, "rows">[];
+  onChange: (testCase: TestCase) => void;
+  // Load tests choose how rows are drawn; functional tests always run every row
+  showSelection?: boolean;
+}
+
+const NO_DATASET = "none";
+
+const SELECTIONS: { value: DatasetSelection; label: string }[] = [
+  { value: "sequential", label: "Sequential" },
+  { value: "random", label: "Random" },
+  { value: "unique", label: "Unique (each row once)" },
+];
+
+// Binds a project dataset to a test case (Settings > Datasets)
+const DatasetBinding = ({
+  testCase,
+  datasets,
+  onChange,
+  showSelection = false,
+}: DatasetBindingProps) => {
+  const bind = async (
+    binding: Partial<
+      Pick<TestCase, "dataset_id" | "dataset_selection" | "dataset_scope">
+    >
+  ) => {
+    try {
+      onChange(
+        await api.bindDataset(testCase.id, {
+          dataset_id: testCase.dataset_id ?? null,
+          dataset_selection: testCase.dataset_selection || "sequential",
+          dataset_scope: testCase.dataset_scope || "iteration",
+          ...binding,
+        })
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to bind dataset",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const bound = datasets.find((dataset) => dataset.id === testCase.dataset_id);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Dataset:</h4>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Data</Label>
+          <Select
+            value={testCase.dataset_id || NO_DATASET}
+            onValueChange={(value) =>
+              bind({ dataset_id: value === NO_DATASET ? null : value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DATASET}>No dataset</SelectItem>
+              {datasets.map((dataset) => (
+                <SelectItem key={dataset.id} value={dataset.id}>
+                  {dataset.name} ({dataset.row_count} rows)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {showSelection && bound && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Row selection</Label>
+              <Select
+                value={testCase.dataset_selection || "sequential"}
+                onValueChange={(value) =>
+                  bind({ dataset_selection: value as DatasetSelection })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SELECTIONS.map((selection) => (
+                    <SelectItem key={selection.value} value={selection.value}>
+                      {selection.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">New row</Label>
+              <Select
+                value={testCase.dataset_scope || "iteration"}
+                onValueChange={(value) =>
+                  bind({ dataset_scope: value as "vu" | "iteration" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="iteration">Every iteration</SelectItem>
+                  <SelectItem value="vu">Once per virtual user</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+      {bound && (
+        <p className="text-xs text-gray-500">
+          {showSelection
+            ? "Used by the built-in runner and load agents."
+            : "Runs once per row (up to 100)."}{" "}
+          Variables:{" "}
+          {bound.columns.map((column) => `\${${column}}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DatasetBinding;
@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  api,
+  type RequestExtractor,
+  type RequestExtractorType,
+  type TestCase,
+} from "@/lib/supabase";
+
+interface EndpointExtractorsProps {
+  testCase: TestCase;
+  onChange: (testCase: TestCase) => void;
+}
+
+const EXTRACTOR_TYPES: {
+  value: RequestExtractorType;
+  label: string;
+  placeholder: string;
+}[] = [
+  { value: "json_path", label: "JSONPath", placeholder: "$.access_token" },
+  { value: "regex", label: "Regex", placeholder: 'name="csrf" value="([^"]+)"' },
+  { value: "header", label: "Header", placeholder: "Location" },
+];
+
+// Same names the runners substitute as ${name}
+const VARIABLE_NAME = /^[\w.-]+$/;
+
+// Values captured from one endpoint's response and reused by later endpoints of the same virtual user
+const EndpointExtractors = ({ testCase, onChange }: EndpointExtractorsProps) => {
+  const [endpointIndex, setEndpointIndex] = useState("0");
+  const [draft, setDraft] = useState<RequestExtractor>({
+    name: "",
+    type: "json_path",
+    expression: "",
+  });
+
+  const endpoints = testCase.jmeter_config?.endpoints || [];
+
+  const save = async (index: number, extractors: RequestExtractor[]) => {
+    try {
+      onChange(await api.updateEndpointExtractors(testCase, index, extractors));
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save extractors",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const addExtractor = async () => {
+    const name = draft.name.trim();
+    const expression = draft.expression.trim();
+    if (!VARIABLE_NAME.test(name) || !expression) {
+      toast({
+        title: "Invalid extractor",
+        description:
+          "Give the variable a name (letters, digits, _, . or -) and an expression",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (draft.type === "regex") {
+      try {
+        new RegExp(expression);
+      } catch {
+        toast({
+          title: "Invalid extractor",
+          description: "The regular expression does not compile",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const index = Number(endpointIndex);
+    const existing = endpoints[index]?.extractors || [];
+    const saved = await save(index, [
+      ...existing.filter((extractor) => extractor.name !== name),
+      { name, type: draft.type, expression },
+    ]);
+    if (saved) setDraft((prev) => ({ ...prev, name: "", expression: "" }));
+  };
+
+  if (endpoints.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium text-sm">Extractors:</h4>
+      {endpoints.map((endpoint, index) =>
+        (endpoint.extractors || []).map((extractor) => (
+          <div
+            key={`${index}-${extractor.name}`}
+            className="flex items-center gap-2 text-xs"
+          >
+            <span className="font-mono bg-gray-200 px-1 rounded">
+              {`\${${extractor.name}}`}
+            </span>
+            <span className="text-gray-600 truncate">
+              {EXTRACTOR_TYPES.find((type) => type.value === extractor.type)
+                ?.label || extractor.type}{" "}
+              <span className="font-mono">{extractor.expression}</span> from{" "}
+              {endpoint.name || `${endpoint.method} ${endpoint.url}`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                save(
+                  index,
+                  (endpoint.extractors || []).filter(
+                    (other) => other.name !== extractor.name
+                  )
+                )
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        ))
+      )}
+      <div className="flex items-center gap-2">
+        <Select value={endpointIndex} onValueChange={setEndpointIndex}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {endpoints.map((endpoint, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {endpoint.name || `${endpoint.method} ${endpoint.url}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={draft.type}
+          onValueChange={(value) =>
+            setDraft((prev) => ({
+              ...prev,
+              type: value as RequestExtractorType,
+            }))
+          }
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXTRACTOR_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="token"
+          value={draft.name}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, name: e.target.value }))
+          }
+          className="w-32"
+        />
+        <Input
+          placeholder={
+            EXTRACTOR_TYPES.find((type) => type.value === draft.type)
+              ?.placeholder
+          }
+          value={draft.expression}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, expression: e.target.value }))
+          }
+          className="flex-1"
+        />
+        <Button variant="outline" size="sm" onClick={addExtractor}>
+          Add
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Virtual users run the endpoints in order; use {"${name}"} in later
+        URLs, headers and bodies. Arrival-rate profiles send single requests,
+        so nothing carries over. Generated JMeter plans get matching
+        extractors.
+      </p>
+    </div>
+  );
+};
+
+export default EndpointExtractors;
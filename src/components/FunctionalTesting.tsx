@@ -7,6 +7,7 @@ import {
   Download,
   RefreshCw,
   Play,
+  Square,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -26,17 +27,51 @@ import {
   api,
   supabase,
   subscriptions,
+  type AuthProfile,
+  type BrowserConfig,
+  type Dataset,
   type TestCase,
+  type TestCaseFlakiness,
   type TestRun,
 } from "@/lib/supabase";
+import { describeStep, toSeleniumCode } from "@/lib/steps";
+import DatasetBinding from "@/components/DatasetBinding";
+import AuthProfileBinding from "@/components/AuthProfileBinding";
+
+const MATRIX_BROWSERS = [
+  { value: "chrome", label: "Chrome" },
+  { value: "firefox", label: "Firefox" },
+  { value: "edge", label: "Edge" },
+  { value: "safari", label: "Safari" },
+];
+
+const MATRIX_VIEWPORTS: Array<{
+  value: NonNullable<BrowserConfig["viewport"]>;
+  label: string;
+}> = [
+  { value: "desktop", label: "Desktop" },
+  { value: "tablet", label: "Tablet" },
+  { value: "mobile", label: "Mobile" },
+];
 
 const FunctionalTesting = () => {
   const { currentProject } = useApp();
   const [input, setInput] = useState("");
   const [environment, setEnvironment] = useState("staging");
+  const [concurrency, setConcurrency] = useState("default");
+  const [browsers, setBrowsers] = useState<Set<string>>(new Set(["chrome"]));
+  const [viewports, setViewports] = useState<Set<string>>(
+    new Set(["desktop"])
+  );
   const [isGenerating, setIsGenerating] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [flakiness, setFlakiness] = useState<
+    Record<string, TestCaseFlakiness>
+  >({});
+  const [datasets, setDatasets] = useState<Omit<Dataset, "rows">[]>([]);
+  const [authProfiles, setAuthProfiles] = useState<AuthProfile[]>([]);
   const [selectedTestCases, setSelectedTestCases] = useState<Set<string>>(
     new Set()
   );
@@ -102,6 +137,11 @@ const FunctionalTesting = () => {
     };
   }, [currentProject, currentTestRun]);
 
+  const replaceTestCase = (updated: TestCase) =>
+    setTestCases((prev) =>
+      prev.map((t) => (t.id === updated.id ? updated : t))
+    );
+
   const loadTestCases = async () => {
     if (!currentProject) return;
 
@@ -120,6 +160,28 @@ const FunctionalTesting = () => {
         variant: "destructive",
       });
     }
+
+    // Flakiness only decorates the list, so a failure here is not surfaced
+    try {
+      const rows = await api.getTestCaseFlakiness(currentProject.id);
+      setFlakiness(
+        Object.fromEntries(rows.map((row) => [row.test_case_id, row]))
+      );
+    } catch (error) {
+      console.error("Failed to load test flakiness:", error);
+    }
+
+    try {
+      setDatasets(await api.getDatasets(currentProject.id));
+    } catch (error) {
+      console.error("Failed to load datasets:", error);
+    }
+
+    try {
+      setAuthProfiles(await api.getAuthProfiles(currentProject.id));
+    } catch (error) {
+      console.error("Failed to load auth profiles:", error);
+    }
   };
 
   const handleGenerateTests = async () => {
@@ -198,10 +260,29 @@ const FunctionalTesting = () => {
       return;
     }
 
+    // Every selected browser runs at every selected viewport
+    const matrix: BrowserConfig[] = MATRIX_BROWSERS.filter((browser) =>
+      browsers.has(browser.value)
+    ).flatMap((browser) =>
+      MATRIX_VIEWPORTS.filter((viewport) => viewports.has(viewport.value)).map(
+        (viewport) => ({ browser: browser.value, viewport: viewport.value })
+      )
+    );
+
+    if (matrix.length === 0) {
+      toast({
+        title: "No configurations selected",
+        description: "Select at least one browser and one viewport",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsRunning(true);
+    setIsCancelling(false);
     setTestProgress({
       current: 0,
-      total: selectedTestCases.size,
+      total: selectedTestCases.size * matrix.length,
       passed: 0,
       failed: 0,
       skipped: 0,
@@ -231,8 +312,11 @@ const FunctionalTesting = () => {
           body: JSON.stringify({
             projectId: currentProject.id,
             testCaseIds: Array.from(selectedTestCases),
-            browserType: "chrome", // Default to chrome, could make this configurable
+            browserType: matrix[0].browser,
+            matrix,
             environment: environment,
+            concurrency:
+              concurrency === "default" ? undefined : parseInt(concurrency),
           }),
         }
       );
@@ -254,6 +338,7 @@ const FunctionalTesting = () => {
 
       let buffer = "";
       let testRunId: string | null = null;
+      let lastSequence = 0;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -269,13 +354,22 @@ const FunctionalTesting = () => {
             try {
               const data = JSON.parse(line.slice(6));
 
+              // Parallel workers number their events; drop anything older than what was shown
+              if (data.sequence) {
+                if (data.sequence <= lastSequence) continue;
+                lastSequence = data.sequence;
+              }
+
               // Handle initial response
               if (data.testRunId && !testRunId) {
                 testRunId = data.testRunId;
                 setCurrentTestRun({ id: testRunId } as TestRun);
                 toast({
                   title: "Functional test execution started",
-                  description: `Running ${selectedTestCases.size} tests on ${environment} environment`,
+                  description:
+                    matrix.length > 1
+                      ? `Running ${selectedTestCases.size} tests across ${matrix.length} configurations on ${environment} environment`
+                      : `Running ${selectedTestCases.size} tests on ${environment} environment`,
                 });
               }
 
@@ -291,11 +385,21 @@ const FunctionalTesting = () => {
                 }));
               }
 
+              if (data.type === "retry") {
+                toast({
+                  title: `Retrying (attempt ${data.attempt} of ${data.maxAttempts})`,
+                  description: `${data.testName}: ${data.error}`,
+                });
+              }
+
               // Handle test completion updates
               if (data.type === "test_complete") {
                 toast({
                   title: `Test ${data.status === "pass" ? "Passed" : "Failed"}`,
-                  description: data.testName,
+                  description:
+                    matrix.length > 1
+                      ? `${data.testName} (${data.configuration})`
+                      : data.testName,
                   variant: data.status === "pass" ? "default" : "destructive",
                 });
               }
@@ -317,6 +421,16 @@ const FunctionalTesting = () => {
                 }, 1000);
               }
 
+              if (data.type === "cancelled") {
+                setIsRunning(false);
+                setIsCancelling(false);
+                setCurrentTestRun(null);
+                toast({
+                  title: "Test Run Cancelled",
+                  description: `${data.passed} passed, ${data.failed} failed before cancelling`,
+                });
+              }
+
               // Handle errors
               if (data.type === "error") {
                 setIsRunning(false);
@@ -344,6 +458,26 @@ const FunctionalTesting = () => {
     }
   };
 
+  const handleCancelRun = async () => {
+    if (!currentTestRun) return;
+
+    setIsCancelling(true);
+    try {
+      await api.cancelTestRun(currentTestRun.id);
+      toast({
+        title: "Cancelling test run",
+        description: "Tests in progress will stop at their next step",
+      });
+    } catch (error: any) {
+      setIsCancelling(false);
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel test run",
+        variant: "destructive",
+      });
+    }
+  };
+
   const toggleTestExpansion = (testId: string) => {
     const newExpanded = new Set(expandedTests);
     if (newExpanded.has(testId)) {
@@ -354,6 +488,20 @@ const FunctionalTesting = () => {
     setExpandedTests(newExpanded);
   };
 
+  const toggleMatrixValue = (
+    values: Set<string>,
+    setValues: (values: Set<string>) => void,
+    value: string
+  ) => {
+    const next = new Set(values);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    setValues(next);
+  };
+
   const toggleTestSelection = (testId: string) => {
     const newSelected = new Set(selectedTestCases);
     if (newSelected.has(testId)) {
@@ -408,14 +556,20 @@ const FunctionalTesting = () => {
   const generateSeleniumCode = (tests: TestCase[]) => {
     return `from selenium import webdriver
 from selenium.webdriver.common.by import By
-from selenium.webdriver.support.ui import WebDriverWait
+from selenium.webdriver.common.keys import Keys
+from selenium.webdriver.common.action_chains import ActionChains
+from selenium.webdriver.support.ui import WebDriverWait, Select
 from selenium.webdriver.support import expected_conditions as EC
+from urllib.parse import urljoin
+import requests
+import time
 import unittest
 
 class QAAutopilotFunctionalTests(unittest.TestCase):
     def setUp(self):
+        self.base_url = "${getEnvironmentUrl(environment)}"
         self.driver = webdriver.Chrome()
-        self.driver.get("${getEnvironmentUrl(environment)}")
+        self.driver.get(self.base_url)
 
     ${tests
       .map(
@@ -423,15 +577,15 @@ class QAAutopilotFunctionalTests(unittest.TestCase):
     def test_${test.name.toLowerCase().replace(/[^a-z0-9]/g, "_")}(self):
         """${test.description || test.name}"""
         driver = self.driver
+        wait = WebDriverWait(driver, 10)
         ${test.steps
           .map(
             (step, index) => `
-        # Step ${index + 1}: ${step.action}
-        # Expected: ${step.expected_result}`
+        # Step ${index + 1}: ${describeStep(step)}
+        # Expected: ${step.expected_result || "-"}
+        ${toSeleniumCode(step).join("\n        ")}`
           )
           .join("")}
-        
-        # Test implementation would go here
         pass`
       )
       .join("")}
@@ -537,6 +691,21 @@ if __name__ == "__main__":
                 </SelectContent>
               </Select>
             </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium">Parallel:</label>
+              <Select value={concurrency} onValueChange={setConcurrency}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Project default</SelectItem>
+                  <SelectItem value="1">1 session</SelectItem>
+                  <SelectItem value="2">2 sessions</SelectItem>
+                  <SelectItem value="4">4 sessions</SelectItem>
+                  <SelectItem value="8">8 sessions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <Button
               onClick={handleGenerateTests}
               disabled={isGenerating}
@@ -568,6 +737,57 @@ if __name__ == "__main__":
                 </>
               )}
             </Button>
+            {isRunning && currentTestRun && (
+              <Button
+                onClick={handleCancelRun}
+                disabled={isCancelling}
+                variant="destructive"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                {isCancelling ? "Cancelling..." : "Cancel"}
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-3">
+              <label className="text-sm font-medium">Browsers:</label>
+              {MATRIX_BROWSERS.map((browser) => (
+                <label
+                  key={browser.value}
+                  className="flex items-center gap-1.5 text-sm"
+                >
+                  <Checkbox
+                    checked={browsers.has(browser.value)}
+                    onCheckedChange={() =>
+                      toggleMatrixValue(browsers, setBrowsers, browser.value)
+                    }
+                  />
+                  {browser.label}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="text-sm font-medium">Viewports:</label>
+              {MATRIX_VIEWPORTS.map((viewport) => (
+                <label
+                  key={viewport.value}
+                  className="flex items-center gap-1.5 text-sm"
+                >
+                  <Checkbox
+                    checked={viewports.has(viewport.value)}
+                    onCheckedChange={() =>
+                      toggleMatrixValue(viewports, setViewports, viewport.value)
+                    }
+                  />
+                  {viewport.label}
+                </label>
+              ))}
+            </div>
+            {browsers.size * viewports.size > 1 && (
+              <span className="text-sm text-gray-500">
+                {browsers.size * viewports.size} configurations per test
+              </span>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -654,6 +874,24 @@ if __name__ == "__main__":
                           {test.category}
                         </span>
                       )}
+                      {flakiness[test.id]?.is_flaky && (
+                        <span
+                          className="px-2 py-1 text-xs rounded bg-orange-100 text-orange-800"
+                          title={`Passed and failed on the same commit in ${
+                            flakiness[test.id].flaky_revisions
+                          } of ${
+                            flakiness[test.id].revisions
+                          } recent revisions`}
+                        >
+                          Flaky{" "}
+                          {Math.round(
+                            flakiness[test.id].flakiness_score * 100
+                          )}
+                          %
+                          {currentProject?.settings?.quarantine_flaky &&
+                            " · quarantined"}
+                        </span>
+                      )}
                     </div>
                   </div>
                   {expandedTests.has(test.id) && (
@@ -678,7 +916,7 @@ if __name__ == "__main__":
                               {test.steps.map((step, stepIndex) => (
                                 <li key={stepIndex}>
                                   <span className="font-medium">
-                                    {step.action}
+                                    {describeStep(step)}
                                   </span>
                                   <span className="text-gray-600">
                                     {" "}
@@ -699,6 +937,16 @@ if __name__ == "__main__":
                             </div>
                           </div>
                         )}
+                        <DatasetBinding
+                          testCase={test}
+                          datasets={datasets}
+                          onChange={replaceTestCase}
+                        />
+                        <AuthProfileBinding
+                          testCase={test}
+                          profiles={authProfiles}
+                          onChange={replaceTestCase}
+                        />
                       </div>
                     </div>
                   )}
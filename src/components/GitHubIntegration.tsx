@@ -26,8 +26,13 @@ interface RepositoryStructure {
   dependencies: Record<string, string>;
 }
 
-const GitHubIntegration = () => {
-  const { profile, currentProject, refreshProjects } = useApp();
+interface GitHubIntegrationProps {
+  // Whether a GitHub token is saved in the secrets vault
+  hasGitHubToken: boolean;
+}
+
+const GitHubIntegration = ({ hasGitHubToken }: GitHubIntegrationProps) => {
+  const { currentProject, refreshProjects } = useApp();
   const [repositoryUrl, setRepositoryUrl] = useState("");
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isSettingUpWebhook, setIsSettingUpWebhook] = useState(false);
@@ -35,7 +40,6 @@ const GitHubIntegration = () => {
     useState<RepositoryStructure | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
 
-  const hasGitHubToken = !!profile?.github_token;
   const projectHasRepo = !!currentProject?.repository_url;
 
   const handleAnalyzeRepository = async () => {
@@ -80,10 +84,7 @@ const GitHubIntegration = () => {
           "Scanning code structure and identifying testable components.",
       });
 
-      const result = await api.analyzeRepository(
-        repositoryUrl.trim(),
-        profile!.github_token!
-      );
+      const result = await api.analyzeRepository(repositoryUrl.trim());
 
       setRepoStructure(result.structure);
 
@@ -145,11 +146,7 @@ const GitHubIntegration = () => {
           "Configuring GitHub webhook for automatic test generation.",
       });
 
-      const result = await api.setupGitHubWebhook(
-        currentProject.id,
-        urlToUse,
-        profile!.github_token!
-      );
+      const result = await api.setupGitHubWebhook(currentProject.id, urlToUse);
 
       await refreshProjects();
 
@@ -41,8 +41,13 @@ import {
   type TestRun,
   type TestResult,
   type TestCase,
+  type TestStepResult,
+  type LoadThresholdVerdict,
+  type LoadEndpointMetrics,
   supabase,
 } from "@/lib/supabase";
+import { describeStep } from "@/lib/steps";
+import ArtifactImage from "@/components/ArtifactImage";
 import { toast } from "@/hooks/use-toast";
 import {
   LineChart,
@@ -53,8 +58,8 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
-  BarChart,
   Bar,
+  ComposedChart,
 } from "recharts";
 
 const History = () => {
@@ -69,9 +74,16 @@ const History = () => {
     {}
   );
   const [testCases, setTestCases] = useState<Record<string, TestCase>>({});
+  const [stepResults, setStepResults] = useState<
+    Record<string, TestStepResult[]>
+  >({});
   const [isLoading, setIsLoading] = useState(true);
   const [loadingResults, setLoadingResults] = useState<Set<string>>(new Set());
   const [fullscreenImage, setFullscreenImage] = useState<string | null>(null);
+  const [endpointSort, setEndpointSort] = useState<{
+    key: keyof LoadEndpointMetrics;
+    direction: "asc" | "desc";
+  }>({ key: "percentile_95", direction: "desc" });
 
   useEffect(() => {
     loadTestRuns();
@@ -193,8 +205,29 @@ const History = () => {
     }
   };
 
+  const loadStepResults = async (testResultId: string) => {
+    if (stepResults[testResultId]) {
+      return;
+    }
+
+    try {
+      const data = await api.getTestStepResults(testResultId);
+      setStepResults((prev) => ({
+        ...prev,
+        [testResultId]: data,
+      }));
+    } catch (error: any) {
+      console.error("Failed to load step results:", error);
+    }
+  };
+
   const toggleResultExpanded = (resultId: string) => {
-    setExpandedResult(expandedResult === resultId ? null : resultId);
+    if (expandedResult === resultId) {
+      setExpandedResult(null);
+    } else {
+      setExpandedResult(resultId);
+      loadStepResults(resultId);
+    }
   };
 
   const getSuccessRate = (passed: number, total: number) => {
@@ -210,6 +243,10 @@ const History = () => {
         return <XCircle className="w-4 h-4 text-red-600" />;
       case "running":
         return <Clock className="w-4 h-4 text-blue-600 animate-spin" />;
+      case "cancelled":
+        return <XCircle className="w-4 h-4 text-gray-400" />;
+      case "timed_out":
+        return <Timer className="w-4 h-4 text-orange-600" />;
       default:
         return <AlertCircle className="w-4 h-4 text-yellow-600" />;
     }
@@ -252,6 +289,27 @@ const History = () => {
     );
   };
 
+  // A run is a matrix run when its results span more than one browser configuration
+  const isMatrixRun = (results: TestResult[]) =>
+    new Set(
+      results
+        .map((result) => result.configuration_key)
+        .filter((key): key is string => !!key)
+    ).size > 1;
+
+  // "chrome/latest/any/mobile" -> "chrome · mobile", keeping non-default version/OS
+  const formatConfiguration = (key: string) => {
+    const [browser, version, platform, viewport] = key.split("/");
+    return [
+      browser,
+      version !== "latest" ? version : null,
+      platform !== "any" ? platform : null,
+      viewport,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+  };
+
   const parseFailureDetails = (result: TestResult) => {
     try {
       if (result.logs && result.logs.startsWith("{")) {
@@ -295,36 +353,363 @@ const History = () => {
     );
   };
 
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+  };
+
+  const ENDPOINT_COLUMNS: {
+    key: keyof LoadEndpointMetrics;
+    label: string;
+    format: (value: number) => string;
+  }[] = [
+    { key: "total_requests", label: "Requests", format: (v) => `${v}` },
+    { key: "failed_requests", label: "Errors", format: (v) => `${v}` },
+    { key: "error_rate", label: "Error %", format: (v) => v.toFixed(2) },
+    { key: "avg_response_time", label: "Avg", format: (v) => `${Math.round(v)}ms` },
+    { key: "percentile_50", label: "p50", format: (v) => `${v}ms` },
+    { key: "percentile_90", label: "p90", format: (v) => `${v}ms` },
+    { key: "percentile_95", label: "p95", format: (v) => `${v}ms` },
+    { key: "percentile_99", label: "p99", format: (v) => `${v}ms` },
+    { key: "max_response_time", label: "Max", format: (v) => `${v}ms` },
+    { key: "bytes", label: "Bytes", format: (v) => formatBytes(v) },
+  ];
+
+  const toggleEndpointSort = (key: keyof LoadEndpointMetrics) => {
+    setEndpointSort((prev) => ({
+      key,
+      direction: prev.key === key && prev.direction === "desc" ? "asc" : "desc",
+    }));
+  };
+
+  // Per-endpoint stats of a load test; click a column header to sort by it
+  const EndpointMetricsTable = ({
+    endpoints,
+  }: {
+    endpoints: LoadEndpointMetrics[];
+  }) => {
+    const sorted = [...endpoints].sort((a, b) => {
+      const left = a[endpointSort.key] ?? 0;
+      const right = b[endpointSort.key] ?? 0;
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return endpointSort.direction === "asc" ? order : -order;
+    });
+
+    const header = (key: keyof LoadEndpointMetrics, label: string) => (
+      <th
+        key={key}
+        className="py-2 px-2 font-medium cursor-pointer select-none whitespace-nowrap"
+        onClick={() => toggleEndpointSort(key)}
+      >
+        {label}
+        {endpointSort.key === key &&
+          (endpointSort.direction === "asc" ? " ▲" : " ▼")}
+      </th>
+    );
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              {header("name", "Endpoint")}
+              {ENDPOINT_COLUMNS.map((column) =>
+                header(column.key, column.label)
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((endpoint) => (
+              <tr key={endpoint.name} className="border-b last:border-0">
+                <td className="py-2 px-2 font-mono whitespace-nowrap">
+                  {endpoint.name}
+                </td>
+                {ENDPOINT_COLUMNS.map((column) => (
+                  <td
+                    key={column.key}
+                    className={`py-2 px-2 whitespace-nowrap ${
+                      column.key === "error_rate" && endpoint.error_rate > 0
+                        ? "text-red-600"
+                        : ""
+                    }`}
+                  >
+                    {column.format(Number(endpoint[column.key]) || 0)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  // Test cases (one row per data row) × configurations for cross-browser runs; clicking a cell opens that result
+  const MatrixGrid = ({ results }: { results: TestResult[] }) => {
+    const rowKey = (result: TestResult) =>
+      `${result.test_case_id}|${result.data_row ?? ""}`;
+    const configurations = Array.from(
+      new Set(results.map((result) => result.configuration_key as string))
+    ).sort();
+    const rows = Array.from(
+      new Map(results.map((result) => [rowKey(result), result])).values()
+    );
+    const cells = new Map(
+      results.map((result) => [
+        `${rowKey(result)}|${result.configuration_key}`,
+        result,
+      ])
+    );
+
+    return (
+      <div className="mb-4 overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2 text-left font-medium text-gray-500">
+                Test case
+              </th>
+              {configurations.map((key) => (
+                <th
+                  key={key}
+                  className="p-2 text-center font-medium text-gray-500 text-xs"
+                >
+                  {formatConfiguration(key)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={rowKey(row)} className="border-t">
+                <td className="p-2 pr-4 font-medium">
+                  {getTestCaseName(row.test_case_id)}
+                  {row.data_row != null && (
+                    <span className="ml-1 text-xs font-normal text-gray-500">
+                      row {row.data_row + 1}
+                    </span>
+                  )}
+                </td>
+                {configurations.map((key) => {
+                  const result = cells.get(`${rowKey(row)}|${key}`);
+                  return (
+                    <td key={key} className="p-1 text-center">
+                      {result ? (
+                        <button
+                          type="button"
+                          title={result.error_message || result.status}
+                          onClick={() => toggleResultExpanded(result.id)}
+                          className={`w-full rounded px-2 py-1 ${
+                            result.status === "pass"
+                              ? "bg-green-100 text-green-700 hover:bg-green-200"
+                              : result.status === "fail"
+                              ? "bg-red-100 text-red-700 hover:bg-red-200"
+                              : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+                          }`}
+                        >
+                          {result.status === "pass" ? (
+                            <CheckCircle className="w-4 h-4 mx-auto" />
+                          ) : result.status === "fail" ? (
+                            <XCircle className="w-4 h-4 mx-auto" />
+                          ) : (
+                            <AlertCircle className="w-4 h-4 mx-auto" />
+                          )}
+                        </button>
+                      ) : (
+                        <span className="text-gray-300">–</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const StepTimeline = ({ steps }: { steps: TestStepResult[] }) => {
+    return (
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {steps.map((step) => (
+          <li key={step.id} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                step.status === "pass"
+                  ? "bg-green-500"
+                  : step.status === "fail"
+                  ? "bg-red-500"
+                  : "bg-gray-300"
+              }`}
+            />
+            <div
+              className={`rounded border p-3 text-sm ${
+                step.status === "fail"
+                  ? "border-red-200 bg-red-50"
+                  : step.status === "skip"
+                  ? "bg-gray-50 text-gray-500"
+                  : ""
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  {step.status === "pass" ? (
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                  ) : step.status === "fail" ? (
+                    <XCircle className="w-4 h-4 text-red-600" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 text-gray-400" />
+                  )}
+                  <span className="font-medium">
+                    {step.step_index + 1}. {step.action}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {step.status === "pass" && !step.verified && (
+                    <Badge variant="outline">unverified</Badge>
+                  )}
+                  {step.duration_ms !== undefined &&
+                    step.duration_ms !== null && (
+                      <span className="text-xs text-gray-500">
+                        {step.duration_ms}ms
+                      </span>
+                    )}
+                </div>
+              </div>
+              {step.expected_result && (
+                <div className="mt-1 text-gray-600">
+                  Expected: {step.expected_result}
+                </div>
+              )}
+              {step.page_url && (
+                <div className="mt-1 text-xs text-gray-500 break-all">
+                  <Globe className="inline w-3 h-3 mr-1" />
+                  {step.page_url}
+                </div>
+              )}
+              {step.assertions.length > 0 && (
+                <table className="mt-2 w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1">Check</th>
+                      <th className="py-1">Expected</th>
+                      <th className="py-1">Actual</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {step.assertions.map((assertion, idx) => (
+                      <tr
+                        key={idx}
+                        className={
+                          assertion.passed ? "text-green-700" : "text-red-700"
+                        }
+                      >
+                        <td className="py-1 pr-2">{assertion.description}</td>
+                        <td className="py-1 pr-2 font-mono">
+                          {assertion.expected}
+                        </td>
+                        <td className="py-1 font-mono break-all">
+                          {assertion.actual}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {step.error_message && step.status === "fail" && (
+                <div className="mt-2 text-red-700">{step.error_message}</div>
+              )}
+              {step.screenshot_url && (
+                <ArtifactImage
+                  path={step.screenshot_url}
+                  alt={`Step ${step.step_index + 1}`}
+                  className="mt-2 h-32 rounded border shadow-sm cursor-pointer"
+                  onOpen={setFullscreenImage}
+                />
+              )}
+              {step.dom_snapshot && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs text-gray-600">
+                    DOM snapshot
+                  </summary>
+                  <pre className="mt-1 max-h-64 overflow-auto bg-gray-900 text-gray-100 p-2 rounded text-xs whitespace-pre-wrap break-all">
+                    {step.dom_snapshot}
+                  </pre>
+                </details>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  // Reports such as the JMeter dashboard are downloaded through a short-lived signed URL
+  const openArtifact = async (path: string) => {
+    try {
+      window.open(await api.getArtifactUrl(path), "_blank");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open artifact",
+        variant: "destructive",
+      });
+    }
+  };
+
   const LoadTestMetrics = ({
     metrics,
+    thresholds,
     testRunId,
   }: {
     metrics: any;
+    thresholds?: LoadThresholdVerdict[];
     testRunId?: string;
   }) => {
     if (!metrics) return null;
 
-    // Prepare data for charts
-    const responseTimeData = metrics.response_time_over_time?.map(
-      (point: any, index: number) => ({
-        time: index,
-        responseTime: point,
-      })
-    );
+    // Prepare data for charts; runs with a timeline are plotted against real seconds
+    const timeline: any[] | undefined = metrics.timeline?.length
+      ? metrics.timeline
+      : undefined;
 
-    const throughputData = metrics.throughput_over_time?.map(
-      (point: any, index: number) => ({
-        time: index,
-        throughput: point,
-      })
-    );
+    const responseTimeData = timeline
+      ? timeline.map((bucket) => ({
+          time: bucket.time,
+          responseTime: Math.round(bucket.avg_response_time),
+          p50: bucket.percentile_50,
+          p95: bucket.percentile_95,
+          p99: bucket.percentile_99,
+        }))
+      : metrics.response_time_over_time?.map(
+          (point: any, index: number) => ({
+            time: index,
+            responseTime: point,
+          })
+        );
 
-    const errorRateData = metrics.error_rate_over_time?.map(
-      (point: any, index: number) => ({
-        time: index,
-        errorRate: point,
-      })
-    );
+    const throughputData = timeline
+      ? timeline.map((bucket) => ({
+          time: bucket.time,
+          throughput: Number(bucket.requests_per_second.toFixed(2)),
+          activeVus: bucket.active_vus,
+        }))
+      : metrics.throughput_over_time?.map((point: any, index: number) => ({
+          time: index,
+          throughput: point,
+        }));
+
+    const errorRateData = timeline
+      ? timeline.map((bucket) => ({
+          time: bucket.time,
+          errorRate: Number(bucket.error_rate.toFixed(2)),
+        }))
+      : metrics.error_rate_over_time?.map((point: any, index: number) => ({
+          time: index,
+          errorRate: point,
+        }));
 
     return (
       <div className="space-y-6">
@@ -384,6 +769,67 @@ const History = () => {
           </Card>
         </div>
 
+        {/* Open-model profile could not be sustained */}
+        {metrics.kept_up === false && (
+          <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5" />
+            <span>
+              Could not keep up with the {metrics.profile?.type} profile:{" "}
+              {metrics.dropped_requests} of {metrics.target_requests} scheduled
+              requests were dropped because all {metrics.profile?.maxVUs}{" "}
+              virtual users were busy.
+            </span>
+          </div>
+        )}
+
+        {/* Threshold Verdicts */}
+        {thresholds && thresholds.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="w-5 h-5" />
+                Thresholds
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 font-medium">Threshold</th>
+                    <th className="py-2 font-medium">Actual</th>
+                    <th className="py-2 font-medium text-right">Verdict</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {thresholds.map((threshold, index) => (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="py-2 font-mono">
+                        {threshold.description}
+                      </td>
+                      <td className="py-2">
+                        {threshold.actual === null
+                          ? threshold.reason || "n/a"
+                          : threshold.actual}
+                      </td>
+                      <td className="py-2 text-right">
+                        {threshold.status === "pass" ? (
+                          <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                            pass
+                          </Badge>
+                        ) : threshold.status === "fail" ? (
+                          <Badge variant="destructive">fail</Badge>
+                        ) : (
+                          <Badge variant="outline">no data</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Response Time Chart */}
         {responseTimeData && (
           <Card>
@@ -404,9 +850,34 @@ const History = () => {
                   <Line
                     type="monotone"
                     dataKey="responseTime"
+                    name={timeline ? "avg" : "responseTime"}
                     stroke="#3b82f6"
                     activeDot={{ r: 8 }}
                   />
+                  {timeline && (
+                    <Line
+                      type="monotone"
+                      dataKey="p50"
+                      stroke="#10b981"
+                      dot={false}
+                    />
+                  )}
+                  {timeline && (
+                    <Line
+                      type="monotone"
+                      dataKey="p95"
+                      stroke="#f59e0b"
+                      dot={false}
+                    />
+                  )}
+                  {timeline && (
+                    <Line
+                      type="monotone"
+                      dataKey="p99"
+                      stroke="#ef4444"
+                      dot={false}
+                    />
+                  )}
                 </LineChart>
               </ResponsiveContainer>
             </CardContent>
@@ -424,14 +895,27 @@ const History = () => {
             </CardHeader>
             <CardContent className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={throughputData}>
+                <ComposedChart data={throughputData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="time" label="Time (seconds)" />
-                  <YAxis label="req/sec" />
+                  <YAxis yAxisId="rps" label="req/sec" />
+                  {timeline && (
+                    <YAxis yAxisId="vus" orientation="right" label="VUs" />
+                  )}
                   <Tooltip />
                   <Legend />
-                  <Bar dataKey="throughput" fill="#10b981" />
-                </BarChart>
+                  <Bar yAxisId="rps" dataKey="throughput" fill="#10b981" />
+                  {timeline && (
+                    <Line
+                      yAxisId="vus"
+                      type="stepAfter"
+                      dataKey="activeVus"
+                      name="active VUs"
+                      stroke="#6366f1"
+                      dot={false}
+                    />
+                  )}
+                </ComposedChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
@@ -499,6 +983,21 @@ const History = () => {
           </CardContent>
         </Card>
 
+        {/* Per-endpoint Breakdown */}
+        {metrics.endpoint_metrics && metrics.endpoint_metrics.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="w-5 h-5" />
+                Endpoints
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EndpointMetricsTable endpoints={metrics.endpoint_metrics} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Error Details */}
         {metrics.error_details && metrics.error_details.length > 0 && (
           <Card>
@@ -512,7 +1011,14 @@ const History = () => {
               <div className="space-y-3">
                 {metrics.error_details.map((error: any, index: number) => (
                   <div key={index} className="border rounded-lg p-3">
-                    <div className="font-medium">{error.message}</div>
+                    <div className="flex items-center gap-2">
+                      <div className="font-medium">
+                        {error.message || error.type}
+                      </div>
+                      {error.category && (
+                        <Badge variant="outline">{error.category}</Badge>
+                      )}
+                    </div>
                     <div className="text-sm text-gray-600">
                       Count: {error.count}
                     </div>
@@ -700,6 +1206,14 @@ const History = () => {
                             <div className="text-sm text-gray-500">
                               {currentProject?.name || "Unknown Project"}
                             </div>
+                            {run.status === "timed_out" && (
+                              <div
+                                className="text-xs text-orange-600"
+                                title={run.error_message}
+                              >
+                                Timed out
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -750,6 +1264,15 @@ const History = () => {
                               <div className="text-red-600">
                                 {run.failed_tests} failed
                               </div>
+                              {run.gating_status === "passed" &&
+                                run.failed_tests > 0 && (
+                                  <div
+                                    className="text-xs text-gray-500"
+                                    title="Only quarantined flaky tests failed"
+                                  >
+                                    gate passed
+                                  </div>
+                                )}
                             </>
                           )}
                         </div>
@@ -824,6 +1347,28 @@ const History = () => {
                                 </span>
                               </div>
                             </div>
+                            {run.error_message && (
+                              <div
+                                className={`mt-2 flex items-start gap-2 ${
+                                  run.status === "cancelled"
+                                    ? "text-gray-600"
+                                    : "text-red-700"
+                                }`}
+                              >
+                                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <span>
+                                  <span className="font-medium">
+                                    {run.status === "timed_out"
+                                      ? "Timed out"
+                                      : run.status === "cancelled"
+                                      ? "Cancelled"
+                                      : "Failed"}
+                                    :
+                                  </span>{" "}
+                                  {run.error_message}
+                                </span>
+                              </div>
+                            )}
                           </div>
 
                           {/* Load Test Metrics - Updated to pass testRunId */}
@@ -846,6 +1391,9 @@ const History = () => {
                           ) : testResults[run.id] &&
                             testResults[run.id].length > 0 ? (
                             <div className="space-y-2">
+                              {isMatrixRun(testResults[run.id]) && (
+                                <MatrixGrid results={testResults[run.id]} />
+                              )}
                               {testResults[run.id].map((result) => {
                                 const failureDetails =
                                   parseFailureDetails(result);
@@ -880,6 +1428,26 @@ const History = () => {
                                                 result.test_case_id
                                               )}
                                             </span>
+                                            {result.configuration_key &&
+                                              isMatrixRun(
+                                                testResults[run.id]
+                                              ) && (
+                                                <Badge variant="outline">
+                                                  {formatConfiguration(
+                                                    result.configuration_key
+                                                  )}
+                                                </Badge>
+                                              )}
+                                            {result.flaky && (
+                                              <Badge className="bg-orange-100 text-orange-800 hover:bg-orange-100">
+                                                flaky
+                                              </Badge>
+                                            )}
+                                            {result.quarantined && (
+                                              <Badge variant="outline">
+                                                quarantined
+                                              </Badge>
+                                            )}
                                           </div>
                                         </div>
                                         <div className="flex items-center gap-4 text-sm">
@@ -892,6 +1460,12 @@ const History = () => {
                                           >
                                             {result.status}
                                           </Badge>
+                                          {result.attempts &&
+                                            result.attempts > 1 && (
+                                              <span className="text-gray-500">
+                                                {result.attempts} attempts
+                                              </span>
+                                            )}
                                           <span className="text-gray-500">
                                             {formatDuration(
                                               result.duration_seconds
@@ -921,6 +1495,13 @@ const History = () => {
                                             <TabsTrigger value="details">
                                               Details
                                             </TabsTrigger>
+                                            {stepResults[result.id] &&
+                                              stepResults[result.id].length >
+                                                0 && (
+                                                <TabsTrigger value="steps">
+                                                  Step Timeline
+                                                </TabsTrigger>
+                                              )}
                                             <TabsTrigger value="logs">
                                               Logs
                                             </TabsTrigger>
@@ -961,7 +1542,7 @@ const History = () => {
                                                     ].steps.map((step, idx) => (
                                                       <li key={idx}>
                                                         <span className="font-medium">
-                                                          {step.action}
+                                                          {describeStep(step)}
                                                         </span>
                                                         <span className="text-gray-600">
                                                           {" "}
@@ -1017,6 +1598,19 @@ const History = () => {
                                             </div>
                                           </TabsContent>
 
+                                          {stepResults[result.id] &&
+                                            stepResults[result.id].length >
+                                              0 && (
+                                              <TabsContent
+                                                value="steps"
+                                                className="mt-4"
+                                              >
+                                                <StepTimeline
+                                                  steps={stepResults[result.id]}
+                                                />
+                                              </TabsContent>
+                                            )}
+
                                           <TabsContent
                                             value="logs"
                                             className="mt-4"
@@ -1043,19 +1637,17 @@ const History = () => {
                                                         key={idx}
                                                         className="relative group"
                                                       >
-                                                        <img
-                                                          src={screenshot}
+                                                        <ArtifactImage
+                                                          path={screenshot}
                                                           alt={`Screenshot ${
                                                             idx + 1
                                                           }`}
                                                           className="w-full rounded-lg border shadow-sm cursor-pointer"
-                                                          onClick={() =>
-                                                            setFullscreenImage(
-                                                              screenshot
-                                                            )
+                                                          onOpen={
+                                                            setFullscreenImage
                                                           }
                                                         />
-                                                        <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-opacity rounded-lg flex items-center justify-center">
+                                                        <div className="pointer-events-none absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-opacity rounded-lg flex items-center justify-center">
                                                           <Maximize2 className="w-8 h-8 text-white opacity-0 group-hover:opacity-100 transition-opacity" />
                                                         </div>
                                                         <p className="text-xs text-gray-500 mt-1">
@@ -1243,7 +1835,33 @@ const History = () => {
                                                 metrics={
                                                   result.load_test_metrics
                                                 }
+                                                thresholds={
+                                                  result.threshold_results
+                                                }
                                               />
+                                              {result.artifacts &&
+                                                result.artifacts.length >
+                                                  0 && (
+                                                  <div className="mt-4 flex flex-wrap gap-2">
+                                                    {result.artifacts.map(
+                                                      (artifact) => (
+                                                        <Button
+                                                          key={artifact.path}
+                                                          variant="outline"
+                                                          size="sm"
+                                                          onClick={() =>
+                                                            openArtifact(
+                                                              artifact.path
+                                                            )
+                                                          }
+                                                        >
+                                                          <ExternalLink className="w-4 h-4 mr-1" />
+                                                          {artifact.name}
+                                                        </Button>
+                                                      )
+                                                    )}
+                                                  </div>
+                                                )}
                                             </TabsContent>
                                           )}
                                         </Tabs>
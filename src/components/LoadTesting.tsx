@@ -9,6 +9,7 @@ import {
   Play,
   Zap,
   FileUp,
+  Square,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -30,10 +31,34 @@ import {
   api,
   supabase,
   subscriptions,
+  type LoadProfile,
+  type LoadProfileType,
+  type AuthProfile,
+  type Dataset,
   type TestCase,
   type TestRun,
 } from "@/lib/supabase";
+import { parseJmxPlan } from "@/lib/jmx";
 import { Badge } from "./ui/badge";
+import DatasetBinding from "@/components/DatasetBinding";
+import EndpointExtractors from "@/components/EndpointExtractors";
+import AuthProfileBinding from "@/components/AuthProfileBinding";
+
+// "builtin" runs in execute-load-tests; the JMeter runners go through execute-tests
+const LOAD_RUNNERS = [
+  { value: "builtin", label: "Built-in HTTP runner" },
+  { value: "jmeter", label: "Local JMeter (JMETER_PATH)" },
+  { value: "blazemeter", label: "BlazeMeter" },
+];
+
+const LOAD_PROFILES: { value: LoadProfileType; label: string }[] = [
+  { value: "closed", label: "Fixed virtual users" },
+  { value: "constant_arrival_rate", label: "Constant arrival rate" },
+  { value: "stages", label: "Ramping stages" },
+  { value: "spike", label: "Spike" },
+  { value: "soak", label: "Soak" },
+  { value: "step", label: "Step load" },
+];
 
 const LoadTesting = () => {
   const { currentProject } = useApp();
@@ -41,7 +66,10 @@ const LoadTesting = () => {
   const [environment, setEnvironment] = useState("staging");
   const [isGenerating, setIsGenerating] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
   const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [datasets, setDatasets] = useState<Omit<Dataset, "rows">[]>([]);
+  const [authProfiles, setAuthProfiles] = useState<AuthProfile[]>([]);
   const [selectedTestCases, setSelectedTestCases] = useState<Set<string>>(
     new Set()
   );
@@ -59,6 +87,8 @@ const LoadTesting = () => {
     rampUp: 30,
     duration: 300, // 5 minutes
     targetTps: 100,
+    // 0 runs in the edge function; more splits each test across load agents
+    agents: 0,
     endpoints: [
       {
         url: "",
@@ -68,7 +98,21 @@ const LoadTesting = () => {
       },
     ],
   });
+  const [loadProfile, setLoadProfile] = useState({
+    type: "closed" as LoadProfileType,
+    peakTps: 500,
+    steps: 5,
+    // "duration:target" pairs, e.g. "60:10, 120:50, 60:0"
+    stages: "60:10, 120:50, 60:0",
+  });
   const [jmxFile, setJmxFile] = useState<File | null>(null);
+  const [loadRunner, setLoadRunner] = useState("builtin");
+  // Uploaded plans keep their thread groups unless the settings above should replace them
+  const [overridePlan, setOverridePlan] = useState(false);
+  const [substituteHost, setSubstituteHost] = useState(true);
+  const [specFile, setSpecFile] = useState<File | null>(null);
+  const [specPath, setSpecPath] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
 
   // Load test cases when project changes
   useEffect(() => {
@@ -166,6 +210,61 @@ const LoadTesting = () => {
         variant: "destructive",
       });
     }
+
+    try {
+      setDatasets(await api.getDatasets(currentProject.id));
+    } catch (error) {
+      console.error("Failed to load datasets:", error);
+    }
+
+    try {
+      setAuthProfiles(await api.getAuthProfiles(currentProject.id));
+    } catch (error) {
+      console.error("Failed to load auth profiles:", error);
+    }
+  };
+
+  // Rates come from the target TPS; durations from the duration setting
+  const buildLoadProfile = (): LoadProfile | undefined => {
+    const { targetTps, duration } = loadTestConfig;
+
+    switch (loadProfile.type) {
+      case "constant_arrival_rate":
+      case "soak":
+        return { type: loadProfile.type, rate: targetTps, duration };
+      case "spike":
+        return {
+          type: "spike",
+          baseline_rate: targetTps,
+          spike_rate: loadProfile.peakTps,
+          duration,
+        };
+      case "step":
+        return {
+          type: "step",
+          start_rate: targetTps,
+          step_rate: targetTps,
+          step_duration: Math.max(Math.round(duration / loadProfile.steps), 1),
+          steps: loadProfile.steps,
+        };
+      case "stages":
+        return {
+          type: "stages",
+          stages: loadProfile.stages
+            .split(",")
+            .map((stage) => stage.trim().split(":").map(Number))
+            .filter(
+              ([stageDuration, target]) =>
+                stageDuration >= 0 && target >= 0
+            )
+            .map(([stageDuration, target]) => ({
+              duration: stageDuration,
+              target,
+            })),
+        };
+      default:
+        return undefined;
+    }
   };
 
   const handleGenerateTests = async () => {
@@ -190,6 +289,7 @@ const LoadTesting = () => {
           ramp_up: loadTestConfig.rampUp,
           duration: loadTestConfig.duration,
           target_tps: loadTestConfig.targetTps,
+          profile: buildLoadProfile(),
         },
       };
 
@@ -266,6 +366,72 @@ const LoadTesting = () => {
     reader.readAsText(file);
   };
 
+  // Builds a load test and functional API checks from an API spec, HAR recording or Postman collection
+  const importSource = async (
+    sourceType: "openapi" | "har" | "postman",
+    source: { spec?: string; specPath?: string; recording?: string }
+  ) => {
+    if (!currentProject) return;
+
+    setIsImporting(true);
+    try {
+      const result = await api.generateLoadTests(currentProject.id, sourceType, {
+        ...source,
+        baseUrl: loadTestConfig.endpoints[0]?.url || undefined,
+        config: {
+          threads: loadTestConfig.threads,
+          ramp_up: loadTestConfig.rampUp,
+          duration: loadTestConfig.duration,
+          target_tps: loadTestConfig.targetTps,
+          profile: buildLoadProfile(),
+        },
+      });
+
+      await loadTestCases();
+      toast({
+        title: sourceType === "openapi" ? "API spec imported" : "Recording imported",
+        description: `Load test with ${
+          result.loadTestConfig.jmeter_config.endpoints.length
+        } endpoints created${
+          result.apiTestCase ? ", plus functional API checks" : ""
+        }`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error.message || "Failed to import file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSpecUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !/\.(json|ya?ml|har)$/i.test(file.name)) {
+      toast({
+        title: "Invalid file",
+        description:
+          "Please upload an OpenAPI / Swagger document, a HAR file or a Postman collection",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSpecFile(file);
+    const content = await file.text();
+    e.target.value = "";
+
+    if (/\.har$/i.test(file.name)) {
+      await importSource("har", { recording: content });
+    } else if (/schema\.getpostman\.com/.test(content.slice(0, 2000))) {
+      await importSource("postman", { recording: content });
+    } else {
+      await importSource("openapi", { spec: content });
+    }
+  };
+
   const handleRunTests = async () => {
     if (!currentProject) {
       toast({
@@ -286,6 +452,7 @@ const LoadTesting = () => {
     }
 
     setIsRunning(true);
+    setIsCancelling(false);
     setTestProgress({
       current: 0,
       total: selectedTestCases.size,
@@ -304,25 +471,46 @@ const LoadTesting = () => {
         throw new Error("No active session");
       }
 
-      // Call the execute load tests API with SSE support
+      // Call the execute load tests API with SSE support; JMeter plans run through execute-tests
       const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/execute-load-tests`,
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${
+          loadRunner === "builtin" ? "execute-load-tests" : "execute-tests"
+        }`,
         {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({
-            projectId: currentProject.id,
-            testCaseIds: Array.from(selectedTestCases),
-            environment: environment,
-            loadTestConfig: {
-              threads: loadTestConfig.threads,
-              rampUp: loadTestConfig.rampUp,
-              duration: loadTestConfig.duration,
-            },
-          }),
+          body: JSON.stringify(
+            loadRunner === "builtin"
+              ? {
+                  projectId: currentProject.id,
+                  testCaseIds: Array.from(selectedTestCases),
+                  environment: environment,
+                  loadTestConfig: {
+                    threads: loadTestConfig.threads,
+                    rampUp: loadTestConfig.rampUp,
+                    duration: loadTestConfig.duration,
+                    agents: loadTestConfig.agents,
+                  },
+                }
+              : {
+                  projectId: currentProject.id,
+                  testCaseIds: Array.from(selectedTestCases),
+                  environment: environment,
+                  testType: "load",
+                  loadRunner,
+                  substituteHost,
+                  ...(overridePlan && {
+                    jmxOverrides: {
+                      threads: loadTestConfig.threads,
+                      rampUp: loadTestConfig.rampUp,
+                      duration: loadTestConfig.duration,
+                    },
+                  }),
+                }
+          ),
         }
       );
 
@@ -377,6 +565,15 @@ const LoadTesting = () => {
                 }));
               }
 
+              // The runner could not sustain the profile's arrival rate
+              if (data.type === "load_test_warning") {
+                toast({
+                  title: "Load generator saturated",
+                  description: data.message,
+                  variant: "destructive",
+                });
+              }
+
               // Handle load test metrics
               if (data.type === "load_test_update" && data.metrics) {
                 toast({
@@ -399,13 +596,22 @@ const LoadTesting = () => {
               // Handle summary
               if (data.type === "load_test_summary") {
                 setIsRunning(false);
+                setIsCancelling(false);
                 setCurrentTestRun(null);
 
-                toast({
-                  title: "Load Test Complete",
-                  description: `Completed with ${data.passedTests} passed and ${data.failedTests} failed`,
-                  variant: data.failedTests > 0 ? "destructive" : "default",
-                });
+                toast(
+                  data.cancelled
+                    ? {
+                        title: "Load Test Cancelled",
+                        description: `${data.passedTests} passed and ${data.failedTests} failed before cancelling`,
+                      }
+                    : {
+                        title: "Load Test Complete",
+                        description: `Completed with ${data.passedTests} passed and ${data.failedTests} failed`,
+                        variant:
+                          data.failedTests > 0 ? "destructive" : "default",
+                      }
+                );
 
                 // Reload test cases to refresh any data
                 setTimeout(() => {
@@ -440,6 +646,22 @@ const LoadTesting = () => {
     }
   };
 
+  // Plans uploaded before their samplers were extracted are parsed on the fly
+  const replaceTestCase = (updated: TestCase) =>
+    setTestCases((prev) =>
+      prev.map((t) => (t.id === updated.id ? updated : t))
+    );
+
+  const testEndpoints = (test: TestCase) => {
+    if (test.jmeter_config?.endpoints) return test.jmeter_config.endpoints;
+    if (!test.jmeter_config?.test_plan) return [];
+    try {
+      return parseJmxPlan(test.jmeter_config.test_plan).endpoints;
+    } catch {
+      return [];
+    }
+  };
+
   const addEndpoint = () => {
     setLoadTestConfig((prev) => ({
       ...prev,
@@ -470,6 +692,26 @@ const LoadTesting = () => {
     }));
   };
 
+  const handleCancelRun = async () => {
+    if (!currentTestRun) return;
+
+    setIsCancelling(true);
+    try {
+      await api.cancelTestRun(currentTestRun.id);
+      toast({
+        title: "Cancelling load test",
+        description: "Virtual users stop after their current request",
+      });
+    } catch (error: any) {
+      setIsCancelling(false);
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel test run",
+        variant: "destructive",
+      });
+    }
+  };
+
   const toggleTestExpansion = (testId: string) => {
     const newExpanded = new Set(expandedTests);
     if (newExpanded.has(testId)) {
@@ -617,6 +859,56 @@ const LoadTesting = () => {
             )}
           </div>
 
+          {/* API Spec / Recording Import Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">
+                Import OpenAPI, HAR or Postman
+              </h3>
+              <Label htmlFor="spec-upload" className="cursor-pointer">
+                <div className="flex items-center gap-2 px-4 py-2 border rounded-md hover:bg-gray-50">
+                  <FileUp className="w-4 h-4" />
+                  {isImporting ? "Importing..." : "Upload file"}
+                </div>
+                <Input
+                  id="spec-upload"
+                  type="file"
+                  accept=".json,.yaml,.yml,.har"
+                  className="hidden"
+                  disabled={isImporting}
+                  onChange={handleSpecUpload}
+                />
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Or a spec path in the project repository, e.g. docs/openapi.yaml"
+                value={specPath}
+                onChange={(e) => setSpecPath(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                disabled={!specPath.trim() || isImporting}
+                onClick={() => importSource("openapi", { specPath: specPath.trim() })}
+              >
+                Import
+              </Button>
+            </div>
+            {specFile && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Upload className="w-4 h-4" />
+                {specFile.name}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Creates a load test and a functional test of API checks. Specs
+              give one request per operation; HAR recordings and Postman
+              collections replay their requests in order, passing tokens and
+              IDs from earlier responses to later requests. The first endpoint
+              URL below, if set, replaces the server the file points at.
+            </p>
+          </div>
+
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
               <span className="w-full border-t" />
@@ -730,6 +1022,184 @@ const LoadTesting = () => {
               </div>
             </div>
 
+            {/* Runner */}
+            <div className="space-y-2">
+              <Label>Runner</Label>
+              <Select value={loadRunner} onValueChange={setLoadRunner}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOAD_RUNNERS.map((runner) => (
+                    <SelectItem key={runner.value} value={runner.value}>
+                      {runner.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {loadRunner !== "builtin" && (
+                <>
+                  <p className="text-sm text-gray-500">
+                    Runs the test case's JMeter plan (uploaded .jmx or
+                    generated) and keeps the HTML dashboard with the results.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="override-plan"
+                      checked={overridePlan}
+                      onCheckedChange={(checked) =>
+                        setOverridePlan(checked === true)
+                      }
+                    />
+                    <Label htmlFor="override-plan" className="font-normal">
+                      Override the plan's threads, ramp-up and duration with
+                      the settings above
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="substitute-host"
+                      checked={substituteHost}
+                      onCheckedChange={(checked) =>
+                        setSubstituteHost(checked === true)
+                      }
+                    />
+                    <Label htmlFor="substitute-host" className="font-normal">
+                      Point uploaded plans at the {environment} URL
+                    </Label>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Load Agents */}
+            <div className="space-y-2">
+              <Label>Load Agents</Label>
+              <Input
+                type="number"
+                min={0}
+                disabled={loadRunner !== "builtin"}
+                value={loadTestConfig.agents}
+                onChange={(e) =>
+                  setLoadTestConfig((prev) => ({
+                    ...prev,
+                    agents: Math.max(0, parseInt(e.target.value) || 0),
+                  }))
+                }
+                className="w-32"
+              />
+              <p className="text-sm text-gray-500">
+                0 runs the test in the cloud function. Otherwise threads and
+                target rate are split across that many online agents (see
+                Settings).
+              </p>
+            </div>
+
+            {/* Load Profile */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Load Profile</Label>
+                <Select
+                  value={loadProfile.type}
+                  onValueChange={(value) =>
+                    setLoadProfile((prev) => ({
+                      ...prev,
+                      type: value as LoadProfileType,
+                    }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOAD_PROFILES.map((profile) => (
+                      <SelectItem key={profile.value} value={profile.value}>
+                        {profile.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {loadProfile.type !== "closed" &&
+                loadProfile.type !== "stages" && (
+                  <div className="space-y-2">
+                    <Label>
+                      {loadProfile.type === "spike"
+                        ? "Baseline rate (req/s)"
+                        : loadProfile.type === "step"
+                        ? "Rate per step (req/s)"
+                        : "Target rate (req/s)"}
+                    </Label>
+                    <Input
+                      type="number"
+                      value={loadTestConfig.targetTps}
+                      onChange={(e) =>
+                        setLoadTestConfig((prev) => ({
+                          ...prev,
+                          targetTps: parseFloat(e.target.value) || 1,
+                        }))
+                      }
+                    />
+                  </div>
+                )}
+
+              {loadProfile.type === "spike" && (
+                <div className="space-y-2">
+                  <Label>Spike rate (req/s)</Label>
+                  <Input
+                    type="number"
+                    value={loadProfile.peakTps}
+                    onChange={(e) =>
+                      setLoadProfile((prev) => ({
+                        ...prev,
+                        peakTps: parseFloat(e.target.value) || 1,
+                      }))
+                    }
+                  />
+                </div>
+              )}
+
+              {loadProfile.type === "step" && (
+                <div className="space-y-2">
+                  <Label>Steps</Label>
+                  <Input
+                    type="number"
+                    value={loadProfile.steps}
+                    onChange={(e) =>
+                      setLoadProfile((prev) => ({
+                        ...prev,
+                        steps: parseInt(e.target.value) || 1,
+                      }))
+                    }
+                  />
+                </div>
+              )}
+
+              {loadProfile.type === "stages" && (
+                <div className="space-y-2 col-span-2">
+                  <Label>Stages (seconds:req/s)</Label>
+                  <Input
+                    value={loadProfile.stages}
+                    onChange={(e) =>
+                      setLoadProfile((prev) => ({
+                        ...prev,
+                        stages: e.target.value,
+                      }))
+                    }
+                    placeholder="60:10, 120:50, 60:0"
+                  />
+                </div>
+              )}
+            </div>
+            {loadProfile.type !== "closed" && (
+              <p className="text-xs text-gray-500">
+                Requests are scheduled at the target rate with up to{" "}
+                {loadTestConfig.threads} in flight; arrivals beyond that are
+                dropped and reported.
+              </p>
+            )}
+
             {/* API Endpoints */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -843,6 +1313,16 @@ const LoadTesting = () => {
                   </>
                 )}
               </Button>
+              {isRunning && currentTestRun && (
+                <Button
+                  onClick={handleCancelRun}
+                  disabled={isCancelling}
+                  variant="destructive"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  {isCancelling ? "Cancelling..." : "Cancel"}
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
@@ -953,20 +1433,82 @@ const LoadTesting = () => {
                               <div>
                                 <span className="text-gray-600">Duration:</span>{" "}
                                 <span className="font-medium">
-                                  {test.jmeter_config.duration}s
+                                  {test.jmeter_config.duration
+                                    ? `${test.jmeter_config.duration}s`
+                                    : "Loop count"}
                                 </span>
                               </div>
                             </div>
-                            {test.jmeter_config.endpoints && (
-                              <div className="mt-2">
-                                <span className="text-sm text-gray-600">
-                                  Endpoints:{" "}
-                                  {test.jmeter_config.endpoints.length}
+                            {test.jmeter_config.profile && (
+                              <div className="mt-2 text-sm">
+                                <span className="text-gray-600">
+                                  Profile:
+                                </span>{" "}
+                                <span className="font-medium">
+                                  {LOAD_PROFILES.find(
+                                    (profile) =>
+                                      profile.value ===
+                                      test.jmeter_config?.profile?.type
+                                  )?.label || test.jmeter_config.profile.type}
                                 </span>
                               </div>
                             )}
+                            {test.jmeter_config.test_plan && (
+                              <Badge variant="outline" className="mt-2">
+                                Uploaded JMeter plan
+                              </Badge>
+                            )}
+                            {(() => {
+                              const endpoints = testEndpoints(test);
+                              return (
+                                endpoints.length > 0 && (
+                                  <div className="mt-2 space-y-1">
+                                    <span className="text-sm text-gray-600">
+                                      Endpoints: {endpoints.length}
+                                    </span>
+                                    {endpoints.map((endpoint, index) => (
+                                      <div
+                                        key={index}
+                                        className="flex items-center gap-2 text-xs"
+                                      >
+                                        <span className="font-mono bg-gray-200 px-1 rounded">
+                                          {endpoint.method}
+                                        </span>
+                                        <span className="font-mono truncate">
+                                          {endpoint.url}
+                                        </span>
+                                        {endpoint.name && (
+                                          <span className="text-gray-500 truncate">
+                                            {endpoint.name}
+                                          </span>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )
+                              );
+                            })()}
                           </div>
                         )}
+                        {!test.jmeter_config?.test_plan && (
+                          <>
+                            <EndpointExtractors
+                              testCase={test}
+                              onChange={replaceTestCase}
+                            />
+                            <DatasetBinding
+                              testCase={test}
+                              datasets={datasets}
+                              showSelection
+                              onChange={replaceTestCase}
+                            />
+                            <AuthProfileBinding
+                              testCase={test}
+                              profiles={authProfiles}
+                              onChange={replaceTestCase}
+                            />
+                          </>
+                        )}
                         {Object.keys(test.test_data).length > 0 && (
                           <div>
                             <h4 className="font-medium text-sm mb-2">
@@ -0,0 +1,69 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { type SecretStatus } from "@/lib/supabase";
+
+interface SecretInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  // Set when a value is already saved in the secrets vault
+  status?: SecretStatus;
+  placeholder?: string;
+  disabled?: boolean;
+  onTest?: () => void;
+  onRemove?: () => void;
+}
+
+// "•••• abcd", or dots alone when the secret is too short to show any of it
+const maskSecret = (status: SecretStatus) =>
+  status.hint ? `•••• ${status.hint}` : "••••••••";
+
+// Write-only input for a vault secret: the saved value is never loaded, only its masked hint
+const SecretInput = ({
+  id,
+  value,
+  onChange,
+  status,
+  placeholder,
+  disabled,
+  onTest,
+  onRemove,
+}: SecretInputProps) => (
+  <div className="space-y-1">
+    <div className="flex gap-2">
+      <Input
+        id={id}
+        name={id}
+        type="password"
+        autoComplete="new-password"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={status ? maskSecret(status) : placeholder}
+        className="flex-1"
+      />
+      {onTest && (
+        <Button
+          variant="outline"
+          onClick={onTest}
+          disabled={disabled || (!value.trim() && !status)}
+        >
+          Test
+        </Button>
+      )}
+      {status && onRemove && (
+        <Button variant="outline" onClick={onRemove} disabled={disabled}>
+          Remove
+        </Button>
+      )}
+    </div>
+    {status && (
+      <p className="text-xs text-gray-500">
+        Saved {new Date(status.updated_at).toLocaleDateString()}. Enter a new
+        value to replace it.
+      </p>
+    )}
+  </div>
+);
+
+export default SecretInput;
@@ -7,17 +7,32 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
 import { useApp } from "@/App";
-import { api } from "@/lib/supabase";
+import {
+  api,
+  Dataset,
+  LoadAgent,
+  SecretName,
+  SecretStatus,
+} from "@/lib/supabase";
 import GitHubIntegration from "@/components/GitHubIntegration";
+import AuthProfiles from "@/components/AuthProfiles";
+import SecretInput from "@/components/SecretInput";
 
 const Settings = () => {
   const { profile, currentProject, refreshProjects } = useApp();
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
-  // Profile settings
+  // Profile settings; the token and webhook URL are write-only and blank keeps the saved value
   const [profileForm, setProfileForm] = useState({
     full_name: "",
     github_token: "",
@@ -33,15 +48,38 @@ const Settings = () => {
     auto_run_on_pr: false,
     slack_notifications: true,
     email_notifications: false,
+    grid_provider: "lambdatest",
+    grid_hub_url: "",
+    grid_username: "",
+    grid_access_key: "",
+    screenshot_every_step: false,
+    artifact_retention_days: "30",
+    functional_concurrency: "1",
+    retry_max_attempts: "1",
+    retry_on_assertions: false,
+    quarantine_flaky: false,
   });
 
+  // Load agents for distributed load tests
+  const [loadAgents, setLoadAgents] = useState<LoadAgent[]>([]);
+  const [newAgentName, setNewAgentName] = useState("");
+  // Token of the agent just created; it cannot be shown again
+  const [newAgentToken, setNewAgentToken] = useState<string | null>(null);
+
+  // Which vault secrets are saved, with their masked hints
+  const [secrets, setSecrets] = useState<SecretStatus[]>([]);
+
+  // Test data for ${column} variables in test cases
+  const [datasets, setDatasets] = useState<Omit<Dataset, "rows">[]>([]);
+  const [newDatasetName, setNewDatasetName] = useState("");
+
   // Load initial data
   useEffect(() => {
     if (profile) {
       setProfileForm({
         full_name: profile.full_name || "",
-        github_token: profile.github_token || "",
-        slack_webhook_url: profile.slack_webhook_url || "",
+        github_token: "",
+        slack_webhook_url: "",
       });
     }
   }, [profile]);
@@ -58,10 +96,62 @@ const Settings = () => {
           currentProject.settings?.slack_notifications || true,
         email_notifications:
           currentProject.settings?.email_notifications || false,
+        grid_provider:
+          currentProject.settings?.browser_grid?.provider || "lambdatest",
+        grid_hub_url: currentProject.settings?.browser_grid?.hub_url || "",
+        grid_username: currentProject.settings?.browser_grid?.username || "",
+        grid_access_key: "",
+        screenshot_every_step:
+          currentProject.settings?.step_screenshots === "all",
+        artifact_retention_days: String(
+          currentProject.settings?.artifact_retention_days || 30
+        ),
+        functional_concurrency: String(
+          currentProject.settings?.functional_concurrency || 1
+        ),
+        retry_max_attempts: String(
+          currentProject.settings?.retry_policy?.max_attempts || 1
+        ),
+        retry_on_assertions:
+          currentProject.settings?.retry_policy?.retry_on?.includes(
+            "assertion"
+          ) || false,
+        quarantine_flaky: currentProject.settings?.quarantine_flaky || false,
       });
     }
   }, [currentProject]);
 
+  useEffect(() => {
+    setNewAgentToken(null);
+    if (!currentProject) {
+      setLoadAgents([]);
+      return;
+    }
+    api
+      .getLoadAgents(currentProject.id)
+      .then(setLoadAgents)
+      .catch((error) => console.error("Error loading load agents:", error));
+  }, [currentProject]);
+
+  useEffect(() => {
+    if (!profile) return;
+    api
+      .getSecrets(currentProject?.id)
+      .then(setSecrets)
+      .catch((error) => console.error("Error loading secrets:", error));
+  }, [profile, currentProject]);
+
+  useEffect(() => {
+    if (!currentProject) {
+      setDatasets([]);
+      return;
+    }
+    api
+      .getDatasets(currentProject.id)
+      .then(setDatasets)
+      .catch((error) => console.error("Error loading datasets:", error));
+  }, [currentProject]);
+
   const handleProfileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setProfileForm((prev) => ({
       ...prev,
@@ -83,15 +173,54 @@ const Settings = () => {
     }));
   };
 
+  const secretStatus = (name: SecretName) =>
+    secrets.find((secret) => secret.name === name);
+
+  // Saves a vault secret when a new value was entered
+  const saveSecret = async (
+    name: SecretName,
+    value: string,
+    projectId?: string
+  ) => {
+    if (!value.trim()) return;
+    const saved = await api.setSecret(name, value.trim(), projectId);
+    setSecrets((current) => [
+      ...current.filter((secret) => secret.name !== name),
+      saved,
+    ]);
+  };
+
+  const handleRemoveSecret = async (name: SecretName) => {
+    try {
+      await api.deleteSecret(name, currentProject?.id);
+      setSecrets((current) => current.filter((secret) => secret.name !== name));
+      toast({
+        title: "Secret removed",
+        description: "The saved value has been deleted.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove secret.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveProfile = async () => {
     setIsSaving(true);
 
     try {
       await api.updateProfile({
         full_name: profileForm.full_name.trim() || undefined,
-        github_token: profileForm.github_token.trim() || undefined,
-        slack_webhook_url: profileForm.slack_webhook_url.trim() || undefined,
       });
+      await saveSecret("github_token", profileForm.github_token);
+      await saveSecret("slack_webhook_url", profileForm.slack_webhook_url);
+      setProfileForm((prev) => ({
+        ...prev,
+        github_token: "",
+        slack_webhook_url: "",
+      }));
 
       toast({
         title: "Profile Updated",
@@ -128,8 +257,37 @@ const Settings = () => {
         auto_run_on_pr: projectForm.auto_run_on_pr,
         slack_notifications: projectForm.slack_notifications,
         email_notifications: projectForm.email_notifications,
+        step_screenshots: projectForm.screenshot_every_step
+          ? "all"
+          : "failures",
+        artifact_retention_days:
+          parseInt(projectForm.artifact_retention_days) || 30,
+        functional_concurrency:
+          parseInt(projectForm.functional_concurrency) || 1,
+        retry_policy: {
+          max_attempts: parseInt(projectForm.retry_max_attempts) || 1,
+          retry_on: projectForm.retry_on_assertions
+            ? ["infra", "timeout", "assertion"]
+            : ["infra", "timeout"],
+        },
+        quarantine_flaky: projectForm.quarantine_flaky,
+        browser_grid: {
+          ...currentProject.settings?.browser_grid,
+          provider: projectForm.grid_provider,
+          hub_url: projectForm.grid_hub_url.trim() || undefined,
+          username: projectForm.grid_username.trim() || undefined,
+          // Kept in the secrets vault instead
+          access_key: undefined,
+        },
       };
 
+      await saveSecret(
+        "grid_access_key",
+        projectForm.grid_access_key,
+        currentProject.id
+      );
+      setProjectForm((prev) => ({ ...prev, grid_access_key: "" }));
+
       await api.updateProject(currentProject.id, {
         name: projectForm.name.trim(),
         description: projectForm.description.trim() || undefined,
@@ -153,57 +311,36 @@ const Settings = () => {
     }
   };
 
-  const handleTestSlack = async () => {
-    if (!profileForm.slack_webhook_url.trim()) {
-      toast({
-        title: "No Slack webhook URL",
-        description: "Please enter a Slack webhook URL first.",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  // Tests the value typed in, or the saved one, from the edge function
+  const handleTestSecret = async (
+    name: "github_token" | "slack_webhook_url",
+    service: string
+  ) => {
     setIsLoading(true);
     toast({
-      title: "Testing Slack Integration",
-      description: "Sending test message...",
+      title: `Testing ${service} Integration`,
+      description:
+        name === "github_token"
+          ? "Validating GitHub token..."
+          : "Sending test message...",
     });
 
     try {
-      const response = await fetch(profileForm.slack_webhook_url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: "🧪 QA Autopilot Test Message",
-          attachments: [
-            {
-              color: "good",
-              fields: [
-                {
-                  title: "Status",
-                  value: "Slack integration is working correctly!",
-                  short: false,
-                },
-              ],
-            },
-          ],
-        }),
-      });
-
-      if (response.ok) {
-        toast({
-          title: "Slack Test Successful",
-          description: "Test message sent successfully!",
-        });
-      } else {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const result = await api.testSecret(
+        name,
+        profileForm[name].trim() || undefined
+      );
+      if (!result.valid) {
+        throw new Error(result.message);
       }
+      toast({
+        title: `${service} Test Successful`,
+        description: result.message,
+      });
     } catch (error: any) {
       toast({
-        title: "Slack Test Failed",
-        description: error.message || "Failed to send test message.",
+        title: `${service} Test Failed`,
+        description: error.message || `Failed to test ${service} integration.`,
         variant: "destructive",
       });
     } finally {
@@ -211,50 +348,94 @@ const Settings = () => {
     }
   };
 
-  const handleTestGitHub = async () => {
-    if (!profileForm.github_token.trim()) {
+  const handleCreateLoadAgent = async () => {
+    if (!currentProject || !newAgentName.trim()) return;
+
+    try {
+      const { agent, token } = await api.createLoadAgent(
+        currentProject.id,
+        newAgentName.trim()
+      );
+      setLoadAgents((agents) => [...agents, agent]);
+      setNewAgentToken(token);
+      setNewAgentName("");
+      toast({
+        title: "Load agent created",
+        description: "Copy its token now; it will not be shown again.",
+      });
+    } catch (error: any) {
       toast({
-        title: "No GitHub token",
-        description: "Please enter a GitHub token first.",
+        title: "Error",
+        description: error.message || "Failed to create load agent.",
         variant: "destructive",
       });
-      return;
     }
+  };
 
-    setIsLoading(true);
-    toast({
-      title: "Testing GitHub Integration",
-      description: "Validating GitHub token...",
-    });
+  const handleDeleteLoadAgent = async (agent: LoadAgent) => {
+    try {
+      await api.deleteLoadAgent(agent.id);
+      setLoadAgents((agents) => agents.filter((a) => a.id !== agent.id));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete load agent.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDatasetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!currentProject || !file) return;
+
+    const format = /\.json$/i.test(file.name) ? "json" : "csv";
+    const name = newDatasetName.trim() || file.name.replace(/\.(csv|json)$/i, "");
 
     try {
-      const response = await fetch("https://api.github.com/user", {
-        headers: {
-          Authorization: `token ${profileForm.github_token}`,
-          Accept: "application/vnd.github.v3+json",
-        },
+      const dataset = await api.createDataset(
+        currentProject.id,
+        name,
+        await file.text(),
+        format
+      );
+      setDatasets((current) =>
+        [...current, dataset].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setNewDatasetName("");
+      toast({
+        title: "Dataset uploaded",
+        description: `${dataset.name}: ${dataset.row_count} rows, columns ${dataset.columns.join(", ")}`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload dataset.",
+        variant: "destructive",
       });
+    }
+  };
 
-      if (response.ok) {
-        const userData = await response.json();
-        toast({
-          title: "GitHub Test Successful",
-          description: `Connected as ${userData.login}`,
-        });
-      } else {
-        throw new Error(`HTTP ${response.status}: Invalid token`);
-      }
+  const handleDeleteDataset = async (dataset: Omit<Dataset, "rows">) => {
+    try {
+      await api.deleteDataset(dataset.id);
+      setDatasets((current) => current.filter((d) => d.id !== dataset.id));
     } catch (error: any) {
       toast({
-        title: "GitHub Test Failed",
-        description: error.message || "Failed to validate GitHub token.",
+        title: "Error",
+        description: error.message || "Failed to delete dataset.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  // Agents that have not reported for a minute are treated as offline
+  const isAgentOnline = (agent: LoadAgent) =>
+    agent.status !== "offline" &&
+    !!agent.last_seen_at &&
+    Date.now() - new Date(agent.last_seen_at).getTime() < 60000;
+
   return (
     <div className="max-w-4xl mx-auto px-6 py-8 space-y-8">
       <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
@@ -282,24 +463,18 @@ const Settings = () => {
             <h3 className="text-lg font-medium">GitHub Integration</h3>
             <div className="space-y-2">
               <Label htmlFor="github_token">GitHub Personal Access Token</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="github_token"
-                  name="github_token"
-                  type="password"
-                  value={profileForm.github_token}
-                  onChange={handleProfileInputChange}
-                  placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
-                  className="flex-1"
-                />
-                <Button
-                  variant="outline"
-                  onClick={handleTestGitHub}
-                  disabled={isLoading || !profileForm.github_token.trim()}
-                >
-                  Test
-                </Button>
-              </div>
+              <SecretInput
+                id="github_token"
+                value={profileForm.github_token}
+                onChange={(value) =>
+                  setProfileForm((prev) => ({ ...prev, github_token: value }))
+                }
+                status={secretStatus("github_token")}
+                placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
+                disabled={isLoading}
+                onTest={() => handleTestSecret("github_token", "GitHub")}
+                onRemove={() => handleRemoveSecret("github_token")}
+              />
               <p className="text-sm text-gray-500">
                 Required permissions: repo, pull_requests.{" "}
                 <a
@@ -320,24 +495,21 @@ const Settings = () => {
             <h3 className="text-lg font-medium">Slack Integration</h3>
             <div className="space-y-2">
               <Label htmlFor="slack_webhook_url">Slack Webhook URL</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="slack_webhook_url"
-                  name="slack_webhook_url"
-                  type="password"
-                  value={profileForm.slack_webhook_url}
-                  onChange={handleProfileInputChange}
-                  placeholder="https://hooks.slack.com/services/..."
-                  className="flex-1"
-                />
-                <Button
-                  variant="outline"
-                  onClick={handleTestSlack}
-                  disabled={isLoading || !profileForm.slack_webhook_url.trim()}
-                >
-                  Test
-                </Button>
-              </div>
+              <SecretInput
+                id="slack_webhook_url"
+                value={profileForm.slack_webhook_url}
+                onChange={(value) =>
+                  setProfileForm((prev) => ({
+                    ...prev,
+                    slack_webhook_url: value,
+                  }))
+                }
+                status={secretStatus("slack_webhook_url")}
+                placeholder="https://hooks.slack.com/services/..."
+                disabled={isLoading}
+                onTest={() => handleTestSecret("slack_webhook_url", "Slack")}
+                onRemove={() => handleRemoveSecret("slack_webhook_url")}
+              />
               <p className="text-sm text-gray-500">
                 Messages will be sent to the configured channel when tests
                 complete.
@@ -358,7 +530,7 @@ const Settings = () => {
       </Card>
 
       {/* GitHub Repository Integration */}
-      <GitHubIntegration />
+      <GitHubIntegration hasGitHubToken={!!secretStatus("github_token")} />
 
       {/* Project Settings */}
       {currentProject && (
@@ -423,6 +595,85 @@ const Settings = () => {
 
             <Separator />
 
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Browser Grid</h3>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="grid_provider">Provider</Label>
+                  <Select
+                    value={projectForm.grid_provider}
+                    onValueChange={(value) =>
+                      setProjectForm((prev) => ({
+                        ...prev,
+                        grid_provider: value,
+                      }))
+                    }
+                  >
+                    <SelectTrigger id="grid_provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lambdatest">LambdaTest</SelectItem>
+                      <SelectItem value="webdriver">
+                        Self-hosted WebDriver
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-500">
+                    {projectForm.grid_provider === "webdriver"
+                      ? "Any W3C WebDriver endpoint, such as a Selenium Grid or a chromedriver/geckodriver container."
+                      : "Uses the server's LambdaTest credentials unless overridden below."}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="grid_hub_url">Hub URL</Label>
+                  <Input
+                    id="grid_hub_url"
+                    name="grid_hub_url"
+                    type="url"
+                    value={projectForm.grid_hub_url}
+                    onChange={handleProjectInputChange}
+                    placeholder={
+                      projectForm.grid_provider === "webdriver"
+                        ? "http://selenium-hub:4444/wd/hub"
+                        : "https://hub.lambdatest.com/wd/hub"
+                    }
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="grid_username">Username (optional)</Label>
+                    <Input
+                      id="grid_username"
+                      name="grid_username"
+                      value={projectForm.grid_username}
+                      onChange={handleProjectInputChange}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="grid_access_key">
+                      Access Key (optional)
+                    </Label>
+                    <SecretInput
+                      id="grid_access_key"
+                      value={projectForm.grid_access_key}
+                      onChange={(value) =>
+                        setProjectForm((prev) => ({
+                          ...prev,
+                          grid_access_key: value,
+                        }))
+                      }
+                      status={secretStatus("grid_access_key")}
+                      disabled={isSaving}
+                      onRemove={() => handleRemoveSecret("grid_access_key")}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <Separator />
+
             <div className="space-y-4">
               <h3 className="text-lg font-medium">Automation Settings</h3>
               <div className="space-y-4">
@@ -473,6 +724,111 @@ const Settings = () => {
                     }
                   />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">Screenshot every step</div>
+                    <div className="text-sm text-gray-500">
+                      Capture a screenshot after each functional test step,
+                      not only the one that failed
+                    </div>
+                  </div>
+                  <Switch
+                    checked={projectForm.screenshot_every_step}
+                    onCheckedChange={(checked) =>
+                      handleProjectSwitchChange(
+                        "screenshot_every_step",
+                        checked
+                      )
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="functional_concurrency">
+                    Parallel browser sessions
+                  </Label>
+                  <Input
+                    id="functional_concurrency"
+                    name="functional_concurrency"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={projectForm.functional_concurrency}
+                    onChange={handleProjectInputChange}
+                  />
+                  <p className="text-sm text-gray-500">
+                    Functional tests run this many grid sessions at once (up to
+                    10). Keep it within your grid plan&apos;s parallel limit.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="retry_max_attempts">Max attempts</Label>
+                  <Input
+                    id="retry_max_attempts"
+                    name="retry_max_attempts"
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={projectForm.retry_max_attempts}
+                    onChange={handleProjectInputChange}
+                  />
+                  <p className="text-sm text-gray-500">
+                    Failed functional tests are retried up to this many attempts
+                    in total when the failure was a grid error or timeout
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">Retry assertion failures</div>
+                    <div className="text-sm text-gray-500">
+                      Also retry tests whose checks failed, not only
+                      infrastructure errors and timeouts
+                    </div>
+                  </div>
+                  <Switch
+                    checked={projectForm.retry_on_assertions}
+                    onCheckedChange={(checked) =>
+                      handleProjectSwitchChange("retry_on_assertions", checked)
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">Quarantine flaky tests</div>
+                    <div className="text-sm text-gray-500">
+                      Flaky tests still run, but their failures do not fail the
+                      run&apos;s gating status
+                    </div>
+                  </div>
+                  <Switch
+                    checked={projectForm.quarantine_flaky}
+                    onCheckedChange={(checked) =>
+                      handleProjectSwitchChange("quarantine_flaky", checked)
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="artifact_retention_days">
+                    Artifact retention (days)
+                  </Label>
+                  <Input
+                    id="artifact_retention_days"
+                    name="artifact_retention_days"
+                    type="number"
+                    min={1}
+                    value={projectForm.artifact_retention_days}
+                    onChange={handleProjectInputChange}
+                  />
+                  <p className="text-sm text-gray-500">
+                    Screenshots and reports older than this are deleted from
+                    storage
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -489,6 +845,156 @@ const Settings = () => {
         </Card>
       )}
 
+      {/* Load Agents */}
+      {currentProject && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Load Agents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-500">
+              Agents run shards of a load test from your own machines so the
+              load is not limited to one edge function.
+            </p>
+
+            {loadAgents.length > 0 ? (
+              <div className="space-y-2">
+                {loadAgents.map((agent) => (
+                  <div
+                    key={agent.id}
+                    className="flex items-center justify-between p-3 border rounded"
+                  >
+                    <div>
+                      <div className="font-medium">{agent.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {agent.last_seen_at
+                          ? `Last seen ${new Date(
+                              agent.last_seen_at
+                            ).toLocaleString()}`
+                          : "Never connected"}
+                        {agent.version && ` • v${agent.version}`}
+                        {` • up to ${agent.max_vus} VUs`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Badge
+                        variant={isAgentOnline(agent) ? "default" : "outline"}
+                      >
+                        {isAgentOnline(agent) ? agent.status : "offline"}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteLoadAgent(agent)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No load agents yet.</p>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Agent name, e.g. eu-west-runner-1"
+                value={newAgentName}
+                onChange={(e) => setNewAgentName(e.target.value)}
+              />
+              <Button
+                onClick={handleCreateLoadAgent}
+                disabled={!newAgentName.trim()}
+              >
+                Add Agent
+              </Button>
+            </div>
+
+            {newAgentToken && (
+              <div className="space-y-2 p-3 bg-gray-50 border rounded">
+                <p className="text-sm font-medium">
+                  Start the agent with this token (shown only once):
+                </p>
+                <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                  {`SUPABASE_URL=${import.meta.env.VITE_SUPABASE_URL} \\
+SUPABASE_ANON_KEY=${import.meta.env.VITE_SUPABASE_ANON_KEY} \\
+LOAD_AGENT_TOKEN=${newAgentToken} \\
+deno run --allow-net --allow-env load-agent/main.ts`}
+                </pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Datasets */}
+      {currentProject && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Datasets</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-500">
+              Upload CSV (with a header row) or JSON (an array of objects) test
+              data and bind it to test cases. Columns are available as{" "}
+              <code>{"${column}"}</code> in steps, URLs, headers and bodies.
+            </p>
+
+            {datasets.length > 0 ? (
+              <div className="space-y-2">
+                {datasets.map((dataset) => (
+                  <div
+                    key={dataset.id}
+                    className="flex items-center justify-between p-3 border rounded"
+                  >
+                    <div>
+                      <div className="font-medium">{dataset.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {dataset.format.toUpperCase()} • {dataset.row_count}{" "}
+                        rows • {dataset.columns.join(", ")}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeleteDataset(dataset)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No datasets yet.</p>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Dataset name (defaults to the file name)"
+                value={newDatasetName}
+                onChange={(e) => setNewDatasetName(e.target.value)}
+              />
+              <Label htmlFor="dataset-upload" className="cursor-pointer">
+                <div className="flex items-center h-10 px-4 border rounded-md whitespace-nowrap hover:bg-gray-50">
+                  Upload CSV / JSON
+                </div>
+                <Input
+                  id="dataset-upload"
+                  type="file"
+                  accept=".csv,.json"
+                  className="hidden"
+                  onChange={handleDatasetUpload}
+                />
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Authentication Profiles */}
+      {currentProject && <AuthProfiles projectId={currentProject.id} />}
+
       {/* System Information */}
       <Card>
         <CardHeader>
@@ -0,0 +1,92 @@
+// Parses uploaded CSV / JSON test data into rows of string values keyed by column
+export interface ParsedDataset {
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+// Rows are stored inline on the dataset, so uploads are capped
+export const MAX_DATASET_ROWS = 10000
+
+export function parseDataset(content: string, format: 'csv' | 'json'): ParsedDataset {
+  const dataset = format === 'csv' ? parseCsv(content) : parseJsonRows(content)
+  if (dataset.rows.length === 0) throw new Error('The file has no data rows')
+  if (dataset.rows.length > MAX_DATASET_ROWS) {
+    throw new Error(`Datasets are limited to ${MAX_DATASET_ROWS} rows; this file has ${dataset.rows.length}`)
+  }
+  return dataset
+}
+
+// First row is the header; quoted fields may contain commas, doubled quotes and line breaks
+function parseCsv(content: string): ParsedDataset {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const [header, ...body] = records.filter((row) => row.some((value) => value.trim() !== ''))
+  if (!header) throw new Error('The CSV file is empty')
+
+  const columns = header.map((name) => name.trim())
+  if (columns.some((name) => !/^[\w.-]+$/.test(name))) {
+    throw new Error('Column names may only contain letters, digits, _, . and -')
+  }
+
+  return {
+    columns,
+    rows: body.map((values) => Object.fromEntries(columns.map((name, index) => [name, values[index] ?? '']))),
+  }
+}
+
+// An array of flat objects; nested values are kept as JSON strings
+function parseJsonRows(content: string): ParsedDataset {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  if (!Array.isArray(data) || data.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+    throw new Error('JSON datasets must be an array of objects')
+  }
+
+  const columns = [...new Set(data.flatMap((row) => Object.keys(row)))]
+  return {
+    columns,
+    rows: data.map((row) => Object.fromEntries(columns.map((name) => {
+      const value = (row as Record<string, unknown>)[name]
+      return [name, value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)]
+    }))),
+  }
+}
@@ -0,0 +1,73 @@
+import type { TestCase } from './supabase'
+
+type LoadEndpoint = NonNullable<NonNullable<TestCase['jmeter_config']>['endpoints']>[number]
+
+// What an uploaded JMeter plan does, read from its thread groups and HTTP samplers
+export interface JmxPlanSummary {
+  threads: number
+  ramp_up: number
+  // Longest scheduled thread group; 0 when the plan is bounded by loop counts instead
+  duration: number
+  endpoints: LoadEndpoint[]
+}
+
+export function parseJmxPlan(content: string): JmxPlanSummary {
+  const document = new DOMParser().parseFromString(content, 'application/xml')
+  if (document.querySelector('parsererror') || !document.querySelector('jmeterTestPlan')) {
+    throw new Error('Not a valid JMeter test plan')
+  }
+
+  const enabled = (element: Element) => element.getAttribute('enabled') !== 'false'
+  const prop = (element: Element, name: string) =>
+    Array.from(element.children).find((child) => child.getAttribute('name') === name)?.textContent?.trim() || ''
+
+  const threadGroups = Array.from(document.querySelectorAll('ThreadGroup')).filter(enabled)
+
+  // HTTP Request Defaults fill in whatever a sampler leaves empty
+  const defaults = Array.from(document.querySelectorAll('ConfigTestElement'))
+    .find((element) => enabled(element) && element.getAttribute('guiclass') === 'HttpDefaultsGui')
+
+  const endpoints = Array.from(document.querySelectorAll('HTTPSamplerProxy'))
+    .filter(enabled)
+    .map((sampler) => {
+      const read = (name: string) => prop(sampler, name) || (defaults ? prop(defaults, name) : '')
+      const domain = read('HTTPSampler.domain')
+      const port = read('HTTPSampler.port')
+      const path = prop(sampler, 'HTTPSampler.path') || '/'
+      const url = domain
+        ? `${read('HTTPSampler.protocol') || 'https'}://${domain}${port ? `:${port}` : ''}${path.startsWith('/') ? path : `/${path}`}`
+        : path
+
+      // Raw bodies are stored as a single unnamed argument
+      const body = prop(sampler, 'HTTPSampler.postBodyRaw') === 'true'
+        ? sampler.querySelector('elementProp[elementType="HTTPArgument"] > stringProp[name="Argument.value"]')?.textContent || ''
+        : ''
+
+      // Header managers sit in the hashTree that follows their sampler
+      const headers: Record<string, string> = {}
+      const tree = sampler.nextElementSibling
+      if (tree?.tagName === 'hashTree') {
+        for (const header of Array.from(tree.querySelectorAll(':scope > HeaderManager elementProp[elementType="Header"]'))) {
+          const name = prop(header, 'Header.name')
+          if (name) headers[name] = prop(header, 'Header.value')
+        }
+      }
+
+      return {
+        name: sampler.getAttribute('testname') || undefined,
+        method: (prop(sampler, 'HTTPSampler.method') || 'GET').toUpperCase(),
+        url,
+        ...(body && { body }),
+        ...(Object.keys(headers).length > 0 && { headers }),
+      }
+    })
+
+  return {
+    threads: threadGroups.reduce((sum, group) => sum + (parseInt(prop(group, 'ThreadGroup.num_threads')) || 0), 0),
+    ramp_up: Math.max(0, ...threadGroups.map((group) => parseInt(prop(group, 'ThreadGroup.ramp_time')) || 0)),
+    duration: Math.max(0, ...threadGroups
+      .filter((group) => prop(group, 'ThreadGroup.scheduler') === 'true')
+      .map((group) => parseInt(prop(group, 'ThreadGroup.duration')) || 0)),
+    endpoints,
+  }
+}
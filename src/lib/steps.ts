@@ -0,0 +1,121 @@
+import type { LegacyTestStep, Locator, TestStep } from './supabase'
+
+export function isLegacyStep(step: TestStep | LegacyTestStep): step is LegacyTestStep {
+  return !('type' in step)
+}
+
+export function describeLocator(locator: Locator) {
+  if (locator.strategy === 'role') {
+    return `${locator.value}${locator.name ? ` "${locator.name}"` : ''}`
+  }
+  return `${locator.strategy}=${locator.value}`
+}
+
+// Human readable one-liner for step lists
+export function describeStep(step: TestStep | LegacyTestStep): string {
+  if (isLegacyStep(step)) return step.action
+  if (step.description) return step.description
+
+  const target = 'locator' in step && step.locator ? describeLocator(step.locator) : ''
+
+  switch (step.type) {
+    case 'navigate': return `Navigate to ${step.url}`
+    case 'click': return `Click ${target}`
+    case 'fill': return `Fill ${target} with "${step.value}"`
+    case 'select': return `Select "${step.option}" in ${target}`
+    case 'hover': return `Hover ${target}`
+    case 'press_key': return `Press ${step.key}${target ? ` on ${target}` : ''}`
+    case 'upload_file': return `Upload ${step.file_path} to ${target}`
+    case 'assert_text': return `Assert ${target} ${step.match === 'equals' ? 'equals' : 'contains'} "${step.text}"`
+    case 'assert_visible': return `Assert ${target} is ${step.visible === false ? 'hidden' : 'visible'}`
+    case 'assert_url': return `Assert URL ${step.match === 'equals' ? 'equals' : 'contains'} ${step.url}`
+    case 'assert_attribute': return `Assert ${target} [${step.attribute}] = "${step.value}"`
+    case 'wait_for': return target ? `Wait for ${target}` : `Wait ${step.timeout_ms ?? 0}ms`
+    case 'http_request': return `${step.method} ${step.url}`
+  }
+}
+
+function pyString(value: string) {
+  return JSON.stringify(value)
+}
+
+// Native element for each role used by the Selenium export's role XPath
+const ROLE_ELEMENTS: Record<string, string> = {
+  link: 'a',
+  textbox: 'input',
+  checkbox: 'input',
+  radio: 'input',
+  combobox: 'select',
+}
+
+function seleniumLocator(locator: Locator) {
+  switch (locator.strategy) {
+    case 'css': return `By.CSS_SELECTOR, ${pyString(locator.value)}`
+    case 'xpath': return `By.XPATH, ${pyString(locator.value)}`
+    case 'test_id': return `By.CSS_SELECTOR, ${pyString(`[data-testid="${locator.value}"]`)}`
+    case 'text': return `By.XPATH, ${pyString(`//*[contains(normalize-space(text()), "${locator.value}")]`)}`
+    case 'role': {
+      const name = locator.name ? `[contains(normalize-space(.), "${locator.name}") or @aria-label="${locator.name}"]` : ''
+      return `By.XPATH, ${pyString(`//*[@role="${locator.value}" or local-name()="${ROLE_ELEMENTS[locator.value] || locator.value}"]${name}`)}`
+    }
+  }
+}
+
+// Selenium names of the special keys the runner supports (step-runner.ts KEY_CODES)
+const SELENIUM_KEYS: Record<string, string> = {
+  Enter: 'ENTER',
+  Tab: 'TAB',
+  Escape: 'ESCAPE',
+  Backspace: 'BACKSPACE',
+  Delete: 'DELETE',
+  Space: 'SPACE',
+  ArrowUp: 'ARROW_UP',
+  ArrowDown: 'ARROW_DOWN',
+  ArrowLeft: 'ARROW_LEFT',
+  ArrowRight: 'ARROW_RIGHT',
+}
+
+// Anything else is sent as the characters themselves, as the runner does
+function seleniumKey(key: string): string {
+  return SELENIUM_KEYS[key] ? `Keys.${SELENIUM_KEYS[key]}` : pyString(key)
+}
+
+// Python statements for the Selenium export. Legacy steps have no typed action to export, so they
+// fail the test rather than letting it pass without them; run the test once to convert them.
+export function toSeleniumCode(step: TestStep | LegacyTestStep): string[] {
+  if (isLegacyStep(step)) return [`raise NotImplementedError(${pyString(`Unconverted step: ${step.action}`)})`]
+
+  const find = (locator: Locator) => `wait.until(EC.presence_of_element_located((${seleniumLocator(locator)})))`
+
+  switch (step.type) {
+    case 'navigate': return [`driver.get(urljoin(self.base_url, ${pyString(step.url)}))`]
+    case 'click': return [`${find(step.locator)}.click()`]
+    case 'fill': return [`el = ${find(step.locator)}`, 'el.clear()', `el.send_keys(${pyString(step.value)})`]
+    case 'select': return [`Select(${find(step.locator)}).select_by_visible_text(${pyString(step.option)})`]
+    case 'hover': return [`ActionChains(driver).move_to_element(${find(step.locator)}).perform()`]
+    case 'press_key': return step.locator
+      ? [`${find(step.locator)}.send_keys(${seleniumKey(step.key)})`]
+      : [`ActionChains(driver).send_keys(${seleniumKey(step.key)}).perform()`]
+    case 'upload_file': return [`${find(step.locator)}.send_keys(${pyString(step.file_path)})`]
+    case 'assert_text': return step.match === 'equals'
+      ? [`self.assertEqual(${find(step.locator)}.text.strip(), ${pyString(step.text)})`]
+      : [`self.assertIn(${pyString(step.text)}, ${find(step.locator)}.text)`]
+    case 'assert_visible': return step.visible === false
+      ? [`wait.until(EC.invisibility_of_element_located((${seleniumLocator(step.locator)})))`]
+      : [`wait.until(EC.visibility_of_element_located((${seleniumLocator(step.locator)})))`]
+    case 'assert_url': return [`self.assertIn(${pyString(step.url)}, driver.current_url)`]
+    case 'assert_attribute': return [`self.assertEqual(${find(step.locator)}.get_attribute(${pyString(step.attribute)}), ${pyString(step.value)})`]
+    case 'wait_for': return step.locator
+      ? [`wait.until(EC.visibility_of_element_located((${seleniumLocator(step.locator)})))`]
+      : [`time.sleep(${(step.timeout_ms ?? 1000) / 1000})`]
+    case 'http_request': {
+      const status = step.checks?.find((check) => check.field === 'response_code')?.pattern
+      return [
+        `resp = requests.request(${pyString(step.method)}, urljoin(self.base_url, ${pyString(step.url)}), headers=${JSON.stringify(step.headers || {})}${step.body ? `, data=${pyString(step.body)}` : ''})`,
+        status && /^\d{3}$/.test(status)
+          ? `self.assertEqual(resp.status_code, ${status})`
+          : 'self.assertLess(resp.status_code, 400)',
+      ]
+    }
+  }
+}
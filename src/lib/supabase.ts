@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { createClient } from '@supabase/supabase-js'
+import { parseJmxPlan } from './jmx'
+import { parseDataset } from './datasets'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -10,14 +12,15 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// Storage bucket for screenshots and reports, see supabase/functions/_shared/artifacts.ts
+export const ARTIFACTS_BUCKET = 'test-artifacts'
+
 // Types for our database
 export interface Profile {
   id: string
   email: string
   full_name?: string
   avatar_url?: string
-  github_token?: string
-  slack_webhook_url?: string
   created_at: string
   updated_at: string
 }
@@ -35,16 +38,73 @@ export interface Project {
   updated_at: string
 }
 
+export interface Locator {
+  strategy: 'css' | 'xpath' | 'role' | 'test_id' | 'text'
+  value: string
+  name?: string
+}
+
+// Stores a value from a response as ${name} for later requests, mirrors supabase/functions/_shared/variables.ts.
+// expression is a JSONPath, a regex (first capture group) or a response header name.
+export type RequestExtractorType = 'json_path' | 'regex' | 'header'
+
+export interface RequestExtractor {
+  name: string
+  type: RequestExtractorType
+  expression: string
+}
+
+// Typed functional test step, mirrors supabase/functions/_shared/steps.ts
+export type StepAssertion =
+  | { kind: 'title'; value: string; match?: 'contains' | 'equals' }
+  | { kind: 'url'; value: string; match?: 'contains' | 'equals' }
+  | { kind: 'text'; value: string; locator?: Locator; match?: 'contains' | 'equals' }
+  | { kind: 'visible'; locator: Locator; visible?: boolean }
+  | { kind: 'count'; locator: Locator; count: number; op?: 'eq' | 'gte' | 'lte' }
+  | { kind: 'toast'; value: string }
+
+export type TestStep = {
+  description?: string
+  expected_result?: string
+  assertions?: StepAssertion[]
+} & (
+  | { type: 'navigate'; url: string }
+  | { type: 'click'; locator: Locator }
+  | { type: 'fill'; locator: Locator; value: string }
+  | { type: 'select'; locator: Locator; option: string }
+  | { type: 'hover'; locator: Locator }
+  | { type: 'press_key'; key: string; locator?: Locator }
+  | { type: 'upload_file'; locator: Locator; file_path: string }
+  | { type: 'assert_text'; locator: Locator; text: string; match?: 'contains' | 'equals' }
+  | { type: 'assert_visible'; locator: Locator; visible?: boolean }
+  | { type: 'assert_url'; url: string; match?: 'contains' | 'equals' }
+  | { type: 'assert_attribute'; locator: Locator; attribute: string; value: string }
+  | { type: 'wait_for'; locator?: Locator; state?: 'present' | 'visible'; timeout_ms?: number }
+  | {
+      type: 'http_request'
+      method: string
+      url: string
+      headers?: Record<string, string>
+      body?: string
+      // Same shape as load test endpoint assertions, e.g. { field: 'response_code', pattern: '201' }
+      checks?: { field: string; pattern?: string; path?: string; name?: string }[]
+      extractors?: RequestExtractor[]
+    }
+)
+
+// Free-text step stored before the typed DSL; converted on first execution
+export interface LegacyTestStep {
+  action: string
+  expected_result: string
+}
+
 export interface TestCase {
   id: string
   project_id: string
   name: string
   description?: string
   test_type?: 'functional' | 'load'
-  steps: Array<{
-    action: string
-    expected_result: string
-  }>
+  steps: Array<TestStep | LegacyTestStep>
   test_data: Record<string, any>
   jmeter_config?: {
     test_plan?: string
@@ -53,12 +113,27 @@ export interface TestCase {
     duration: number
     target_tps?: number
     endpoints?: Array<{
+      // Sampler name for endpoints extracted from an uploaded plan
+      name?: string
       url: string
       method: string
       body?: string
       headers?: Record<string, string>
+      // Pause before the request, recorded from a HAR session
+      think_time_ms?: number
+      extractors?: RequestExtractor[]
     }>
+    // SLOs that decide pass/fail; an error-rate gate also applies unless one sets a run-wide error_rate
+    thresholds?: LoadThreshold[]
+    // Open-model arrival schedule; fixed threads when omitted
+    profile?: LoadProfile
   }
+  // Bound dataset: functional tests run once per row, load tests draw rows per virtual user or iteration
+  dataset_id?: string | null
+  dataset_selection?: DatasetSelection
+  dataset_scope?: 'vu' | 'iteration'
+  // Auth profile name, resolved against the environment of each run
+  auth_profile?: string | null
   priority: 'Low' | 'Medium' | 'High'
   category?: string
   created_by?: string
@@ -71,7 +146,7 @@ export interface TestRun {
   project_id: string
   name: string
   environment: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timed_out'
   test_type: 'functional' | 'load'
   trigger_type: 'manual' | 'github_pr' | 'scheduled'
   trigger_data: Record<string, any>
@@ -82,6 +157,13 @@ export interface TestRun {
   passed_tests: number
   failed_tests: number
   duration_seconds?: number
+  // Why the run failed, timed out or was cancelled
+  error_message?: string
+  // Refreshed by the executor while it streams; stale runs are reaped as timed_out
+  heartbeat_at?: string
+  commit_sha?: string
+  // Pass/fail for PR checks; failures of quarantined flaky tests are ignored
+  gating_status?: 'passed' | 'failed'
   load_test_metrics?: {
     requests_per_second: number
     avg_response_time: number
@@ -95,11 +177,55 @@ export interface TestRun {
   }
 }
 
+// Outcome of one functional step and the checks derived from its expected result
+export interface TestStepResult {
+  id: string
+  test_result_id: string
+  test_run_id: string
+  step_index: number
+  action: string
+  expected_result?: string
+  status: 'pass' | 'fail' | 'skip'
+  verified: boolean
+  assertions: Array<{
+    description: string
+    passed: boolean
+    expected: string
+    actual: string
+  }>
+  duration_ms?: number
+  error_message?: string
+  screenshot_url?: string
+  page_url?: string
+  dom_snapshot?: string
+  created_at: string
+}
+
+// One browser/version/OS/viewport combination of a cross-browser matrix run
+export interface BrowserConfig {
+  browser: string
+  version?: string
+  platform?: string
+  viewport?: 'desktop' | 'tablet' | 'mobile'
+}
+
+export const configurationKey = (config: BrowserConfig) =>
+  [config.browser, config.version || 'latest', config.platform || 'any', config.viewport || 'desktop'].join('/')
+
 export interface TestResult {
   id: string
   test_run_id: string
   test_case_id: string
+  configuration?: BrowserConfig
+  configuration_key?: string
+  // Zero-based dataset row the test ran with
+  data_row?: number | null
   status: 'pass' | 'fail' | 'skip'
+  attempts?: number
+  failure_kind?: 'infra' | 'timeout' | 'assertion'
+  // Failed and then passed on retry within the run
+  flaky?: boolean
+  quarantined?: boolean
   error_message?: string
   logs?: string
   screenshots: string[]
@@ -111,6 +237,156 @@ export interface TestResult {
     bytes: number
     success: boolean
   }
+  threshold_results?: LoadThresholdVerdict[]
+  // Reports kept in the artifacts bucket, e.g. the JMeter HTML dashboard
+  artifacts?: { name: string; type: string; path: string }[]
+}
+
+export type LoadProfileType = 'closed' | 'constant_arrival_rate' | 'stages' | 'spike' | 'soak' | 'step'
+
+// Durations are seconds, rates are requests per second
+export interface LoadProfile {
+  type: LoadProfileType
+  rate?: number
+  duration?: number
+  stages?: Array<{ duration: number; target: number }>
+  baseline_rate?: number
+  spike_rate?: number
+  spike_at?: number
+  spike_duration?: number
+  start_rate?: number
+  step_rate?: number
+  step_duration?: number
+  steps?: number
+  max_vus?: number
+}
+
+// One row of load_test_metrics.endpoint_metrics, keyed by method and URL template
+export interface LoadEndpointMetrics {
+  name: string
+  method: string
+  path: string
+  total_requests: number
+  failed_requests: number
+  error_rate: number
+  requests_per_second: number
+  throughput: number
+  avg_response_time: number
+  percentile_50: number
+  percentile_90: number
+  percentile_95: number
+  percentile_99: number
+  max_response_time: number
+  bytes: number
+  avg_bytes: number
+}
+
+export interface LoadThreshold {
+  metric: 'p90' | 'p95' | 'p99' | 'avg_response_time' | 'error_rate' | 'rps' | 'throughput'
+  op: '<' | '<=' | '>' | '>='
+  value: number
+  // "GET /api/users" or "/api/users"; omitted for run-wide thresholds
+  endpoint?: string
+}
+
+export interface LoadThresholdVerdict extends LoadThreshold {
+  description: string
+  actual: number | null
+  status: 'pass' | 'fail' | 'no_data'
+  // Why a threshold without a value failed
+  reason?: string
+}
+
+export type DatasetSelection = 'sequential' | 'random' | 'unique'
+
+// Project test data; columns are used as ${column} in steps, URLs, headers and bodies
+export interface Dataset {
+  id: string
+  project_id: string
+  name: string
+  format: 'csv' | 'json'
+  columns: string[]
+  rows: Record<string, string>[]
+  row_count: number
+  created_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export type AuthProfileType = 'bearer' | 'basic' | 'oauth2_client_credentials' | 'login_form' | 'cookies'
+
+// Credentials the runners use against one environment, mirrors supabase/functions/_shared/auth-profiles.ts.
+// The secret (token, password, client secret or cookies) is encrypted server-side and never read back.
+export interface AuthProfile {
+  id: string
+  project_id: string
+  name: string
+  environment: 'local' | 'staging' | 'production'
+  type: AuthProfileType
+  config: {
+    username?: string
+    token_url?: string
+    client_id?: string
+    scope?: string
+    login_url?: string
+    username_field?: string
+    password_field?: string
+    format?: 'form' | 'json'
+    token_path?: string
+    local_storage_key?: string
+  }
+  // Last characters of the secret, when it is long enough to show masked
+  secret_hint?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Secrets kept encrypted by the manage-secrets edge function, mirrors supabase/functions/_shared/vault.ts.
+// Account secrets belong to the user, grid_access_key to a project; values are never read back.
+export type SecretName = 'github_token' | 'slack_webhook_url' | 'grid_access_key'
+
+export interface SecretStatus {
+  name: SecretName
+  hint: string | null
+  updated_at: string
+}
+
+// Standalone machine that runs shards of distributed load tests (load-agent/main.ts)
+export interface LoadAgent {
+  id: string
+  project_id: string
+  name: string
+  status: 'online' | 'busy' | 'offline'
+  max_vus: number
+  version?: string
+  last_seen_at?: string
+  created_at: string
+}
+
+// One agent's shard of a load test
+export interface LoadJob {
+  id: string
+  test_run_id: string
+  test_case_id: string
+  project_id: string
+  shard_index: number
+  shard_count: number
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  agent_id?: string
+  error_message?: string
+  claimed_at?: string
+  completed_at?: string
+  created_at: string
+}
+
+// Row of the test_case_flakiness view
+export interface TestCaseFlakiness {
+  test_case_id: string
+  project_id: string
+  revisions: number
+  flaky_revisions: number
+  flakiness_score: number
+  is_flaky: boolean
 }
 
 // Auth helpers
@@ -223,6 +499,9 @@ export const api = {
       duration: number
     }
   ) => {
+    // The plan runs as uploaded; its own thread groups and samplers are kept for display
+    const plan = parseJmxPlan(jmxContent)
+
     const { data, error } = await supabase
       .from('test_cases')
       .insert({
@@ -232,9 +511,10 @@ export const api = {
         test_type: 'load',
         jmeter_config: {
           test_plan: jmxContent,
-          threads: config.threads,
-          ramp_up: config.ramp_up,
-          duration: config.duration,
+          threads: plan.threads || config.threads,
+          ramp_up: plan.ramp_up,
+          duration: plan.duration,
+          endpoints: plan.endpoints,
         },
         priority: 'Medium',
       })
@@ -271,10 +551,205 @@ export const api = {
     return data
   },
 
+  getTestStepResults: async (testResultId: string) => {
+    const { data, error } = await supabase
+      .from('test_step_results')
+      .select('*')
+      .eq('test_result_id', testResultId)
+      .order('step_index', { ascending: true })
+    
+    if (error) throw error
+    return data
+  },
+
+  getTestCaseFlakiness: async (projectId: string) => {
+    const { data, error } = await supabase
+      .from('test_case_flakiness')
+      .select('*')
+      .eq('project_id', projectId)
+    
+    if (error) throw error
+    return data as TestCaseFlakiness[]
+  },
+
+  getLoadAgents: async (projectId: string) => {
+    const { data, error } = await supabase
+      .from('load_agents')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+    
+    if (error) throw error
+    return data as LoadAgent[]
+  },
+
+  // Only the token's hash is stored, so the token is returned this once for the agent's config
+  createLoadAgent: async (projectId: string, name: string) => {
+    const token = Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('')
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+    const tokenHash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+
+    const { data, error } = await supabase
+      .from('load_agents')
+      .insert({ project_id: projectId, name, token_hash: tokenHash })
+      .select()
+      .single()
+    
+    if (error) throw error
+    return { agent: data as LoadAgent, token }
+  },
+
+  deleteLoadAgent: async (id: string) => {
+    const { error } = await supabase
+      .from('load_agents')
+      .delete()
+      .eq('id', id)
+    
+    if (error) throw error
+  },
+
+  // Rows are left out of the list; they are only read by the runners
+  getDatasets: async (projectId: string) => {
+    const { data, error } = await supabase
+      .from('datasets')
+      .select('id, project_id, name, format, columns, row_count, created_by, created_at, updated_at')
+      .eq('project_id', projectId)
+      .order('name', { ascending: true })
+    
+    if (error) throw error
+    return data as Omit<Dataset, 'rows'>[]
+  },
+
+  createDataset: async (projectId: string, name: string, content: string, format: 'csv' | 'json') => {
+    const { data: { user } } = await supabase.auth.getUser()
+    const { columns, rows } = parseDataset(content, format)
+
+    const { data, error } = await supabase
+      .from('datasets')
+      .insert({
+        project_id: projectId,
+        name,
+        format,
+        columns,
+        rows,
+        row_count: rows.length,
+        created_by: user?.id,
+      })
+      .select('id, project_id, name, format, columns, row_count, created_by, created_at, updated_at')
+      .single()
+    
+    if (error) throw error
+    return data as Omit<Dataset, 'rows'>
+  },
+
+  deleteDataset: async (id: string) => {
+    const { error } = await supabase
+      .from('datasets')
+      .delete()
+      .eq('id', id)
+    
+    if (error) throw error
+  },
+
+  bindDataset: async (
+    testCaseId: string,
+    binding: Pick<TestCase, 'dataset_id' | 'dataset_selection' | 'dataset_scope'>
+  ) => {
+    const { data, error } = await supabase
+      .from('test_cases')
+      .update(binding)
+      .eq('id', testCaseId)
+      .select()
+      .single()
+    
+    if (error) throw error
+    return data as TestCase
+  },
+
+  // Replaces the extractors of one generated load test endpoint
+  updateEndpointExtractors: async (testCase: TestCase, endpointIndex: number, extractors: RequestExtractor[]) => {
+    const config = testCase.jmeter_config
+    if (!config?.endpoints?.[endpointIndex]) throw new Error('Endpoint not found')
+
+    const { data, error } = await supabase
+      .from('test_cases')
+      .update({
+        jmeter_config: {
+          ...config,
+          endpoints: config.endpoints.map((endpoint, index) =>
+            index === endpointIndex ? { ...endpoint, extractors } : endpoint
+          )
+        }
+      })
+      .eq('id', testCase.id)
+      .select()
+      .single()
+    
+    if (error) throw error
+    return data as TestCase
+  },
+
+  getAuthProfiles: async (projectId: string) => {
+    const { data, error } = await supabase
+      .from('auth_profiles')
+      .select('id, project_id, name, environment, type, config, secret_hint, created_at, updated_at')
+      .eq('project_id', projectId)
+      .order('name', { ascending: true })
+    
+    if (error) throw error
+    return data as AuthProfile[]
+  },
+
+  // Saved by an edge function that encrypts the secret; updates without a secret keep the stored one
+  saveAuthProfile: async (
+    projectId: string,
+    profile: Pick<AuthProfile, 'name' | 'environment' | 'type' | 'config'> & { id?: string; secret?: string }
+  ) => {
+    const { data, error } = await supabase.functions.invoke('save-auth-profile', {
+      body: { projectId, profile },
+    })
+    
+    if (error) throw error
+    return data.profile as AuthProfile
+  },
+
+  deleteAuthProfile: async (id: string) => {
+    const { error } = await supabase
+      .from('auth_profiles')
+      .delete()
+      .eq('id', id)
+    
+    if (error) throw error
+  },
+
+  bindAuthProfile: async (testCaseId: string, authProfile: string | null) => {
+    const { data, error } = await supabase
+      .from('test_cases')
+      .update({ auth_profile: authProfile })
+      .eq('id', testCaseId)
+      .select()
+      .single()
+    
+    if (error) throw error
+    return data as TestCase
+  },
+
+  // Signed URL for a stored artifact; older rows hold data: or http URLs which are returned as-is
+  getArtifactUrl: async (path: string, expiresIn = 3600) => {
+    if (/^(data:|https?:)/.test(path)) return path
+
+    const { data, error } = await supabase.storage
+      .from(ARTIFACTS_BUCKET)
+      .createSignedUrl(path, expiresIn)
+    
+    if (error) throw error
+    return data.signedUrl
+  },
+
   getProfile: async () => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('*')
+      .select('id, email, full_name, avatar_url, created_at, updated_at')
       .single()
     
     if (error) throw error
@@ -316,7 +791,7 @@ export const api = {
 
    generateLoadTests: async (
     projectId: string,
-    sourceType: 'api_endpoints' | 'url_analysis' | 'custom_config',
+    sourceType: 'api_endpoints' | 'url_analysis' | 'custom_config' | 'openapi' | 'har' | 'postman',
     sourceData: any
   ) => {
     const { data, error } = await supabase.functions.invoke('generate-load-tests', {
@@ -360,14 +835,18 @@ export const api = {
   projectId: string,
   testCaseIds: string[],
   environment: string,
-  browserType: string = 'chrome'
+  browserType: string = 'chrome',
+  concurrency?: number,
+  matrix?: BrowserConfig[]
 ) => {
   const { data, error } = await supabase.functions.invoke('execute-functional-tests', {
     body: {
       projectId,
       testCaseIds,
       environment,
-      browserType
+      browserType,
+      concurrency,
+      matrix
     },
   });
   
@@ -399,6 +878,16 @@ executeLoadTests: async (
   return data;
 },
 
+  // Executors stop at their next checkpoint; pending runs are cancelled immediately
+  cancelTestRun: async (testRunId: string) => {
+    const { data, error } = await supabase.functions.invoke('cancel-test-run', {
+      body: { testRunId },
+    })
+    
+    if (error) throw error
+    return data as { success: boolean; status: 'cancelled' | 'cancelling' }
+  },
+
   executeJMeterTest: async (
     projectId: string,
     testCaseId: string,
@@ -422,11 +911,11 @@ executeLoadTests: async (
     return data
   },
 
-  analyzeRepository: async (repositoryUrl: string, githubToken: string) => {
+  // GitHub calls run in the edge function with the token from the secrets vault
+  analyzeRepository: async (repositoryUrl: string) => {
     const { data, error } = await supabase.functions.invoke('github-integration/analyze', {
       body: {
         repositoryUrl,
-        githubToken,
       },
     })
     
@@ -434,12 +923,11 @@ executeLoadTests: async (
     return data
   },
 
-  setupGitHubWebhook: async (projectId: string, repositoryUrl: string, githubToken: string) => {
+  setupGitHubWebhook: async (projectId: string, repositoryUrl: string) => {
     const { data, error } = await supabase.functions.invoke('github-integration/setup-webhook', {
       body: {
         projectId,
         repositoryUrl,
-        githubToken,
       },
     })
     
@@ -447,6 +935,52 @@ executeLoadTests: async (
     return data
   },
 
+  getGitHubRepositories: async () => {
+    const { data, error } = await supabase.functions.invoke('github-integration/repositories', {
+      body: {},
+    })
+    
+    if (error) throw error
+    return data.repositories
+  },
+
+  // Account secrets, plus the project's when a projectId is given
+  getSecrets: async (projectId?: string) => {
+    const { data, error } = await supabase.functions.invoke('manage-secrets', {
+      body: { action: 'list', projectId },
+    })
+    
+    if (error) throw error
+    return data.secrets as SecretStatus[]
+  },
+
+  setSecret: async (name: SecretName, value: string, projectId?: string) => {
+    const { data, error } = await supabase.functions.invoke('manage-secrets', {
+      body: { action: 'set', name, value, projectId },
+    })
+    
+    if (error) throw error
+    return data.secret as SecretStatus
+  },
+
+  deleteSecret: async (name: SecretName, projectId?: string) => {
+    const { error } = await supabase.functions.invoke('manage-secrets', {
+      body: { action: 'delete', name, projectId },
+    })
+    
+    if (error) throw error
+  },
+
+  // Checks the stored secret, or value when given, against GitHub or Slack
+  testSecret: async (name: SecretName, value?: string) => {
+    const { data, error } = await supabase.functions.invoke('manage-secrets', {
+      body: { action: 'test', name, value },
+    })
+    
+    if (error) throw error
+    return data as { valid: boolean; message: string }
+  },
+
 }
 
 // Real-time subscriptions
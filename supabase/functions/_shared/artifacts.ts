@@ -0,0 +1,49 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/artifacts.ts
+// Test artifacts (screenshots, reports) in Supabase Storage, keyed by project so storage RLS can scope access
+
+export const ARTIFACTS_BUCKET = 'test-artifacts'
+
+// Used when projects.settings.artifact_retention_days is not set
+export const DEFAULT_RETENTION_DAYS = 30
+
+// Object paths always start with the project id: <project_id>/<test_run_id>/<name>
+export function artifactPath(projectId: string, testRunId: string, ...parts: string[]): string {
+  return [projectId, testRunId, ...parts].join('/')
+}
+
+export function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// Upload an artifact and return its storage path, or undefined if the upload failed
+export async function uploadArtifact(
+  supabaseClient: any,
+  path: string,
+  content: Uint8Array | string,
+  contentType: string
+): Promise<string | undefined> {
+  const { error } = await supabaseClient.storage
+    .from(ARTIFACTS_BUCKET)
+    .upload(path, content, { contentType, upsert: true })
+
+  if (error) {
+    console.error(`Failed to upload artifact ${path}:`, error)
+    return undefined
+  }
+
+  return path
+}
+
+export async function uploadScreenshot(
+  supabaseClient: any,
+  path: string,
+  base64Png: string
+): Promise<string | undefined> {
+  return await uploadArtifact(supabaseClient, path, decodeBase64(base64Png), 'image/png')
+}
@@ -0,0 +1,183 @@
+// supabase/functions/_shared/assertions.ts
+// Assertion engine: turns a step's expected_result into page checks and evaluates them
+
+import { WebDriverClient } from './webdriver.ts'
+import { describeLocator, type Assertion, type TestStep } from './steps.ts'
+import { resolveLocator } from './step-runner.ts'
+
+export interface AssertionResult {
+  description: string;
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+// Async UI (redirects, toasts) gets this long to settle before an assertion fails
+const ASSERTION_TIMEOUT_MS = 5000
+const POLL_INTERVAL_MS = 250
+
+const TOAST_XPATH = "//*[@role='alert' or @role='status' or contains(@class, 'toast') or contains(@class, 'notification') or contains(@class, 'snackbar')]"
+
+// Derive checks from free-text expected results such as
+// "User is redirected to /dashboard", "Page title is 'Login'" or "'Saved' toast appears".
+// Phrases that do not map to a check produce no assertion rather than a guess.
+export function parseExpectedResult(expected?: string): Assertion[] {
+  if (!expected) return []
+
+  const text = expected.trim()
+  // Single quotes only count at word boundaries so apostrophes ("user's") are not read as quotes
+  const quoted = text.match(/["“]([^"”]+)["”]|(?:^|\s)'([^']+)'(?=$|[\s.,!])/)?.slice(1).find(Boolean)
+  const assertions: Assertion[] = []
+
+  const title = text.match(/\btitle\s+(?:is|should be|equals|contains)\s+["“']?([^"”']+?)["”']?\.?$/i)
+  if (title) {
+    assertions.push({ kind: 'title', value: title[1], match: /contains/i.test(title[0]) ? 'contains' : 'equals' })
+  }
+
+  const url = text.match(/\b(?:redirected|navigates?|navigated|taken|sent|lands?|routed)\s+(?:back\s+)?(?:to|on)\s+(?:the\s+)?(https?:\/\/\S+|\/[\w\-/.?=&#]*)/i)
+  if (url) {
+    assertions.push({ kind: 'url', value: url[1].replace(/[.,]$/, ''), match: 'contains' })
+  } else if (/\burl\s+(?:is|contains|should contain)\s+/i.test(text) && quoted) {
+    assertions.push({ kind: 'url', value: quoted, match: 'contains' })
+  }
+
+  if (quoted && /\b(toast|notification|snackbar|alert|flash message)\b/i.test(text)) {
+    assertions.push({ kind: 'toast', value: quoted })
+  } else if (quoted && !title && !assertions.some(a => a.kind === 'url') &&
+             /\b(displayed|shown|visible|appears|appear|contains|shows|reads)\b/i.test(text)) {
+    assertions.push({ kind: 'text', value: quoted, match: 'contains' })
+  }
+
+  const count = text.match(/\b(\d+)\s+(?:elements?|items?|rows?|results?)\s+matching\s+["'`]([^"'`]+)["'`]/i)
+  if (count) {
+    assertions.push({ kind: 'count', locator: { strategy: 'css', value: count[2] }, count: parseInt(count[1]), op: 'eq' })
+  }
+
+  return assertions
+}
+
+// Explicit assertions win over ones inferred from the expected_result text
+export function assertionsForStep(step: TestStep): Assertion[] {
+  if (step.assertions && step.assertions.length > 0) return step.assertions
+  return parseExpectedResult(step.expected_result)
+}
+
+export function describeAssertion(assertion: Assertion): string {
+  switch (assertion.kind) {
+    case 'title': return `title ${assertion.match ?? 'contains'} "${assertion.value}"`
+    case 'url': return `url ${assertion.match ?? 'contains'} ${assertion.value}`
+    case 'text': return assertion.locator
+      ? `${describeLocator(assertion.locator)} text ${assertion.match ?? 'contains'} "${assertion.value}"`
+      : `page shows "${assertion.value}"`
+    case 'visible': return `${describeLocator(assertion.locator)} is ${assertion.visible === false ? 'hidden' : 'visible'}`
+    case 'count': return `${describeLocator(assertion.locator)} count ${assertion.op ?? 'eq'} ${assertion.count}`
+    case 'toast': return `toast "${assertion.value}"`
+  }
+}
+
+// Evaluate all assertions, polling each until it passes or the timeout lapses
+export async function evaluateAssertions(
+  sessionId: string,
+  client: WebDriverClient,
+  assertions: Assertion[]
+): Promise<AssertionResult[]> {
+  const results: AssertionResult[] = []
+
+  for (const assertion of assertions) {
+    const deadline = Date.now() + ASSERTION_TIMEOUT_MS
+    let result: AssertionResult
+
+    do {
+      result = await evaluateAssertion(sessionId, client, assertion)
+      if (result.passed) break
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+    } while (Date.now() < deadline)
+
+    results.push(result)
+  }
+
+  return results
+}
+
+async function evaluateAssertion(
+  sessionId: string,
+  client: WebDriverClient,
+  assertion: Assertion
+): Promise<AssertionResult> {
+  const description = describeAssertion(assertion)
+  const check = (expected: string, actual: string, passed: boolean): AssertionResult =>
+    ({ description, expected, actual, passed })
+
+  try {
+    switch (assertion.kind) {
+      case 'title': {
+        const actual = await client.getTitle(sessionId)
+        return check(assertion.value, actual, matches(actual, assertion.value, assertion.match))
+      }
+
+      case 'url': {
+        const actual = await client.getCurrentUrl(sessionId)
+        return check(assertion.value, actual, matches(actual, assertion.value, assertion.match))
+      }
+
+      case 'text': {
+        const { using, value } = assertion.locator
+          ? resolveLocator(assertion.locator)
+          : { using: 'xpath', value: '//body' }
+        const element = await client.findElement(sessionId, using, value)
+        if (!element) return check(assertion.value, 'element not found', false)
+        const actual = (await client.getElementText(sessionId, element)).trim()
+        // Report a short excerpt rather than the whole body text
+        const excerpt = assertion.locator ? actual : truncate(actual)
+        return check(assertion.value, excerpt, matches(actual, assertion.value, assertion.match))
+      }
+
+      case 'visible': {
+        const expectVisible = assertion.visible !== false
+        const { using, value } = resolveLocator(assertion.locator)
+        const element = await client.findElement(sessionId, using, value)
+        const visible = element ? await client.isElementDisplayed(sessionId, element) : false
+        return check(
+          expectVisible ? 'visible' : 'hidden',
+          visible ? 'visible' : element ? 'hidden' : 'not found',
+          visible === expectVisible
+        )
+      }
+
+      case 'count': {
+        const { using, value } = resolveLocator(assertion.locator)
+        const actual = (await client.findElements(sessionId, using, value)).length
+        const op = assertion.op ?? 'eq'
+        const passed = op === 'gte' ? actual >= assertion.count : op === 'lte' ? actual <= assertion.count : actual === assertion.count
+        return check(`${op} ${assertion.count}`, String(actual), passed)
+      }
+
+      case 'toast': {
+        const toasts = await client.findElements(sessionId, 'xpath', TOAST_XPATH)
+        const texts: string[] = []
+        for (const toast of toasts) {
+          const text = (await client.getElementText(sessionId, toast)).trim()
+          if (text) texts.push(text)
+        }
+        const passed = texts.some(text => text.toLowerCase().includes(assertion.value.toLowerCase()))
+        return check(assertion.value, texts.length > 0 ? texts.join(' | ') : 'no toast visible', passed)
+      }
+    }
+  } catch (error) {
+    return check(describeExpected(assertion), `error: ${error.message}`, false)
+  }
+}
+
+function describeExpected(assertion: Assertion): string {
+  if (assertion.kind === 'visible') return assertion.visible === false ? 'hidden' : 'visible'
+  if (assertion.kind === 'count') return `${assertion.op ?? 'eq'} ${assertion.count}`
+  return assertion.value
+}
+
+function matches(actual: string, expected: string, match: 'contains' | 'equals' = 'contains'): boolean {
+  return match === 'equals' ? actual.trim() === expected.trim() : actual.includes(expected)
+}
+
+function truncate(value: string, length = 200): string {
+  return value.length > length ? `${value.slice(0, length)}…` : value
+}
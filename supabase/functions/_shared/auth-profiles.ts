@@ -0,0 +1,227 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/auth-profiles.ts
+// Per-environment credentials (auth_profiles) turned into the headers and cookies the runners send
+
+import { decryptSecret } from './secrets.ts'
+import { queryJsonPath, stringifyValue } from './http-assertions.ts'
+
+export type AuthProfileType = 'bearer' | 'basic' | 'oauth2_client_credentials' | 'login_form' | 'cookies'
+
+// config holds the non-secret settings of each type; secret is the decrypted token, password,
+// client secret or "name=value; ..." cookie string
+export interface AuthProfile {
+  name: string;
+  type: AuthProfileType;
+  config: {
+    // basic, login_form
+    username?: string;
+    // oauth2_client_credentials
+    token_url?: string;
+    client_id?: string;
+    scope?: string;
+    // login_form: posted as form fields (or JSON) to login_url, relative to the environment URL
+    login_url?: string;
+    username_field?: string;
+    password_field?: string;
+    format?: 'form' | 'json';
+    // login_form: read a token from the JSON response instead of using its cookies
+    token_path?: string;
+    // Browser sessions: localStorage key the app reads its token from
+    local_storage_key?: string;
+  };
+  secret: string;
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+}
+
+export interface AuthCredentials {
+  profile: string;
+  // Environment origin; requests to other hosts are sent without the credentials
+  origin: string;
+  headers: Record<string, string>;
+  cookies: AuthCookie[];
+  // Bearer token for profiles that have one, written to local_storage_key in browsers
+  token?: string;
+  localStorageKey?: string;
+}
+
+const AUTH_REQUEST_TIMEOUT_MS = 15000
+
+export async function loadAuthProfile(
+  supabaseClient: any,
+  projectId: string,
+  environment: string,
+  name: string
+): Promise<AuthProfile> {
+  const { data: profile, error } = await supabaseClient
+    .from('auth_profiles')
+    .select('name, type, config, secret')
+    .eq('project_id', projectId)
+    .eq('environment', environment)
+    .eq('name', name)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!profile) throw new Error(`Auth profile ${name} is not defined for ${environment}`)
+
+  return { ...profile, config: profile.config || {}, secret: await decryptSecret(profile.secret) }
+}
+
+// Resolves each profile once per run, so OAuth tokens and login sessions are shared by the
+// test cases that name it
+export function createCredentialResolver(
+  supabaseClient: any,
+  projectId: string,
+  environment: string,
+  environmentUrl: string
+): (name: string) => Promise<AuthCredentials> {
+  const byProfile = new Map<string, Promise<AuthCredentials>>()
+
+  return (name) => {
+    if (!byProfile.has(name)) {
+      byProfile.set(name, loadAuthProfile(supabaseClient, projectId, environment, name)
+        .then(profile => resolveAuthCredentials(profile, environmentUrl)))
+    }
+    return byProfile.get(name)!
+  }
+}
+
+export async function resolveAuthCredentials(profile: AuthProfile, environmentUrl: string): Promise<AuthCredentials> {
+  const { config, secret } = profile
+  const credentials: AuthCredentials = {
+    profile: profile.name,
+    origin: new URL(environmentUrl).origin,
+    headers: {},
+    cookies: [],
+    localStorageKey: config.local_storage_key || undefined,
+  }
+
+  switch (profile.type) {
+    case 'bearer':
+      credentials.token = secret
+      break
+    case 'basic':
+      credentials.headers.Authorization = `Basic ${btoa(`${config.username ?? ''}:${secret}`)}`
+      break
+    case 'oauth2_client_credentials':
+      credentials.token = await fetchClientCredentialsToken(profile)
+      break
+    case 'login_form': {
+      const session = await logIn(profile, environmentUrl)
+      credentials.token = session.token
+      credentials.cookies = session.cookies
+      break
+    }
+    case 'cookies':
+      credentials.cookies = parseCookieString(secret)
+      break
+    default:
+      throw new Error(`Unsupported auth profile type: ${profile.type}`)
+  }
+
+  if (credentials.token) credentials.headers.Authorization = `Bearer ${credentials.token}`
+  if (credentials.cookies.length > 0) {
+    credentials.headers.Cookie = credentials.cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ')
+  }
+  return credentials
+}
+
+// Headers set on the request itself win, so a hard-coded Authorization keeps working
+export function withAuthHeaders(
+  url: string,
+  headers: Record<string, string> | undefined,
+  credentials: AuthCredentials | undefined
+): Record<string, string> | undefined {
+  if (!credentials || !sameOrigin(url, credentials.origin)) return headers
+
+  const explicit = new Set(Object.keys(headers || {}).map(name => name.toLowerCase()))
+  return {
+    ...Object.fromEntries(Object.entries(credentials.headers).filter(([name]) => !explicit.has(name.toLowerCase()))),
+    ...headers,
+  }
+}
+
+async function fetchClientCredentialsToken(profile: AuthProfile): Promise<string> {
+  const { token_url, client_id, scope } = profile.config
+  if (!token_url || !client_id) throw new Error(`Auth profile ${profile.name} needs a token URL and client ID`)
+
+  const response = await fetch(token_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id,
+      client_secret: profile.secret,
+      ...(scope && { scope }),
+    }),
+    signal: AbortSignal.timeout(AUTH_REQUEST_TIMEOUT_MS),
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Auth profile ${profile.name}: token request failed (${response.status} ${data.error_description || data.error || response.statusText})`)
+  }
+  return String(data.access_token)
+}
+
+// Posts the login form once and keeps the session cookies it sets, or the token at token_path
+async function logIn(profile: AuthProfile, environmentUrl: string): Promise<{ token?: string; cookies: AuthCookie[] }> {
+  const { login_url, username, username_field, password_field, format, token_path } = profile.config
+  if (!login_url) throw new Error(`Auth profile ${profile.name} needs a login URL`)
+
+  const fields = {
+    [username_field || 'username']: username ?? '',
+    [password_field || 'password']: profile.secret,
+  }
+  // Sessions are usually set on the redirect that follows a successful login
+  const response = await fetch(new URL(login_url, environmentUrl), {
+    method: 'POST',
+    headers: { 'Content-Type': format === 'json' ? 'application/json' : 'application/x-www-form-urlencoded' },
+    body: format === 'json' ? JSON.stringify(fields) : new URLSearchParams(fields),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(AUTH_REQUEST_TIMEOUT_MS),
+  })
+  const body = await response.text()
+
+  if (response.status >= 400) {
+    throw new Error(`Auth profile ${profile.name}: login failed with status ${response.status}`)
+  }
+
+  const cookies = response.headers.getSetCookie().map(header => parseCookieString(header.split(';')[0])[0]).filter(Boolean)
+  let token: string | undefined
+  if (token_path) {
+    try {
+      const [value] = queryJsonPath(JSON.parse(body), token_path)
+      if (value !== undefined && value !== null) token = stringifyValue(value)
+    } catch {
+      // Not JSON; reported below when there are no cookies either
+    }
+  }
+
+  if (!token && cookies.length === 0) {
+    throw new Error(`Auth profile ${profile.name}: login returned ${token_path ? `no token at ${token_path} and ` : ''}no cookies`)
+  }
+  return { token, cookies }
+}
+
+function sameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url, origin).origin === origin
+  } catch {
+    return false
+  }
+}
+
+function parseCookieString(value: string): AuthCookie[] {
+  return value
+    .split(';')
+    .map(part => part.trim())
+    .filter(part => part.includes('='))
+    .map(part => {
+      const separator = part.indexOf('=')
+      return { name: part.slice(0, separator).trim(), value: part.slice(separator + 1).trim() }
+    })
+}
@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/cancellation.ts
+// Cooperative cancellation: executors poll test_runs.cancel_requested_at between units of work
+
+const DEFAULT_POLL_INTERVAL_MS = 2000
+
+export const CANCELLED_MESSAGE = 'Test run cancelled'
+
+export interface CancellationToken {
+  // Cheap enough for hot loops; the database is queried at most once per poll interval
+  isCancelled(): Promise<boolean>;
+}
+
+export function createCancellationToken(
+  supabaseClient: any,
+  testRunId: string,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS
+): CancellationToken {
+  let cancelled = false
+  let lastCheck = 0
+  let pending: Promise<boolean> | null = null
+
+  const poll = async (): Promise<boolean> => {
+    const { data, error } = await supabaseClient
+      .from('test_runs')
+      .select('cancel_requested_at')
+      .eq('id', testRunId)
+      .single()
+
+    lastCheck = Date.now()
+    if (error) {
+      console.error('Failed to check for cancellation:', error)
+    } else {
+      cancelled = !!data?.cancel_requested_at
+    }
+    return cancelled
+  }
+
+  return {
+    isCancelled: async () => {
+      if (cancelled) return true
+      if (Date.now() - lastCheck < pollIntervalMs) return false
+
+      // Parallel workers share one in-flight query
+      if (!pending) {
+        pending = poll().finally(() => {
+          pending = null
+        })
+      }
+      return await pending
+    },
+  }
+}
@@ -0,0 +1,67 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/datasets.ts
+// Rows of a test case's bound dataset (test_cases.dataset_id) and how load tests draw from them
+
+export type DatasetSelection = 'sequential' | 'random' | 'unique'
+export type DatasetScope = 'vu' | 'iteration'
+
+export type DataRow = Record<string, string>
+
+// Carried in the load runner config as `dataset`
+export interface DatasetBinding {
+  name: string;
+  rows: DataRow[];
+  selection: DatasetSelection;
+  scope: DatasetScope;
+}
+
+// Rows of the test case's dataset, or null when none is bound (or it has no rows)
+export async function loadDatasetBinding(supabaseClient: any, testCase: any): Promise<DatasetBinding | null> {
+  if (!testCase.dataset_id) return null
+
+  const { data: dataset, error } = await supabaseClient
+    .from('datasets')
+    .select('name, rows')
+    .eq('id', testCase.dataset_id)
+    .single()
+
+  if (error || !dataset) {
+    throw new Error(`Dataset for ${testCase.name} not found`)
+  }
+  if (!Array.isArray(dataset.rows) || dataset.rows.length === 0) return null
+
+  return {
+    name: dataset.name,
+    rows: dataset.rows,
+    selection: ['random', 'unique'].includes(testCase.dataset_selection) ? testCase.dataset_selection : 'sequential',
+    scope: testCase.dataset_scope === 'vu' ? 'vu' : 'iteration',
+  }
+}
+
+// Hands out rows to all virtual users of one runner. Sequential wraps around; unique returns
+// null once every row has been used.
+export class DatasetCursor {
+  private binding: DatasetBinding
+  private position = 0
+
+  constructor(binding: DatasetBinding) {
+    this.binding = binding
+  }
+
+  get scope(): DatasetScope {
+    return this.binding.scope
+  }
+
+  next(): DataRow | null {
+    const { rows, selection } = this.binding
+    if (selection === 'random') return rows[Math.floor(Math.random() * rows.length)]
+    if (selection === 'unique' && this.position >= rows.length) return null
+    return rows[this.position++ % rows.length]
+  }
+}
+
+// Split rows between load agents: unique rows go to exactly one shard, the others keep every row
+export function shardDataset(binding: DatasetBinding, shardCount: number, shardIndex: number): DatasetBinding {
+  if (binding.selection !== 'unique') return binding
+  return { ...binding, rows: binding.rows.filter((_, index) => index % shardCount === shardIndex) }
+}
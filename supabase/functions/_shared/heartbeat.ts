@@ -0,0 +1,28 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/heartbeat.ts
+// Keeps test_runs.heartbeat_at fresh while an executor is alive so reap_stale_test_runs
+// can tell a long run from one whose edge function died
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000
+
+// Returns a stop function; call it once the run reaches a final status
+export function startHeartbeat(
+  supabaseClient: any,
+  testRunId: string,
+  intervalMs = DEFAULT_HEARTBEAT_INTERVAL_MS
+): () => void {
+  const beat = async () => {
+    const { error } = await supabaseClient
+      .from('test_runs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', testRunId)
+
+    if (error) {
+      console.error('Failed to record heartbeat:', error)
+    }
+  }
+
+  beat()
+  const timer = setInterval(beat, intervalMs)
+  return () => clearInterval(timer)
+}
@@ -0,0 +1,112 @@
+// supabase/functions/_shared/histogram.ts
+// Bounded-memory latency histogram with log-linear (HDR-style) buckets
+
+// Values below 2 * SUB_BUCKETS ms are exact; above that each power of two is split into
+// SUB_BUCKETS buckets, so any percentile is within 1 / SUB_BUCKETS (under 1%) of the true value
+const SUB_BUCKETS = 128
+const SUB_BUCKET_BITS = Math.log2(SUB_BUCKETS)
+
+// Serializable form, used to persist or merge histograms across workers
+export interface HistogramSnapshot {
+  counts: Record<string, number>;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export class LatencyHistogram {
+  private counts = new Map<number, number>();
+  private total = 0;
+  private sumValues = 0;
+  private minValue = Infinity;
+  private maxValue = 0;
+
+  record(value: number, times = 1): void {
+    const rounded = Math.max(0, Math.round(value));
+    const index = bucketIndex(rounded);
+    this.counts.set(index, (this.counts.get(index) || 0) + times);
+    this.total += times;
+    this.sumValues += rounded * times;
+    this.minValue = Math.min(this.minValue, rounded);
+    this.maxValue = Math.max(this.maxValue, rounded);
+  }
+
+  merge(other: LatencyHistogram): void {
+    for (const [index, count] of other.counts) {
+      this.counts.set(index, (this.counts.get(index) || 0) + count);
+    }
+    this.total += other.total;
+    this.sumValues += other.sumValues;
+    this.minValue = Math.min(this.minValue, other.minValue);
+    this.maxValue = Math.max(this.maxValue, other.maxValue);
+  }
+
+  get count(): number {
+    return this.total;
+  }
+
+  get min(): number {
+    return this.total > 0 ? this.minValue : 0;
+  }
+
+  get max(): number {
+    return this.maxValue;
+  }
+
+  mean(): number {
+    return this.total > 0 ? this.sumValues / this.total : 0;
+  }
+
+  // Nearest-rank percentile, reported as the midpoint of the bucket it falls in
+  percentile(percentile: number): number {
+    if (this.total === 0) return 0;
+
+    const rank = Math.max(1, Math.ceil((percentile / 100) * this.total));
+    let seen = 0;
+    for (const index of [...this.counts.keys()].sort((a, b) => a - b)) {
+      seen += this.counts.get(index)!;
+      if (seen >= rank) {
+        return Math.min(Math.max(bucketMidpoint(index), this.minValue), this.maxValue);
+      }
+    }
+    return this.maxValue;
+  }
+
+  snapshot(): HistogramSnapshot {
+    return {
+      counts: Object.fromEntries(this.counts),
+      count: this.total,
+      sum: this.sumValues,
+      min: this.min,
+      max: this.maxValue,
+    };
+  }
+
+  static fromSnapshot(snapshot: HistogramSnapshot): LatencyHistogram {
+    const histogram = new LatencyHistogram();
+    for (const [index, count] of Object.entries(snapshot.counts || {})) {
+      histogram.counts.set(Number(index), count);
+    }
+    histogram.total = snapshot.count || 0;
+    histogram.sumValues = snapshot.sum || 0;
+    histogram.minValue = histogram.total > 0 ? snapshot.min : Infinity;
+    histogram.maxValue = snapshot.max || 0;
+    return histogram;
+  }
+}
+
+function bucketIndex(value: number): number {
+  if (value < 2 * SUB_BUCKETS) return value
+  const exponent = Math.floor(Math.log2(value)) - SUB_BUCKET_BITS
+  const mantissa = Math.floor(value / 2 ** exponent)
+  return 2 * SUB_BUCKETS + (exponent - 1) * SUB_BUCKETS + (mantissa - SUB_BUCKETS)
+}
+
+function bucketMidpoint(index: number): number {
+  if (index < 2 * SUB_BUCKETS) return index
+  const offset = index - 2 * SUB_BUCKETS
+  const exponent = Math.floor(offset / SUB_BUCKETS) + 1
+  const mantissa = SUB_BUCKETS + (offset % SUB_BUCKETS)
+  return Math.round((mantissa + 0.5) * 2 ** exponent)
+}
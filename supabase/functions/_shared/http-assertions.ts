@@ -0,0 +1,183 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/http-assertions.ts
+// Per-request assertions for load-test endpoints (jmeter_config.endpoints[].assertions)
+
+export type HttpAssertionField = 'response_code' | 'response_time' | 'body' | 'json_path' | 'header'
+
+// Shape produced by generate-load-tests, e.g. { field: 'response_time', pattern: '< 2000' }.
+// json_path reads `path` ($.data.id) and header reads `name`; without a pattern they only check presence.
+export interface HttpAssertion {
+  field: HttpAssertionField;
+  pattern?: string;
+  path?: string;
+  name?: string;
+}
+
+export interface HttpResponseSample {
+  status: number;
+  responseTime: number;
+  headers: Headers;
+  body?: string;
+}
+
+const FIELD_ALIASES: Record<string, HttpAssertionField> = {
+  response_code: 'response_code',
+  status: 'response_code',
+  status_code: 'response_code',
+  response_time: 'response_time',
+  latency: 'response_time',
+  body: 'body',
+  response_body: 'body',
+  body_contains: 'body',
+  json_path: 'json_path',
+  jsonpath: 'json_path',
+  header: 'header',
+  response_header: 'header',
+}
+
+// Drop entries the runner cannot evaluate instead of failing every request on them
+export function normalizeHttpAssertions(assertions: any): HttpAssertion[] {
+  if (!Array.isArray(assertions)) return []
+
+  return assertions
+    .filter(assertion => assertion && FIELD_ALIASES[String(assertion.field).toLowerCase()])
+    .map(assertion => ({
+      field: FIELD_ALIASES[String(assertion.field).toLowerCase()],
+      ...(assertion.pattern !== undefined && assertion.pattern !== null && { pattern: String(assertion.pattern) }),
+      ...(assertion.path && { path: String(assertion.path) }),
+      ...(assertion.name && { name: String(assertion.name) }),
+    }))
+    .filter(assertion =>
+      (assertion.field !== 'json_path' || assertion.path) &&
+      (assertion.field !== 'header' || assertion.name) &&
+      (!['response_code', 'response_time', 'body'].includes(assertion.field) || assertion.pattern)
+    )
+}
+
+export function describeHttpAssertion(assertion: HttpAssertion): string {
+  switch (assertion.field) {
+    case 'response_code':
+      return `response_code ${assertion.pattern}`
+    case 'response_time':
+      return `response_time ${assertion.pattern}ms`
+    case 'body':
+      return `body contains "${assertion.pattern}"`
+    case 'json_path':
+      return assertion.pattern !== undefined ? `${assertion.path} == "${assertion.pattern}"` : `${assertion.path} exists`
+    case 'header':
+      return assertion.pattern !== undefined ? `header ${assertion.name} contains "${assertion.pattern}"` : `header ${assertion.name} present`
+  }
+}
+
+// Only body and JSONPath assertions need the response body read
+export function needsResponseBody(assertions: HttpAssertion[]): boolean {
+  return assertions.some(assertion => assertion.field === 'body' || assertion.field === 'json_path')
+}
+
+// An explicit response_code assertion replaces the default 2xx check
+export function hasStatusAssertion(assertions: HttpAssertion[]): boolean {
+  return assertions.some(assertion => assertion.field === 'response_code')
+}
+
+// Returns the descriptions of the assertions that failed
+export function evaluateHttpAssertions(assertions: HttpAssertion[], sample: HttpResponseSample): string[] {
+  return assertions
+    .filter(assertion => !checkAssertion(assertion, sample))
+    .map(describeHttpAssertion)
+}
+
+function checkAssertion(assertion: HttpAssertion, sample: HttpResponseSample): boolean {
+  switch (assertion.field) {
+    case 'response_code':
+      return matchesStatus(sample.status, assertion.pattern!)
+    case 'response_time':
+      return compareNumber(sample.responseTime, assertion.pattern!)
+    case 'body':
+      return (sample.body ?? '').includes(assertion.pattern!)
+    case 'json_path': {
+      let document: any
+      try {
+        document = JSON.parse(sample.body ?? '')
+      } catch {
+        return false
+      }
+      const matches = queryJsonPath(document, assertion.path!)
+      return assertion.pattern === undefined
+        ? matches.length > 0
+        : matches.some(value => stringifyValue(value) === assertion.pattern)
+    }
+    case 'header': {
+      const value = sample.headers.get(assertion.name!)
+      return value !== null && (assertion.pattern === undefined || value.includes(assertion.pattern))
+    }
+  }
+}
+
+// "200", "2xx", "200|201" or a comparison such as "< 400"
+function matchesStatus(status: number, pattern: string): boolean {
+  return pattern.split('|').some(part => {
+    const candidate = part.trim()
+    if (/^[<>]=?|^==?/.test(candidate)) return compareNumber(status, candidate)
+    if (/^\dxx$/i.test(candidate)) return Math.floor(status / 100) === Number(candidate[0])
+    return Number(candidate) === status
+  })
+}
+
+// "< 2000", "<= 500", "> 0"; a bare number is an upper bound
+function compareNumber(actual: number, pattern: string): boolean {
+  const match = pattern.trim().match(/^(<=|>=|<|>|==?)?\s*(-?\d+(?:\.\d+)?)$/)
+  if (!match) return false
+
+  const expected = Number(match[2])
+  switch (match[1]) {
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    case '=':
+    case '==': return actual === expected
+    default: return actual <= expected
+  }
+}
+
+export function stringifyValue(value: any): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
+}
+
+// Subset of JSONPath: $.a.b, $['a'], $.items[0], $.items[*].id and $..id
+export function queryJsonPath(document: any, path: string): any[] {
+  const tokens = path.trim().replace(/^\$/, '').match(/\.\.[^.[\]]+|\.[^.[\]]+|\[[^\]]+\]/g) || []
+  let current: any[] = [document]
+
+  for (const token of tokens) {
+    if (token.startsWith('..')) {
+      const key = token.slice(2)
+      current = current.flatMap(node => collectDescendants(node, key))
+      continue
+    }
+
+    const key = token.startsWith('[')
+      ? token.slice(1, -1).trim().replace(/^['"]|['"]$/g, '')
+      : token.slice(1)
+
+    current = current.flatMap(node => {
+      if (node === null || typeof node !== 'object') return []
+      if (key === '*') return Object.values(node)
+      if (Array.isArray(node) && /^-?\d+$/.test(key)) {
+        const index = Number(key)
+        const value = node[index < 0 ? node.length + index : index]
+        return value === undefined ? [] : [value]
+      }
+      return key in node ? [node[key]] : []
+    })
+  }
+
+  return current
+}
+
+function collectDescendants(node: any, key: string): any[] {
+  if (node === null || typeof node !== 'object') return []
+
+  const own = key === '*' ? Object.values(node) : key in node ? [node[key]] : []
+  return [...own, ...Object.values(node).flatMap(child => collectDescendants(child, key))]
+}
@@ -0,0 +1,265 @@
+// supabase/functions/_shared/jmeter.ts
+// Runs JMeter plans with a local binary (JMETER_PATH) in non-GUI mode and parses the JTL it writes
+
+import JSZip from 'https://esm.sh/jszip@3.10.1'
+import { type CancellationToken } from './cancellation.ts'
+import { LoadMetricsCollector, type LoadMetrics } from './load-metrics.ts'
+
+export const DEFAULT_JMETER_PATH = '/usr/bin/jmeter'
+
+// Files of one run; the caller removes workDir once it has read what it needs
+export interface JMeterRun {
+  workDir: string;
+  resultFile: string;
+  reportDir: string;
+  logFile: string;
+  exitCode: number;
+  cancelled: boolean;
+  // Last lines JMeter printed, for the test result logs
+  output: string[];
+}
+
+// Cumulative totals from the summariser lines JMeter prints every 30s
+export interface JMeterProgress {
+  requests: number;
+  errors: number;
+  activeThreads: number;
+}
+
+const OUTPUT_TAIL_LINES = 50
+const CANCELLATION_POLL_MS = 2000
+
+// Why JMeter cannot run in this runtime, or null when it can. Hosted Supabase edge functions
+// cannot start subprocesses, so local JMeter runs need a self-hosted runtime with the binary.
+export async function jmeterUnavailableReason(jmeterPath: string): Promise<string | null> {
+  let canRun = typeof Deno.Command === 'function'
+  try {
+    canRun = canRun && (await Deno.permissions.query({ name: 'run', command: jmeterPath })).state === 'granted'
+  } catch {
+    canRun = false
+  }
+  if (!canRun) {
+    return 'This runtime cannot start JMeter (hosted edge functions cannot run subprocesses); set BLAZEMETER_API_KEY to run load tests on BlazeMeter, or self-host execute-tests with JMETER_PATH'
+  }
+
+  try {
+    await Deno.stat(jmeterPath)
+  } catch {
+    return `JMeter not found at ${jmeterPath}; set JMETER_PATH to a JMeter binary`
+  }
+  return null
+}
+
+export async function runJMeter(
+  jmeterPath: string,
+  jmxContent: string,
+  cancellation: CancellationToken,
+  onProgress?: (progress: JMeterProgress) => void
+): Promise<JMeterRun> {
+  const unavailable = await jmeterUnavailableReason(jmeterPath)
+  if (unavailable) throw new Error(unavailable)
+
+  const workDir = await Deno.makeTempDir({ prefix: 'jmeter-' })
+  const planFile = `${workDir}/plan.jmx`
+  const resultFile = `${workDir}/results.jtl`
+  const reportDir = `${workDir}/report`
+  const logFile = `${workDir}/jmeter.log`
+  await Deno.writeTextFile(planFile, jmxContent)
+
+  const child = new Deno.Command(jmeterPath, {
+    args: [
+      '-n',
+      '-t', planFile,
+      '-l', resultFile,
+      '-j', logFile,
+      // Generate the HTML dashboard from the JTL once the plan finishes
+      '-e', '-o', reportDir,
+      // parseJMeterResults reads CSV with a header row, whatever jmeter.properties says
+      '-Jjmeter.save.saveservice.output_format=csv',
+      '-Jjmeter.save.saveservice.print_field_names=true',
+    ],
+    stdout: 'piped',
+    stderr: 'piped',
+  }).spawn()
+
+  let cancelled = false
+  const timer = setInterval(async () => {
+    if (!cancelled && await cancellation.isCancelled()) {
+      cancelled = true
+      // JMeter flushes the JTL and exits on SIGTERM
+      try {
+        child.kill('SIGTERM')
+      } catch {
+        // Already exited
+      }
+    }
+  }, CANCELLATION_POLL_MS)
+
+  const output: string[] = []
+  const collect = async (stream: ReadableStream<Uint8Array>) => {
+    for await (const line of readLines(stream)) {
+      output.push(line)
+      if (output.length > OUTPUT_TAIL_LINES) output.shift()
+
+      const progress = parseSummariserLine(line)
+      if (progress && onProgress) onProgress(progress)
+    }
+  }
+
+  try {
+    const [status] = await Promise.all([child.status, collect(child.stdout), collect(child.stderr)])
+    return { workDir, resultFile, reportDir, logFile, exitCode: status.code, cancelled, output }
+  } finally {
+    clearInterval(timer)
+  }
+}
+
+// "summary =    1200 in 00:01:00 =   20.0/s Avg:   45 Min: 3 Max: 900 Err:    12 (1.00%) Active: 10 Started: 10 Finished: 0"
+function parseSummariserLine(line: string): JMeterProgress | null {
+  const match = line.match(/summary =\s+(\d+) in .*?Err:\s+(\d+)(?: \([\d.]+%\))?(?:\s+Active:\s+(\d+))?/)
+  if (!match) return null
+
+  return {
+    requests: parseInt(match[1]),
+    errors: parseInt(match[2]),
+    activeThreads: parseInt(match[3] || '0'),
+  }
+}
+
+// Zip the HTML dashboard so it can be stored as one artifact and opened locally
+export async function zipDirectory(dir: string): Promise<Uint8Array | undefined> {
+  const zip = new JSZip()
+  let files = 0
+
+  const add = async (path: string, prefix: string) => {
+    for await (const entry of Deno.readDir(path)) {
+      const name = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (entry.isDirectory) {
+        await add(`${path}/${entry.name}`, name)
+      } else if (entry.isFile) {
+        zip.file(name, await Deno.readFile(`${path}/${entry.name}`))
+        files++
+      }
+    }
+  }
+
+  try {
+    await add(dir, '')
+  } catch (error) {
+    console.error(`Failed to read ${dir}:`, error)
+    return undefined
+  }
+
+  return files > 0 ? await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' }) : undefined
+}
+
+// Parse a JMeter CSV results file (JTL) line by line into histogram-backed metrics
+export async function parseJMeterResults(resultFile: string): Promise<LoadMetrics> {
+  const collector = new LoadMetricsCollector()
+
+  try {
+    const file = await Deno.open(resultFile, { read: true })
+    let columns: Record<string, number> | null = null
+    let firstTimestamp = Infinity
+    let lastTimestamp = 0
+    let maxThreads = 0
+
+    for await (const line of readLines(file.readable)) {
+      if (!line.trim()) continue
+
+      const fields = splitCsvLine(line)
+      if (!columns) {
+        // The header row names the columns JMeter was configured to save
+        columns = Object.fromEntries(fields.map((name, index) => [name, index]))
+        if (columns.timeStamp === undefined || columns.elapsed === undefined) {
+          throw new Error('JTL file has no CSV header row')
+        }
+        continue
+      }
+
+      const field = (name: string) => fields[columns![name]] ?? ''
+      const timestamp = parseInt(field('timeStamp'))
+      const elapsed = parseInt(field('elapsed'))
+      if (!Number.isFinite(timestamp) || !Number.isFinite(elapsed)) continue
+
+      const responseCode = field('responseCode')
+      const statusCode = /^\d{3}$/.test(responseCode) ? parseInt(responseCode) : undefined
+      const failureMessage = field('failureMessage')
+      const success = field('success') === 'true'
+      const threads = parseInt(field('allThreads')) || 0
+
+      collector.record({
+        timestamp,
+        responseTime: elapsed,
+        success,
+        statusCode,
+        // A failed sample with a successful status code failed one of its assertions
+        assertionFailures: !success && failureMessage && statusCode && statusCode < 400 ? [failureMessage] : undefined,
+        error: failureMessage || field('responseMessage') || responseCode,
+        bytes: parseInt(field('bytes')) || 0,
+        url: field('URL'),
+        label: field('label') || undefined
+      }, success ? undefined : {
+        responseCode,
+        responseMessage: field('responseMessage'),
+        failureMessage,
+        url: field('URL')
+      })
+      collector.recordActiveVus(threads, timestamp)
+
+      firstTimestamp = Math.min(firstTimestamp, timestamp)
+      lastTimestamp = Math.max(lastTimestamp, timestamp + elapsed)
+      maxThreads = Math.max(maxThreads, threads)
+    }
+
+    if (collector.totalRequests === 0) {
+      throw new Error('No results in JMeter output file')
+    }
+
+    return collector.summarize(Math.max((lastTimestamp - firstTimestamp) / 1000, 1), maxThreads)
+  } catch (error) {
+    console.error('Failed to parse JMeter results:', error)
+    return collector.summarize(1, 0)
+  }
+}
+
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let buffer = ''
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    buffer += chunk
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) yield line.replace(/\r$/, '')
+  }
+  if (buffer) yield buffer
+}
+
+// JMeter quotes fields that contain the delimiter, doubling embedded quotes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  fields.push(current)
+  return fields
+}
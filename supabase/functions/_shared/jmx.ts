@@ -0,0 +1,147 @@
+// supabase/functions/_shared/jmx.ts
+// Edits uploaded JMeter plans (jmeter_config.test_plan) in place before they run, and builds the
+// sampler pieces of generated ones
+
+import type { Extractor } from './variables.ts'
+
+// Per-run overrides for every thread group in the plan; unset fields keep the plan's values
+export interface JmxOverrides {
+  threads?: number;
+  rampUp?: number;
+  duration?: number;
+}
+
+const THREAD_GROUP_PATTERN = /<ThreadGroup\b[^>]*>[\s\S]*?<\/ThreadGroup>/g
+const HTTP_ELEMENT_PATTERN = /<(HTTPSamplerProxy|ConfigTestElement)\b[^>]*>[\s\S]*?<\/\1>/g
+
+export function applyJmxOverrides(jmx: string, overrides: JmxOverrides): string {
+  const { threads, rampUp, duration } = overrides
+  if (threads === undefined && rampUp === undefined && duration === undefined) return jmx
+
+  return jmx.replace(THREAD_GROUP_PATTERN, (group) => {
+    let updated = group
+    if (threads !== undefined) updated = setProp(updated, 'ThreadGroup.num_threads', String(threads))
+    if (rampUp !== undefined) updated = setProp(updated, 'ThreadGroup.ramp_time', String(rampUp))
+    if (duration !== undefined) {
+      // A duration only bounds the run with the scheduler on and the loop count unlimited
+      updated = setProp(updated, 'ThreadGroup.duration', String(duration))
+      updated = setProp(updated, 'ThreadGroup.scheduler', 'true', 'boolProp')
+      if (readProp(updated, 'LoopController.loops') !== undefined) {
+        updated = setProp(updated, 'LoopController.loops', '-1')
+      }
+    }
+    return updated
+  })
+}
+
+// Point the plan's main host (HTTP Request Defaults, else its most used sampler domain) at the
+// environment URL. Other hosts, such as identity providers or CDNs, and ${variables} are left alone.
+export function substituteJmxHost(jmx: string, environmentUrl: string): string {
+  let target: URL
+  try {
+    target = new URL(environmentUrl)
+  } catch {
+    return jmx
+  }
+
+  const host = primaryHost(jmx)
+  if (!host) return jmx
+
+  return jmx.replace(HTTP_ELEMENT_PATTERN, (element) => {
+    if (readProp(element, 'HTTPSampler.domain') !== host) return element
+
+    let updated = setProp(element, 'HTTPSampler.domain', target.hostname)
+    updated = setProp(updated, 'HTTPSampler.port', target.port)
+    return setProp(updated, 'HTTPSampler.protocol', target.protocol.replace(':', ''))
+  })
+}
+
+// HTTPSampler.* props for an absolute URL. Split by hand because URL would encode ${variables} in the path.
+export function samplerTargetProps(url: string): string {
+  const match = url.match(/^(\w+):\/\/([^/:?#]+)(?::([^/?#]*))?([^#]*)/)
+  if (!match) throw new Error(`Endpoint URL ${url} is not absolute`)
+
+  const [, protocol, domain, port = '', path] = match
+  return [
+    `<stringProp name="HTTPSampler.domain">${escapeXml(domain)}</stringProp>`,
+    `<stringProp name="HTTPSampler.port">${escapeXml(port)}</stringProp>`,
+    `<stringProp name="HTTPSampler.protocol">${escapeXml(protocol.toLowerCase())}</stringProp>`,
+    `<stringProp name="HTTPSampler.path">${escapeXml(path || '/')}</stringProp>`,
+  ].join('\n          ')
+}
+
+// Post-processors matching the built-in runner's extractors. The default is the variable itself, so a
+// miss keeps the previous value (or the literal reference) just as the runner does.
+export function extractorElements(extractors: Extractor[]): string {
+  return extractors.map((extractor) => {
+    const name = escapeXml(extractor.name)
+    const fallback = escapeXml(`\${${extractor.name}}`)
+
+    if (extractor.type === 'json_path') {
+      return `<JSONPostProcessor guiclass="JSONPostProcessorGui" testclass="JSONPostProcessor" testname="Extract ${name}" enabled="true">
+            <stringProp name="JSONPostProcessor.referenceNames">${name}</stringProp>
+            <stringProp name="JSONPostProcessor.jsonPathExprs">${escapeXml(extractor.expression)}</stringProp>
+            <stringProp name="JSONPostProcessor.match_numbers">1</stringProp>
+            <stringProp name="JSONPostProcessor.defaultValues">${fallback}</stringProp>
+          </JSONPostProcessor>
+          <hashTree/>`
+    }
+
+    const fromHeaders = extractor.type === 'header'
+    const regex = fromHeaders ? `(?i)(?:^|\\n)${escapeRegExp(extractor.expression)}:\\s*([^\\r\\n]*)` : extractor.expression
+    return `<RegexExtractor guiclass="RegexExtractorGui" testclass="RegexExtractor" testname="Extract ${name}" enabled="true">
+            <stringProp name="RegexExtractor.useHeaders">${fromHeaders}</stringProp>
+            <stringProp name="RegexExtractor.refname">${name}</stringProp>
+            <stringProp name="RegexExtractor.regex">${escapeXml(regex)}</stringProp>
+            <stringProp name="RegexExtractor.template">$${fromHeaders || hasCaptureGroup(regex) ? 1 : 0}$</stringProp>
+            <stringProp name="RegexExtractor.default">${fallback}</stringProp>
+            <stringProp name="RegexExtractor.match_number">1</stringProp>
+          </RegexExtractor>
+          <hashTree/>`
+  }).join('\n          ')
+}
+
+function hasCaptureGroup(regex: string): boolean {
+  try {
+    return new RegExp(`${regex}|`).exec('')!.length > 1
+  } catch {
+    return false
+  }
+}
+
+function primaryHost(jmx: string): string | undefined {
+  const counts = new Map<string, number>()
+
+  for (const [element, tag] of jmx.matchAll(HTTP_ELEMENT_PATTERN)) {
+    const domain = readProp(element, 'HTTPSampler.domain')
+    if (!domain || domain.includes('${')) continue
+    if (tag === 'ConfigTestElement') return domain
+    counts.set(domain, (counts.get(domain) || 0) + 1)
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+}
+
+function readProp(element: string, name: string): string | undefined {
+  const match = element.match(new RegExp(`<(?:string|int|long)Prop name="${escapeRegExp(name)}">([^<]*)</`))
+  return match?.[1]
+}
+
+// Replace a property's value whatever its type, or add it right after the element's opening tag
+function setProp(element: string, name: string, value: string, type = 'stringProp'): string {
+  const escaped = escapeXml(value)
+  const existing = new RegExp(`<(stringProp|intProp|longProp|boolProp) name="${escapeRegExp(name)}"(?:>[^<]*</\\1>|\\s*/>)`)
+
+  if (existing.test(element)) {
+    return element.replace(existing, (_, tag) => `<${tag} name="${name}">${escaped}</${tag}>`)
+  }
+  return element.replace(/^<[^>]*>/, (open) => `${open}\n  <${type} name="${name}">${escaped}</${type}>`)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
@@ -0,0 +1,400 @@
+// supabase/functions/_shared/load-metrics.ts
+// Streaming aggregation of load-test samples into run, per-endpoint and per-interval metrics
+
+import { LatencyHistogram, type HistogramSnapshot } from './histogram.ts'
+
+export type ErrorCategory = 'transport' | 'http' | 'assertion'
+
+// One request as reported by the built-in runner or a JTL row
+export interface LoadSample {
+  timestamp: number;
+  responseTime: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  // Descriptions of the endpoint assertions this response failed
+  assertionFailures?: string[];
+  bytes?: number;
+  url: string;
+  method?: string;
+  // Sampler label; defaults to "METHOD /path"
+  label?: string;
+}
+
+// Aggregates for one endpoint, keyed by method and URL template ("GET /api/users/${id}")
+export interface EndpointMetrics {
+  name: string;
+  method: string;
+  path: string;
+  total_requests: number;
+  failed_requests: number;
+  error_rate: number;
+  requests_per_second: number;
+  throughput: number;
+  avg_response_time: number;
+  percentile_50: number;
+  percentile_90: number;
+  percentile_95: number;
+  percentile_99: number;
+  max_response_time: number;
+  bytes: number;
+  avg_bytes: number;
+}
+
+// Metrics for one slice of a run; time is the bucket's start in seconds from the beginning
+export interface TimelineBucket {
+  time: number;
+  requests: number;
+  errors: number;
+  requests_per_second: number;
+  error_rate: number;
+  avg_response_time: number;
+  percentile_50: number;
+  percentile_95: number;
+  percentile_99: number;
+  active_vus: number;
+}
+
+// Shape stored in test_results.load_test_metrics
+export interface LoadMetrics {
+  requests_per_second: number;
+  avg_response_time: number;
+  error_rate: number;
+  throughput: number;
+  percentile_50: number;
+  percentile_90: number;
+  percentile_95: number;
+  percentile_99: number;
+  min_response_time: number;
+  max_response_time: number;
+  total_requests: number;
+  failed_requests: number;
+  bytes: number;
+  duration: number;
+  vusers: number;
+  error_details: Array<{ type: string; category: ErrorCategory; count: number; sample?: unknown }>;
+  endpoint_metrics: EndpointMetrics[];
+  bucket_seconds: number;
+  timeline: TimelineBucket[];
+  response_time_over_time: number[];
+  throughput_over_time: number[];
+  error_rate_over_time: number[];
+}
+
+interface CountersSnapshot {
+  latency: HistogramSnapshot;
+  requests: number;
+  errors: number;
+  bytes: number;
+}
+
+// Serializable collector state; load agents report it and the coordinator merges it
+export interface CollectorSnapshot {
+  bucket_seconds: number;
+  overall: CountersSnapshot;
+  endpoints: Array<CountersSnapshot & { name: string; method: string; path: string }>;
+  // Interval indexes count from the start of the snapshot's own run
+  intervals: Array<CountersSnapshot & { index: number; active_vus: number }>;
+  errors: Array<{ type: string; category: ErrorCategory; count: number; sample?: unknown }>;
+}
+
+// Buckets are widened (1s, 2s, 4s...) so a timeline never holds more than this many
+const MAX_TIMELINE_BUCKETS = 300
+
+interface Counters {
+  latency: LatencyHistogram;
+  requests: number;
+  errors: number;
+  bytes: number;
+}
+
+interface EndpointCounters extends Counters {
+  method: string;
+  path: string;
+}
+
+interface IntervalCounters extends Counters {
+  activeVus: number;
+}
+
+function emptyCounters(): Counters {
+  return { latency: new LatencyHistogram(), requests: 0, errors: 0, bytes: 0 }
+}
+
+function toSnapshot(counters: Counters): CountersSnapshot {
+  return {
+    latency: counters.latency.snapshot(),
+    requests: counters.requests,
+    errors: counters.errors,
+    bytes: counters.bytes,
+  }
+}
+
+function addCounters(target: Counters, source: Counters) {
+  target.latency.merge(source.latency)
+  target.requests += source.requests
+  target.errors += source.errors
+  target.bytes += source.bytes
+}
+
+function fromSnapshot(snapshot: CountersSnapshot): Counters {
+  return {
+    latency: LatencyHistogram.fromSnapshot(snapshot.latency),
+    requests: snapshot.requests,
+    errors: snapshot.errors,
+    bytes: snapshot.bytes,
+  }
+}
+
+function addSample(counters: Counters, sample: LoadSample) {
+  counters.requests++
+  counters.bytes += sample.bytes || 0
+  if (sample.success) {
+    counters.latency.record(sample.responseTime)
+  } else {
+    counters.errors++
+  }
+}
+
+// Memory is bounded by the number of endpoints, error types and timeline buckets,
+// not by the number of requests
+export class LoadMetricsCollector {
+  private startTime?: number;
+  private bucketSeconds = 1;
+  private overall = emptyCounters();
+  private endpoints = new Map<string, EndpointCounters>();
+  private intervals = new Map<number, IntervalCounters>();
+  private errors = new Map<string, { category: ErrorCategory; count: number; sample?: unknown }>();
+
+  // JTL files set the start from their first sample
+  constructor(startTime?: number) {
+    this.startTime = startTime;
+  }
+
+  record(sample: LoadSample, errorSample?: unknown): void {
+    this.startTime ??= sample.timestamp;
+    addSample(this.overall, sample);
+
+    const path = endpointPath(sample.url);
+    const method = sample.method || '';
+    const name = sample.label || `${method} ${path}`.trim();
+    if (!this.endpoints.has(name)) {
+      this.endpoints.set(name, { ...emptyCounters(), method, path });
+    }
+    addSample(this.endpoints.get(name)!, sample);
+    addSample(this.interval(sample.timestamp), sample);
+
+    if (!sample.success) {
+      // Failed assertions, HTTP errors and transport errors are reported apart
+      if (sample.assertionFailures?.length) {
+        sample.assertionFailures.forEach(failure => this.countError('assertion', `Assertion failed: ${failure}`, errorSample));
+      } else if (sample.statusCode) {
+        this.countError('http', `HTTP ${sample.statusCode}`, errorSample);
+      } else {
+        this.countError('transport', sample.error || 'Unknown Error', errorSample);
+      }
+    }
+  }
+
+  // Busy virtual users at a point in time; each interval keeps its peak
+  recordActiveVus(activeVus: number, at = Date.now()): void {
+    if (this.startTime === undefined) return;
+    const interval = this.interval(at);
+    interval.activeVus = Math.max(interval.activeVus, activeVus);
+  }
+
+  get totalRequests(): number {
+    return this.overall.requests;
+  }
+
+  snapshot(): CollectorSnapshot {
+    return {
+      bucket_seconds: this.bucketSeconds,
+      overall: toSnapshot(this.overall),
+      endpoints: [...this.endpoints.entries()].map(([name, endpoint]) => ({
+        ...toSnapshot(endpoint),
+        name,
+        method: endpoint.method,
+        path: endpoint.path,
+      })),
+      intervals: [...this.intervals.entries()].map(([index, interval]) => ({
+        ...toSnapshot(interval),
+        index,
+        active_vus: interval.activeVus,
+      })),
+      errors: [...this.errors.entries()].map(([type, detail]) => ({ type, ...detail })),
+    };
+  }
+
+  // Fold in another worker's snapshot. Runs are aligned on their start, and
+  // virtual users add up because the workers generate load side by side.
+  merge(snapshot: CollectorSnapshot): void {
+    this.startTime ??= Date.now();
+    if (snapshot.bucket_seconds > this.bucketSeconds) {
+      this.widenIntervals(snapshot.bucket_seconds / this.bucketSeconds);
+    }
+
+    addCounters(this.overall, fromSnapshot(snapshot.overall));
+
+    for (const endpoint of snapshot.endpoints) {
+      if (!this.endpoints.has(endpoint.name)) {
+        this.endpoints.set(endpoint.name, { ...emptyCounters(), method: endpoint.method, path: endpoint.path });
+      }
+      addCounters(this.endpoints.get(endpoint.name)!, fromSnapshot(endpoint));
+    }
+
+    for (const interval of snapshot.intervals) {
+      let index = Math.floor(interval.index * snapshot.bucket_seconds / this.bucketSeconds);
+      if (index >= MAX_TIMELINE_BUCKETS) {
+        this.widenIntervals(widenFactor(index));
+        index = Math.floor(interval.index * snapshot.bucket_seconds / this.bucketSeconds);
+      }
+      if (!this.intervals.has(index)) {
+        this.intervals.set(index, { ...emptyCounters(), activeVus: 0 });
+      }
+      const target = this.intervals.get(index)!;
+      addCounters(target, fromSnapshot(interval));
+      target.activeVus += interval.active_vus;
+    }
+
+    for (const error of snapshot.errors) {
+      const detail = this.errors.get(error.type) || { category: error.category, count: 0, sample: error.sample };
+      detail.count += error.count;
+      this.errors.set(error.type, detail);
+    }
+  }
+
+  summarize(duration: number, vusers: number): LoadMetrics {
+    const { latency, requests, errors } = this.overall;
+    const endpointMetrics: EndpointMetrics[] = [...this.endpoints.entries()].map(([name, endpoint]) => ({
+      name,
+      method: endpoint.method,
+      path: endpoint.path,
+      total_requests: endpoint.requests,
+      failed_requests: endpoint.errors,
+      error_rate: (endpoint.errors / endpoint.requests) * 100,
+      requests_per_second: endpoint.requests / duration,
+      throughput: (endpoint.requests - endpoint.errors) / duration,
+      avg_response_time: endpoint.latency.mean(),
+      percentile_50: endpoint.latency.percentile(50),
+      percentile_90: endpoint.latency.percentile(90),
+      percentile_95: endpoint.latency.percentile(95),
+      percentile_99: endpoint.latency.percentile(99),
+      max_response_time: endpoint.latency.max,
+      bytes: endpoint.bytes,
+      avg_bytes: endpoint.bytes / endpoint.requests,
+    }))
+    const timeline = this.timeline(duration)
+
+    return {
+      requests_per_second: requests / duration,
+      avg_response_time: latency.mean(),
+      // A run that sent nothing counts as fully failed
+      error_rate: requests > 0 ? (errors / requests) * 100 : 100,
+      throughput: (requests - errors) / duration, // Successful requests per second
+      percentile_50: latency.percentile(50),
+      percentile_90: latency.percentile(90),
+      percentile_95: latency.percentile(95),
+      percentile_99: latency.percentile(99),
+      min_response_time: latency.min,
+      max_response_time: latency.max,
+      total_requests: requests,
+      failed_requests: errors,
+      bytes: this.overall.bytes,
+      duration,
+      vusers,
+      error_details: [...this.errors.entries()].map(([type, detail]) => ({
+        type,
+        category: detail.category,
+        count: detail.count,
+        ...(detail.sample !== undefined && { sample: detail.sample }),
+      })),
+      endpoint_metrics: endpointMetrics,
+      bucket_seconds: this.bucketSeconds,
+      timeline,
+      response_time_over_time: timeline.map(bucket => bucket.avg_response_time),
+      throughput_over_time: timeline.map(bucket => bucket.requests_per_second),
+      error_rate_over_time: timeline.map(bucket => bucket.error_rate),
+    };
+  }
+
+  private countError(category: ErrorCategory, type: string, sample?: unknown) {
+    const detail = this.errors.get(type) || { category, count: 0, sample };
+    detail.count++;
+    this.errors.set(type, detail);
+  }
+
+  private interval(timestamp: number): IntervalCounters {
+    let index = Math.max(Math.floor((timestamp - this.startTime!) / 1000 / this.bucketSeconds), 0);
+    if (index >= MAX_TIMELINE_BUCKETS) {
+      this.widenIntervals(widenFactor(index));
+      index = Math.floor((timestamp - this.startTime!) / 1000 / this.bucketSeconds);
+    }
+
+    if (!this.intervals.has(index)) {
+      this.intervals.set(index, { ...emptyCounters(), activeVus: 0 });
+    }
+    return this.intervals.get(index)!;
+  }
+
+  // Multiply the bucket width by factor, merging neighbouring buckets; each keeps its peak VUs
+  private widenIntervals(factor: number) {
+    const merged = new Map<number, IntervalCounters>();
+    for (const [oldIndex, counters] of this.intervals) {
+      const newIndex = Math.floor(oldIndex / factor);
+      const target = merged.get(newIndex);
+      if (!target) {
+        merged.set(newIndex, counters);
+        continue;
+      }
+      addCounters(target, counters);
+      target.activeVus = Math.max(target.activeVus, counters.activeVus);
+    }
+
+    this.intervals = merged;
+    this.bucketSeconds *= factor;
+  }
+
+  private timeline(duration: number): TimelineBucket[] {
+    const bucketCount = Math.max(
+      1,
+      Math.min(Math.ceil(duration / this.bucketSeconds), MAX_TIMELINE_BUCKETS),
+      ...[...this.intervals.keys()].map(index => index + 1)
+    );
+
+    return Array.from({ length: bucketCount }, (_, index) => {
+      const interval = this.intervals.get(index) || { ...emptyCounters(), activeVus: 0 };
+      // The last bucket may be shorter than the rest
+      const span = Math.min(this.bucketSeconds, Math.max(duration - index * this.bucketSeconds, 1));
+
+      return {
+        time: index * this.bucketSeconds,
+        requests: interval.requests,
+        errors: interval.errors,
+        requests_per_second: interval.requests / span,
+        error_rate: interval.requests > 0 ? (interval.errors / interval.requests) * 100 : 0,
+        avg_response_time: interval.latency.mean(),
+        percentile_50: interval.latency.percentile(50),
+        percentile_95: interval.latency.percentile(95),
+        percentile_99: interval.latency.percentile(99),
+        active_vus: interval.activeVus,
+      };
+    });
+  }
+}
+
+// Power of two that brings index under MAX_TIMELINE_BUCKETS
+function widenFactor(index: number): number {
+  let factor = 1
+  while (Math.floor(index / factor) >= MAX_TIMELINE_BUCKETS) factor *= 2
+  return factor
+}
+
+// Keeps ${var} placeholders readable instead of percent-encoded
+export function endpointPath(url: string): string {
+  try {
+    return decodeURI(new URL(url).pathname)
+  } catch {
+    return url
+  }
+}
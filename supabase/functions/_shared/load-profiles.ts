@@ -0,0 +1,212 @@
+// supabase/functions/_shared/load-profiles.ts
+// Open-model load profiles (jmeter_config.profile) compiled into arrival-rate schedules
+
+export type LoadProfileType = 'closed' | 'constant_arrival_rate' | 'stages' | 'spike' | 'soak' | 'step'
+
+export const LOAD_PROFILE_TYPES: LoadProfileType[] = ['closed', 'constant_arrival_rate', 'stages', 'spike', 'soak', 'step']
+
+// The rate moves linearly from the previous stage's target to this one; duration 0 jumps
+export interface LoadStage {
+  duration: number;
+  target: number;
+}
+
+// Shape of jmeter_config.profile. Durations are seconds, rates are requests per second.
+export interface LoadProfile {
+  type: LoadProfileType;
+  rate?: number;
+  duration?: number;
+  stages?: LoadStage[];
+  baseline_rate?: number;
+  spike_rate?: number;
+  spike_at?: number;
+  spike_duration?: number;
+  start_rate?: number;
+  step_rate?: number;
+  step_duration?: number;
+  steps?: number;
+  // Requests allowed in flight at once; arrivals beyond it are dropped. Defaults to threads.
+  max_vus?: number;
+}
+
+export interface ArrivalSchedule {
+  type: Exclude<LoadProfileType, 'closed'>;
+  stages: LoadStage[];
+  duration: number;
+  maxVUs: number;
+}
+
+// Time the spike profile takes to climb to and fall from its peak
+const SPIKE_RAMP_SECONDS = 5
+const DEFAULT_SOAK_DURATION = 3600
+
+// Resolve the profile for a run. A closed model (fixed threads) returns null;
+// target_tps without a profile runs at that constant rate after the ramp-up.
+export function resolveArrivalSchedule(
+  profile: LoadProfile | undefined,
+  defaults: { threads: number; rampUp: number; duration: number; targetTps?: number }
+): ArrivalSchedule | null {
+  const type = profile?.type || (defaults.targetTps ? 'constant_arrival_rate' : 'closed')
+  if (type === 'closed') return null
+
+  const stages = buildStages(type, profile || { type }, defaults)
+  if (stages.length === 0 || stages.some(stage => !(stage.duration >= 0) || !(stage.target >= 0))) {
+    throw new Error(`Invalid ${type} load profile: durations and rates must be non-negative numbers`)
+  }
+
+  const duration = stages.reduce((sum, stage) => sum + stage.duration, 0)
+  if (duration <= 0) {
+    throw new Error(`Invalid ${type} load profile: total duration must be positive`)
+  }
+
+  return {
+    type,
+    stages,
+    duration,
+    maxVUs: Math.max(1, Math.floor(Number(profile?.max_vus) || defaults.threads)),
+  }
+}
+
+function buildStages(
+  type: Exclude<LoadProfileType, 'closed'>,
+  profile: LoadProfile,
+  defaults: { rampUp: number; duration: number; targetTps?: number }
+): LoadStage[] {
+  switch (type) {
+    case 'constant_arrival_rate': {
+      const { rate } = resolveRates(profile, defaults.targetTps)
+      const duration = Number(profile.duration ?? defaults.duration)
+      const rampUp = Math.min(defaults.rampUp, duration)
+      return [
+        { duration: rampUp, target: rate },
+        { duration: duration - rampUp, target: rate },
+      ]
+    }
+    case 'soak': {
+      const { rate } = resolveRates(profile, defaults.targetTps)
+      const duration = Number(profile.duration ?? DEFAULT_SOAK_DURATION)
+      const rampUp = Math.min(defaults.rampUp, duration)
+      return [
+        { duration: rampUp, target: rate },
+        { duration: duration - rampUp, target: rate },
+      ]
+    }
+    case 'stages':
+      return (profile.stages || []).map(stage => ({
+        duration: Number(stage.duration),
+        target: Number(stage.target),
+      }))
+    case 'spike': {
+      const { baseline_rate: baseline, spike_rate: peak } = resolveRates(profile, defaults.targetTps)
+      const duration = Number(profile.duration ?? defaults.duration)
+      const spikeAt = Number(profile.spike_at ?? duration / 3)
+      const spikeDuration = Number(profile.spike_duration ?? 30)
+      return [
+        { duration: 0, target: baseline },
+        { duration: spikeAt, target: baseline },
+        { duration: SPIKE_RAMP_SECONDS, target: peak },
+        { duration: spikeDuration, target: peak },
+        { duration: SPIKE_RAMP_SECONDS, target: baseline },
+        { duration: Math.max(duration - spikeAt - spikeDuration - 2 * SPIKE_RAMP_SECONDS, 0), target: baseline },
+      ]
+    }
+    case 'step': {
+      const { start_rate: start, step_rate: increment } = resolveRates(profile, defaults.targetTps)
+      const stepDuration = Number(profile.step_duration ?? 60)
+      const steps = Math.max(1, Math.floor(Number(profile.steps ?? 5)))
+      return Array.from({ length: steps }, (_, i) => [
+        { duration: 0, target: start + i * increment },
+        { duration: stepDuration, target: start + i * increment },
+      ]).flat()
+    }
+  }
+}
+
+// The rates a profile runs at once its defaults are filled in
+function resolveRates(profile: LoadProfile, targetTps?: number) {
+  const baseline = Number(profile.baseline_rate ?? 1)
+  const start = Number(profile.start_rate ?? 1)
+  return {
+    rate: Number(profile.rate ?? targetTps),
+    baseline_rate: baseline,
+    spike_rate: Number(profile.spike_rate ?? baseline * 10),
+    start_rate: start,
+    step_rate: Number(profile.step_rate ?? start),
+  }
+}
+
+// Target arrival rate at a point in the run
+export function rateAt(schedule: ArrivalSchedule, elapsedSeconds: number): number {
+  let offset = 0
+  let previous = 0
+  for (const stage of schedule.stages) {
+    if (elapsedSeconds < offset + stage.duration) {
+      return previous + (stage.target - previous) * ((elapsedSeconds - offset) / stage.duration)
+    }
+    offset += stage.duration
+    previous = stage.target
+  }
+  return 0
+}
+
+// Requests the schedule calls for between the start and elapsedSeconds
+export function expectedArrivals(schedule: ArrivalSchedule, elapsedSeconds: number): number {
+  let offset = 0
+  let previous = 0
+  let total = 0
+  for (const stage of schedule.stages) {
+    const span = Math.min(Math.max(elapsedSeconds - offset, 0), stage.duration)
+    if (span > 0) {
+      const endRate = previous + (stage.target - previous) * (span / stage.duration)
+      total += ((previous + endRate) / 2) * span
+    }
+    offset += stage.duration
+    previous = stage.target
+  }
+  return total
+}
+
+// Offset in seconds at which the nth request (0-based) is due, or null once the schedule is over
+export function arrivalOffset(schedule: ArrivalSchedule, n: number): number | null {
+  let offset = 0
+  let previous = 0
+  let cumulative = 0
+  for (const stage of schedule.stages) {
+    const stageArrivals = ((previous + stage.target) / 2) * stage.duration
+    if (stage.duration > 0 && cumulative + stageArrivals > n) {
+      // Solve cumulative + r0*t + (r1 - r0)*t^2 / (2*d) = n for t
+      const a = (stage.target - previous) / (2 * stage.duration)
+      const b = previous
+      const c = cumulative - n
+      const t = Math.abs(a) < 1e-9 ? -c / b : (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a)
+      return offset + t
+    }
+    cumulative += stageArrivals
+    offset += stage.duration
+    previous = stage.target
+  }
+  return null
+}
+
+// Share of a profile for one of several agents generating the load together. Defaults are
+// resolved first: a shard left to default its rates would run the whole run's rate by itself.
+export function scaleLoadProfile(profile: LoadProfile, factor: number, targetTps?: number): LoadProfile {
+  const rates = resolveRates(profile, targetTps)
+  const scale = (value: number) => Number.isNaN(value) ? undefined : value * factor
+
+  return {
+    ...profile,
+    rate: scale(rates.rate),
+    baseline_rate: scale(rates.baseline_rate),
+    spike_rate: scale(rates.spike_rate),
+    start_rate: scale(rates.start_rate),
+    step_rate: scale(rates.step_rate),
+    stages: profile.stages?.map(stage => ({ ...stage, target: Number(stage.target) * factor })),
+    max_vus: profile.max_vus === undefined ? undefined : Math.max(1, Math.ceil(profile.max_vus * factor)),
+  }
+}
+
+export function describeSchedule(schedule: ArrivalSchedule): string {
+  const peak = Math.max(...schedule.stages.map(stage => stage.target))
+  return `${schedule.type} profile, peak ${peak} req/s over ${schedule.duration}s, up to ${schedule.maxVUs} concurrent requests`
+}
@@ -0,0 +1,325 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/load-runner.ts
+// HTTP load engine shared by execute-load-tests and standalone load agents
+
+import { type CancellationToken } from './cancellation.ts'
+import { LoadMetricsCollector } from './load-metrics.ts'
+import {
+  arrivalOffset,
+  describeSchedule,
+  expectedArrivals,
+  rateAt,
+  resolveArrivalSchedule
+} from './load-profiles.ts'
+import {
+  evaluateHttpAssertions,
+  hasStatusAssertion,
+  needsResponseBody
+} from './http-assertions.ts'
+import { applyExtractors, extractorsNeedBody, normalizeExtractors, resolveRequest } from './variables.ts'
+import { DatasetCursor, type DataRow } from './datasets.ts'
+
+// Run local load test using concurrent HTTP requests. Agents pass their own collector
+// so they can report partial snapshots while the test runs.
+export async function runLocalLoadTest(
+  config: any, 
+  onProgress: (update: any) => void, 
+  testCaseId: string,
+  cancellation: CancellationToken,
+  collector?: LoadMetricsCollector
+): Promise<any> {
+  const {
+    threads = 10,
+    rampUp = 60,
+    duration: configuredDuration = 300,
+    endpoints = []
+  } = config;
+
+  if (endpoints.length === 0) {
+    throw new Error('No endpoints configured for load test');
+  }
+
+  // Open-model profiles schedule arrivals at a target rate; otherwise threads loop back to back
+  const schedule = resolveArrivalSchedule(config.profile, {
+    threads,
+    rampUp,
+    duration: configuredDuration,
+    targetTps: config.target_tps
+  });
+  const duration = schedule ? schedule.duration : configuredDuration;
+
+  const startTime = Date.now();
+  const endTime = startTime + (duration * 1000);
+  // Samples are folded into histograms as they arrive rather than kept
+  const metrics = collector || new LoadMetricsCollector(startTime);
+
+  let activeThreads = 0;
+  let completedRequests = 0;
+  let errorCount = 0;
+  // Arrivals skipped because every virtual user was still busy
+  let droppedRequests = 0;
+
+  // Progress tracking
+  let lastProgressUpdate = Date.now();
+  const progressInterval = 5000; // Update every 5 seconds
+
+  // Busy virtual users, sampled once a second for the timeline
+  const vuSampler = setInterval(() => metrics.recordActiveVus(activeThreads), 1000);
+
+  // Rows of the bound dataset fill ${column} variables; unique selection ends the run once they are used up
+  const cursor = config.dataset ? new DatasetCursor(config.dataset) : null;
+  let datasetExhausted = false;
+  const nextRow = (): DataRow | null => {
+    const row = cursor!.next();
+    if (!row && !datasetExhausted) {
+      datasetExhausted = true;
+      onProgress({
+        type: 'load_test_warning',
+        testCaseId,
+        message: `Every row of dataset ${config.dataset.name} has been used; virtual users stop as they finish`
+      });
+    }
+    return row;
+  };
+
+  // Variables belong to one virtual user; metrics keep the endpoint's templated URL
+  const sendRequest = async (endpoint: any, variables: Record<string, string>) => {
+    const requestStart = Date.now();
+    
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
+
+      const request = resolveRequest(endpoint, variables);
+      const response = await fetch(request.url, {
+        method: endpoint.method || 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'QA-Autopilot-LoadTest/1.0',
+          ...request.headers
+        },
+        // Imported and generated bodies are already serialized
+        body: request.body
+          ? typeof request.body === 'string' ? request.body : JSON.stringify(request.body)
+          : undefined,
+        signal: controller.signal
+      });
+
+      const responseTime = Date.now() - requestStart;
+      const assertions = endpoint.assertions;
+      const extractors = normalizeExtractors(endpoint.extractors);
+      // Unread bodies are released so the connection can be reused
+      const body = needsResponseBody(assertions) || extractorsNeedBody(extractors) ? await response.text() : undefined;
+      if (body === undefined) await response.body?.cancel();
+      clearTimeout(timeoutId);
+      applyExtractors(extractors, { headers: response.headers, body }, variables);
+
+      const assertionFailures = evaluateHttpAssertions(assertions, {
+        status: response.status,
+        responseTime,
+        headers: response.headers,
+        body
+      });
+      const success = (hasStatusAssertion(assertions) || response.ok) && assertionFailures.length === 0;
+
+      metrics.record({
+        timestamp: requestStart,
+        responseTime,
+        success,
+        statusCode: response.status,
+        assertionFailures,
+        // From Content-Length when the body is not read
+        bytes: body !== undefined
+          ? new TextEncoder().encode(body).length
+          : Number(response.headers.get('content-length')) || 0,
+        url: endpoint.url,
+        method: endpoint.method || 'GET'
+      });
+
+      completedRequests++;
+      if (!success) errorCount++;
+
+    } catch (error) {
+      const responseTime = Date.now() - requestStart;
+      
+      metrics.record({
+        timestamp: requestStart,
+        responseTime,
+        success: false,
+        error: error.message,
+        url: endpoint.url,
+        method: endpoint.method || 'GET'
+      });
+
+      completedRequests++;
+      errorCount++;
+    }
+
+    // Update progress periodically
+    if (Date.now() - lastProgressUpdate > progressInterval) {
+      const elapsed = (Date.now() - startTime) / 1000;
+      const progress = Math.min((elapsed / duration) * 100, 100);
+      const targetRate = schedule ? ` at ${rateAt(schedule, elapsed).toFixed(1)} req/s target` : '';
+      
+      onProgress({
+        type: 'load_test_progress',
+        testCaseId,
+        progress: Math.round(progress),
+        activeThreads,
+        completedRequests,
+        errorCount,
+        droppedRequests,
+        message: `Progress: ${Math.round(progress)}% - ${completedRequests} requests, ${errorCount} errors${targetRate}`
+      });
+      
+      lastProgressUpdate = Date.now();
+    }
+  };
+
+  // Extracted values only reach later requests within one iteration, so under a profile correlated
+  // endpoints (extractors, HAR/Postman imports) run as a whole chain per arrival
+  const chained = endpoints.length > 1 && endpoints.some((endpoint: any) => normalizeExtractors(endpoint.extractors).length > 0);
+  const requestsPerArrival = chained ? endpoints.length : 1;
+
+  if (schedule) {
+    onProgress({
+      type: 'load_test_profile',
+      testCaseId,
+      profile: schedule,
+      message: `Running ${describeSchedule(schedule)}`
+    });
+
+    const inFlight = new Set<Promise<void>>();
+
+    if (chained) {
+      onProgress({
+        type: 'load_test_warning',
+        testCaseId,
+        message: `Endpoints pass extracted variables to each other, so every arrival runs all ${endpoints.length} requests in order; the profile rate counts iterations`
+      });
+    }
+
+    const runChain = async (variables: Record<string, string>) => {
+      for (const endpoint of endpoints) {
+        if (endpoint.think_time_ms > 0) {
+          await new Promise(r => setTimeout(r, Math.min(endpoint.think_time_ms, Math.max(endTime - Date.now(), 0))));
+        }
+        if (Date.now() >= endTime || await cancellation.isCancelled()) break;
+        await sendRequest(endpoint, variables);
+      }
+    };
+
+    for (let arrival = 0; ; arrival++) {
+      const offset = arrivalOffset(schedule, arrival);
+      if (offset === null || await cancellation.isCancelled()) break;
+
+      const delay = startTime + offset * 1000 - Date.now();
+      if (delay > 0) {
+        await new Promise(r => setTimeout(r, delay));
+      }
+      if (Date.now() >= endTime) break;
+
+      // Every arrival is its own iteration, whatever the dataset scope
+      const row = cursor ? nextRow() : null;
+      if (cursor && !row) break;
+
+      if (inFlight.size >= schedule.maxVUs) {
+        if (droppedRequests === 0) {
+          onProgress({
+            type: 'load_test_warning',
+            testCaseId,
+            message: `Could not keep up with ${rateAt(schedule, offset).toFixed(1)} req/s: all ${schedule.maxVUs} virtual users are busy, dropping requests`
+          });
+        }
+        droppedRequests += requestsPerArrival;
+        continue;
+      }
+
+      // Uncorrelated endpoints take turns so each arrival is a single request
+      activeThreads = inFlight.size + 1;
+      const request = (chained
+        ? runChain({ ...row })
+        : sendRequest(endpoints[arrival % endpoints.length], { ...row })
+      ).finally(() => {
+        inFlight.delete(request);
+        activeThreads = inFlight.size;
+      });
+      inFlight.add(request);
+    }
+
+    await Promise.all(inFlight);
+  } else {
+    const rampUpInterval = (rampUp * 1000) / threads;
+    const workers: Promise<void>[] = [];
+
+    // Start threads gradually during ramp-up
+    for (let i = 0; i < threads; i++) {
+      const threadDelay = i * rampUpInterval;
+      
+      const worker = (async () => {
+        // Wait for ramp-up delay
+        if (threadDelay > 0) {
+          await new Promise(r => setTimeout(r, threadDelay));
+        }
+
+        const variables: Record<string, string> = {};
+        if (cursor?.scope === 'vu') {
+          const row = nextRow();
+          if (!row) return;
+          Object.assign(variables, row);
+        }
+
+        activeThreads++;
+        
+        // Keep making requests until duration is reached or the run is cancelled
+        while (Date.now() < endTime && !(await cancellation.isCancelled())) {
+          if (cursor?.scope === 'iteration') {
+            const row = nextRow();
+            if (!row) break;
+            Object.assign(variables, row);
+          }
+
+          for (const endpoint of endpoints) {
+            // Think time recorded before this request, as a user paused in the original session
+            if (endpoint.think_time_ms > 0) {
+              await new Promise(r => setTimeout(r, Math.min(endpoint.think_time_ms, endTime - Date.now())));
+            }
+            if (Date.now() >= endTime || await cancellation.isCancelled()) break;
+
+            await sendRequest(endpoint, variables);
+
+            // Small delay between requests in same thread to avoid overwhelming
+            await new Promise(r => setTimeout(r, 100));
+          }
+        }
+
+        activeThreads--;
+      })();
+
+      workers.push(worker);
+    }
+
+    // Wait for all workers to complete
+    await Promise.all(workers);
+  }
+
+  clearInterval(vuSampler);
+
+  // Rates over a cancelled test use the time it actually ran
+  const elapsedSeconds = Math.min((Date.now() - startTime) / 1000, duration);
+
+  // Calculate final metrics
+  const summary = metrics.summarize(Math.max(elapsedSeconds, 1), schedule ? schedule.maxVUs : threads);
+  if (!schedule) return summary;
+
+  // Compare what the profile asked for with what was actually sent
+  const targetRequests = Math.round(expectedArrivals(schedule, elapsedSeconds)) * requestsPerArrival;
+  return {
+    ...summary,
+    profile: schedule,
+    target_requests: targetRequests,
+    target_rps: targetRequests / Math.max(elapsedSeconds, 1),
+    dropped_requests: droppedRequests,
+    kept_up: droppedRequests === 0
+  };
+}
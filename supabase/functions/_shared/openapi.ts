@@ -0,0 +1,284 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/openapi.ts
+// Reads OpenAPI 3 / Swagger 2 documents into concrete requests with example bodies
+
+import { parse as parseYaml } from 'https://deno.land/std@0.224.0/yaml/mod.ts'
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const
+
+export interface ApiOperation {
+  method: string;
+  // Path with parameters filled in from examples, plus required query parameters
+  url: string;
+  // Templated path as documented, e.g. /users/{id}
+  path: string;
+  name: string;
+  body?: string;
+  headers: Record<string, string>;
+  // First documented 2xx response, or "2xx" when the spec lists none
+  successStatus: string;
+  // Top-level fields the success response schema marks as required
+  responseFields: string[];
+}
+
+export interface ApiSpec {
+  title: string;
+  version: string;
+  // From servers[0] (OpenAPI 3) or schemes/host/basePath (Swagger 2); may be relative or empty
+  baseUrl: string;
+  operations: ApiOperation[];
+}
+
+// Deeper schemas are cut off so recursive models still produce finite examples
+const MAX_EXAMPLE_DEPTH = 5
+
+export function parseApiDocument(content: string): any {
+  const text = content.trim()
+  try {
+    return text.startsWith('{') ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    throw new Error(`Could not parse API document: ${error.message}`)
+  }
+}
+
+export function readApiSpec(document: any): ApiSpec {
+  const isSwagger = typeof document?.swagger === 'string' && document.swagger.startsWith('2')
+  const isOpenApi = typeof document?.openapi === 'string' && document.openapi.startsWith('3')
+  if (!isSwagger && !isOpenApi) {
+    throw new Error('Not an OpenAPI 3 or Swagger 2 document')
+  }
+
+  const operations: ApiOperation[] = []
+  for (const [path, pathItem] of Object.entries<any>(document.paths || {})) {
+    const resolvedItem = resolveRef(document, pathItem) || {}
+    for (const method of HTTP_METHODS) {
+      const operation = resolvedItem[method]
+      if (!operation) continue
+
+      // Path-level parameters apply unless the operation overrides them by name and location
+      const parameters = mergeParameters(
+        (resolvedItem.parameters || []).map((parameter: any) => resolveRef(document, parameter)),
+        (operation.parameters || []).map((parameter: any) => resolveRef(document, parameter))
+      )
+
+      operations.push(isSwagger
+        ? readSwaggerOperation(document, method, path, operation, parameters)
+        : readOpenApiOperation(document, method, path, operation, parameters))
+    }
+  }
+
+  return {
+    title: document.info?.title || 'API',
+    version: document.info?.version || '',
+    baseUrl: isSwagger ? swaggerBaseUrl(document) : (document.servers?.[0]?.url || '').replace(/\/$/, ''),
+    operations,
+  }
+}
+
+function swaggerBaseUrl(document: any): string {
+  const basePath = (document.basePath || '').replace(/\/$/, '')
+  if (!document.host) return basePath
+  const scheme = document.schemes?.includes('https') ? 'https' : document.schemes?.[0] || 'https'
+  return `${scheme}://${document.host}${basePath}`
+}
+
+function readOpenApiOperation(document: any, method: string, path: string, operation: any, parameters: any[]): ApiOperation {
+  const requestBody = resolveRef(document, operation.requestBody)
+  const [contentType, media] = pickJsonContent(requestBody?.content)
+  const body = media
+    ? media.example ?? firstExample(media.examples, document) ?? exampleFromSchema(document, media.schema)
+    : undefined
+
+  const [status, response] = successResponse(document, operation.responses)
+  const [, responseMedia] = pickJsonContent(response?.content)
+
+  return {
+    method: method.toUpperCase(),
+    url: fillPath(path, parameters, document),
+    path,
+    name: operationName(method, path, operation),
+    ...(body !== undefined && { body: serializeBody(body, contentType) }),
+    headers: {
+      ...(body !== undefined && { 'Content-Type': contentType || 'application/json' }),
+      ...headerParameters(parameters, document),
+    },
+    successStatus: status,
+    responseFields: requiredFields(document, responseMedia?.schema),
+  }
+}
+
+function readSwaggerOperation(document: any, method: string, path: string, operation: any, parameters: any[]): ApiOperation {
+  const bodyParameter = parameters.find(parameter => parameter.in === 'body')
+  const formParameters = parameters.filter(parameter => parameter.in === 'formData')
+  const consumes: string[] = operation.consumes || document.consumes || []
+
+  let body: any
+  let contentType: string | undefined
+  if (bodyParameter) {
+    body = bodyParameter['x-example'] ?? exampleFromSchema(document, bodyParameter.schema)
+    contentType = consumes.find(type => type.includes('json')) || 'application/json'
+  } else if (formParameters.length > 0) {
+    body = Object.fromEntries(formParameters.map(parameter => [parameter.name, parameterExample(parameter, document)]))
+    contentType = 'application/x-www-form-urlencoded'
+  }
+
+  const [status, response] = successResponse(document, operation.responses)
+
+  return {
+    method: method.toUpperCase(),
+    url: fillPath(path, parameters, document),
+    path,
+    name: operationName(method, path, operation),
+    ...(body !== undefined && { body: serializeBody(body, contentType) }),
+    headers: {
+      ...(body !== undefined && { 'Content-Type': contentType! }),
+      ...headerParameters(parameters, document),
+    },
+    successStatus: status,
+    responseFields: requiredFields(document, response?.schema),
+  }
+}
+
+function operationName(method: string, path: string, operation: any): string {
+  return operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`
+}
+
+function mergeParameters(pathLevel: any[], operationLevel: any[]): any[] {
+  const key = (parameter: any) => `${parameter?.in}:${parameter?.name}`
+  const overridden = new Set(operationLevel.map(key))
+  return [...pathLevel.filter(parameter => !overridden.has(key(parameter))), ...operationLevel].filter(Boolean)
+}
+
+function fillPath(path: string, parameters: any[], document: any): string {
+  const filled = path.replace(/\{([^}]+)\}/g, (_, name) => {
+    const parameter = parameters.find(candidate => candidate.in === 'path' && candidate.name === name)
+    return encodeURIComponent(String(parameter ? parameterExample(parameter, document) : 1))
+  })
+
+  const query = parameters
+    .filter(parameter => parameter.in === 'query' && parameter.required)
+    .map(parameter => `${encodeURIComponent(parameter.name)}=${encodeURIComponent(String(parameterExample(parameter, document)))}`)
+
+  return query.length > 0 ? `${filled}?${query.join('&')}` : filled
+}
+
+// Required headers other than the ones the runners manage themselves
+function headerParameters(parameters: any[], document: any): Record<string, string> {
+  return Object.fromEntries(parameters
+    .filter(parameter => parameter.in === 'header' && parameter.required && !/^(content-type|accept|authorization)$/i.test(parameter.name))
+    .map(parameter => [parameter.name, String(parameterExample(parameter, document))]))
+}
+
+function parameterExample(parameter: any, document: any): any {
+  return parameter.example
+    ?? parameter['x-example']
+    ?? firstExample(parameter.examples, document)
+    // Swagger 2 declares the type on the parameter itself
+    ?? exampleFromSchema(document, parameter.schema || parameter)
+}
+
+function successResponse(document: any, responses: any): [string, any] {
+  const codes = Object.keys(responses || {}).filter(code => /^2(\d\d|XX)$/i.test(code)).sort()
+  if (codes.length === 0) return ['2xx', undefined]
+  return [codes[0].toLowerCase(), resolveRef(document, responses[codes[0]])]
+}
+
+function pickJsonContent(content: any): [string | undefined, any] {
+  if (!content) return [undefined, undefined]
+  const types = Object.keys(content)
+  const type = types.find(candidate => /json/i.test(candidate)) ||
+    types.find(candidate => candidate === 'application/x-www-form-urlencoded') ||
+    types[0]
+  return type ? [type, content[type]] : [undefined, undefined]
+}
+
+function firstExample(examples: any, document: any): any {
+  const first = examples && Object.values(examples)[0]
+  return first ? resolveRef(document, first)?.value : undefined
+}
+
+function serializeBody(body: any, contentType?: string): string {
+  if (typeof body === 'string') return body
+  if (contentType === 'application/x-www-form-urlencoded' && body && typeof body === 'object') {
+    return new URLSearchParams(Object.entries(body).map(([key, value]) => [key, String(value)])).toString()
+  }
+  return JSON.stringify(body)
+}
+
+function requiredFields(document: any, schema: any): string[] {
+  const resolved = resolveRef(document, schema)
+  if (!resolved) return []
+  const parts = [resolved, ...(resolved.allOf || []).map((part: any) => resolveRef(document, part))]
+  return [...new Set(parts.flatMap(part => Array.isArray(part?.required) ? part.required : []))] as string[]
+}
+
+// Local references only (#/components/..., #/definitions/...)
+export function resolveRef(document: any, value: any, seen = new Set<string>()): any {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') return value
+
+  const ref: string = value.$ref
+  if (!ref.startsWith('#/') || seen.has(ref)) return undefined
+  seen.add(ref)
+
+  const target = ref.slice(2).split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((node, part) => node?.[part], document)
+  return resolveRef(document, target, seen)
+}
+
+// Example value for a schema: explicit example, default or enum first, else one built from its type
+export function exampleFromSchema(document: any, schema: any, depth = 0): any {
+  const resolved = resolveRef(document, schema)
+  if (!resolved || depth > MAX_EXAMPLE_DEPTH) return undefined
+
+  if (resolved.example !== undefined) return resolved.example
+  if (resolved.default !== undefined) return resolved.default
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) return resolved.enum[0]
+
+  if (resolved.allOf) {
+    return Object.assign({}, ...resolved.allOf.map((part: any) => exampleFromSchema(document, part, depth + 1) ?? {}))
+  }
+  if (resolved.oneOf || resolved.anyOf) {
+    return exampleFromSchema(document, (resolved.oneOf || resolved.anyOf)[0], depth + 1)
+  }
+
+  const type = Array.isArray(resolved.type) ? resolved.type.find((candidate: string) => candidate !== 'null') : resolved.type
+  switch (type) {
+    case 'string':
+      return stringExample(resolved)
+    case 'integer':
+      return Math.max(1, Math.ceil(resolved.minimum ?? 1))
+    case 'number':
+      return resolved.minimum ?? 1.5
+    case 'boolean':
+      return true
+    case 'array': {
+      const item = exampleFromSchema(document, resolved.items, depth + 1)
+      return item === undefined ? [] : [item]
+    }
+    case 'object':
+    default: {
+      if (!resolved.properties) return type === 'object' ? {} : undefined
+      return Object.fromEntries(Object.entries<any>(resolved.properties)
+        .filter(([, property]) => !resolveRef(document, property)?.readOnly)
+        .map(([name, property]) => [name, exampleFromSchema(document, property, depth + 1)])
+        .filter(([, value]) => value !== undefined))
+    }
+  }
+}
+
+function stringExample(schema: any): string {
+  switch (schema.format) {
+    case 'email': return 'user@example.com'
+    case 'date': return '2024-01-01'
+    case 'date-time': return '2024-01-01T00:00:00Z'
+    case 'uuid': return '00000000-0000-4000-8000-000000000000'
+    case 'uri':
+    case 'url': return 'https://example.com'
+    case 'password': return 'Password123!'
+    case 'byte': return 'ZXhhbXBsZQ=='
+  }
+
+  const length = Math.max(schema.minLength ?? 0, 6)
+  return 'string'.padEnd(length, 'x').slice(0, schema.maxLength ?? length)
+}
@@ -0,0 +1,37 @@
+// supabase/functions/_shared/pool.ts
+// Bounded-concurrency worker pool
+
+// Run `worker` over `items` with at most `limit` calls in flight.
+// Results keep input order regardless of completion order.
+export async function runPool<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index)
+    }
+  })
+
+  await Promise.all(runners)
+  return results
+}
+
+// Spaces out calls so at most one starts per interval, e.g. to avoid bursts of grid session requests
+export function createThrottle(intervalMs: number): () => Promise<void> {
+  let nextSlot = 0
+
+  return async () => {
+    const now = Date.now()
+    const slot = Math.max(now, nextSlot)
+    nextSlot = slot + intervalMs
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now))
+    }
+  }
+}
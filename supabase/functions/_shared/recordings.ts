@@ -0,0 +1,393 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/recordings.ts
+// Reads HAR recordings and Postman v2.1 collections into request sequences, correlating dynamic values
+
+import { type Extractor } from './variables.ts'
+
+export interface RecordedRequest {
+  name: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  // Pause before this request: the gap after the previous one in a HAR recording
+  thinkTimeMs?: number;
+  // Status the recording or saved example response saw
+  status?: number;
+  // Values later requests reuse, stored as ${name} variables
+  extractors: Extractor[];
+}
+
+export interface Recording {
+  title: string;
+  requests: RecordedRequest[];
+  // Variables introduced by correlation
+  variables: string[];
+}
+
+// Longer recordings are cut off so a whole browsing session does not become one huge test
+const MAX_RECORDED_REQUESTS = 200
+const MAX_THINK_TIME_MS = 30000
+const MAX_CORRELATION_DEPTH = 6
+
+const STATIC_RESOURCE_TYPES = ['image', 'stylesheet', 'script', 'font', 'media', 'manifest', 'ping']
+const STATIC_MIME_PATTERN = /^(image|font|audio|video)\/|css|javascript|wasm/i
+const STATIC_PATH_PATTERN = /\.(png|jpe?g|gif|svg|ico|webp|css|js|mjs|map|woff2?|ttf|eot|mp4|webm)$/i
+
+// Set by the browser or the runner itself; cookies belong to the session, not the request
+const DROPPED_HEADER_PATTERN = /^(:|sec-)|^(host|content-length|connection|cookie|accept-encoding|user-agent|referer|origin|priority|upgrade-insecure-requests|if-none-match|if-modified-since|cache-control|pragma|dnt)$/i
+
+// Response fields worth correlating even when short: identifiers, tokens, keys and session values
+const DYNAMIC_KEY_PATTERN = /(^|[_-])(id|uuid|guid|token|key|session|sid|csrf|xsrf|nonce)$|[a-z](Id|Token|Key|Session)$/
+
+export function parseRecording(content: string, format: 'har' | 'postman'): Recording {
+  let document: any
+  try {
+    document = JSON.parse(content)
+  } catch (error) {
+    throw new Error(`Could not parse ${format === 'har' ? 'HAR file' : 'Postman collection'}: ${error.message}`)
+  }
+  return format === 'har' ? readHar(document) : readPostmanCollection(document)
+}
+
+export function readHar(document: any): Recording {
+  const entries: any[] = document?.log?.entries
+  if (!Array.isArray(entries)) {
+    throw new Error('Not a HAR file: log.entries is missing')
+  }
+
+  const requests: RecordedRequest[] = []
+  const responses: (string | undefined)[] = []
+  let previousEnd: number | undefined
+
+  const sorted = [...entries].sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime))
+  for (const entry of sorted) {
+    if (requests.length >= MAX_RECORDED_REQUESTS) break
+    if (!isApiEntry(entry)) continue
+
+    const started = Date.parse(entry.startedDateTime)
+    const gap = previousEnd !== undefined && Number.isFinite(started) ? started - previousEnd : 0
+    previousEnd = started + Math.max(entry.time || 0, 0)
+
+    const request = entry.request
+    const url = new URL(request.url)
+    const status = entry.response?.status
+
+    requests.push({
+      name: `${request.method} ${url.pathname}`,
+      method: request.method.toUpperCase(),
+      url: request.url,
+      headers: keepHeaders((request.headers || []).map((header: any) => [header.name, header.value])),
+      ...(harBody(request.postData) !== undefined && { body: harBody(request.postData) }),
+      ...(gap > 0 && { thinkTimeMs: Math.min(Math.round(gap), MAX_THINK_TIME_MS) }),
+      ...(status > 0 && { status }),
+      extractors: [],
+    })
+    responses.push(harResponseText(entry.response?.content))
+  }
+
+  if (requests.length === 0) {
+    throw new Error('The HAR file has no API or page requests')
+  }
+
+  const pages = document.log.pages
+  const title = pages?.[0]?.title || new URL(requests[0].url).hostname
+  return { title, requests, variables: correlateValues(requests, responses) }
+}
+
+// Page and XHR/fetch requests; static assets, preflights and browser-internal URLs are left out
+function isApiEntry(entry: any): boolean {
+  const request = entry?.request
+  if (!request?.url || !/^https?:/i.test(request.url)) return false
+  if (String(request.method).toUpperCase() === 'OPTIONS') return false
+
+  if (STATIC_RESOURCE_TYPES.includes(entry._resourceType)) return false
+  const mimeType = entry.response?.content?.mimeType || ''
+  if (STATIC_MIME_PATTERN.test(mimeType)) return false
+  return !STATIC_PATH_PATTERN.test(new URL(request.url).pathname)
+}
+
+function harBody(postData: any): string | undefined {
+  if (!postData) return undefined
+  if (typeof postData.text === 'string' && postData.text !== '') return postData.text
+  if (Array.isArray(postData.params) && postData.params.length > 0) {
+    return new URLSearchParams(postData.params.map((param: any) => [param.name, param.value ?? ''])).toString()
+  }
+  return undefined
+}
+
+function harResponseText(content: any): string | undefined {
+  if (typeof content?.text !== 'string') return undefined
+  if (content.encoding !== 'base64') return content.text
+  try {
+    return new TextDecoder().decode(Uint8Array.from(atob(content.text), char => char.charCodeAt(0)))
+  } catch {
+    return undefined
+  }
+}
+
+export function readPostmanCollection(document: any): Recording {
+  const schema: string = document?.info?.schema || ''
+  if (!schema.includes('collection/v2')) {
+    throw new Error('Not a Postman v2.1 collection: export it as Collection v2.1')
+  }
+
+  // Collection variables are inlined; ones a test script sets become extracted ${variables}
+  const staticValues: Record<string, string> = Object.fromEntries(
+    (document.variable || [])
+      .filter((variable: any) => variable?.key && !variable.disabled)
+      .map((variable: any) => [variable.key, String(variable.value ?? '')])
+  )
+  const items = flattenItems(document.item || [], [], document.auth, document.event)
+  const extracted = new Set(items.flatMap(({ events }) => scriptExtractors(events).map(extractor => extractor.name)))
+
+  const resolve = (value: string) => value.replace(/\{\{([\w.-]+)\}\}/g, (reference, name) =>
+    extracted.has(name) || staticValues[name] === undefined ? `\${${name}}` : staticValues[name])
+
+  const requests: RecordedRequest[] = []
+  const responses: (string | undefined)[] = []
+
+  for (const { item, path, auth, events } of items.slice(0, MAX_RECORDED_REQUESTS)) {
+    const request = typeof item.request === 'string' ? { url: item.request, method: 'GET' } : item.request
+    const headers: [string, string][] = (request.header || [])
+      .filter((header: any) => header?.key && !header.disabled)
+      .map((header: any) => [header.key, resolve(String(header.value ?? ''))])
+
+    const body = postmanBody(request.body, headers)
+    const authHeader = postmanAuthHeader(request.auth || auth)
+    if (authHeader) headers.push([authHeader[0], resolve(authHeader[1])])
+
+    const example = item.response?.[0]
+    requests.push({
+      name: [...path, item.name].filter(Boolean).join(' / ') || 'Request',
+      method: String(request.method || 'GET').toUpperCase(),
+      url: resolve(postmanUrl(request.url)),
+      headers: keepHeaders(headers),
+      ...(body !== undefined && { body: resolve(body) }),
+      ...(example?.code && { status: example.code }),
+      extractors: scriptExtractors(events),
+    })
+    responses.push(typeof example?.body === 'string' ? example.body : undefined)
+  }
+
+  if (requests.length === 0) {
+    throw new Error('The collection has no requests')
+  }
+
+  const variables = [...new Set(requests.flatMap(request => request.extractors.map(extractor => extractor.name)))]
+  return {
+    title: document.info?.name || 'Postman collection',
+    requests,
+    variables: [...variables, ...correlateValues(requests, responses, new Set(variables))],
+  }
+}
+
+interface PostmanEntry {
+  item: any;
+  path: string[];
+  auth: any;
+  events: any[];
+}
+
+// Folders pass their auth and scripts down to the requests inside them
+function flattenItems(items: any[], path: string[], auth: any, events: any[] = []): PostmanEntry[] {
+  return items.flatMap(item => Array.isArray(item?.item)
+    ? flattenItems(item.item, [...path, item.name], item.auth || auth, [...events, ...(item.event || [])])
+    : item?.request ? [{ item, path, auth, events: [...events, ...(item.event || [])] }] : [])
+}
+
+function postmanUrl(url: any): string {
+  if (typeof url === 'string') return url
+  if (url?.raw) return url.raw
+
+  const host = Array.isArray(url?.host) ? url.host.join('.') : url?.host || ''
+  const path = Array.isArray(url?.path) ? url.path.join('/') : url?.path || ''
+  const query = (url?.query || [])
+    .filter((param: any) => param?.key && !param.disabled)
+    .map((param: any) => `${param.key}=${param.value ?? ''}`)
+  return `${url?.protocol ? `${url.protocol}://` : ''}${host}/${path}${query.length > 0 ? `?${query.join('&')}` : ''}`
+}
+
+// Adds the Content-Type the body mode implies when the request does not set one
+function postmanBody(body: any, headers: [string, string][]): string | undefined {
+  if (!body || body.disabled) return undefined
+  const setContentType = (type: string) => {
+    if (!headers.some(([name]) => name.toLowerCase() === 'content-type')) headers.push(['Content-Type', type])
+  }
+
+  switch (body.mode) {
+    case 'raw':
+      if (body.options?.raw?.language === 'json') setContentType('application/json')
+      return body.raw || undefined
+    case 'urlencoded':
+    case 'formdata': {
+      // File parts cannot be replayed, so form data is sent as its text fields
+      const fields = (body[body.mode] || [])
+        .filter((field: any) => field?.key && !field.disabled && field.type !== 'file')
+        .map((field: any) => [field.key, String(field.value ?? '')])
+      setContentType('application/x-www-form-urlencoded')
+      return new URLSearchParams(fields).toString()
+    }
+    case 'graphql':
+      setContentType('application/json')
+      return JSON.stringify({ query: body.graphql?.query || '', variables: parseGraphqlVariables(body.graphql?.variables) })
+    default:
+      return undefined
+  }
+}
+
+function parseGraphqlVariables(variables: string | undefined): any {
+  try {
+    return variables ? JSON.parse(variables) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function postmanAuthHeader(auth: any): [string, string] | undefined {
+  const value = (name: string) => {
+    const entry = (auth?.[auth.type] || []).find((candidate: any) => candidate?.key === name)
+    return entry?.value === undefined ? '' : String(entry.value)
+  }
+
+  switch (auth?.type) {
+    case 'bearer':
+      return ['Authorization', `Bearer ${value('token')}`]
+    case 'basic':
+      // Credentials that come from {{variables}} cannot be encoded ahead of time
+      return value('username').includes('{{') || value('password').includes('{{')
+        ? undefined
+        : ['Authorization', `Basic ${btoa(`${value('username')}:${value('password')}`)}`]
+    case 'apikey':
+      return value('in') === 'query' ? undefined : [value('key') || 'X-API-Key', value('value')]
+    default:
+      return undefined
+  }
+}
+
+// pm.environment.set("token", jsonData.access_token) and friends, where the value is read from the JSON response
+function scriptExtractors(events: any[]): Extractor[] {
+  const script = events
+    .filter(event => event?.listen === 'test')
+    .flatMap(event => Array.isArray(event.script?.exec) ? event.script.exec : [event.script?.exec || ''])
+    .join('\n')
+
+  // Names bound to the parsed response, e.g. `var jsonData = pm.response.json();`
+  const responseNames = new Set(['pm.response.json()', 'JSON.parse(responseBody)'])
+  for (const [, name] of script.matchAll(/(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:pm\.response\.json\(\)|JSON\.parse\(responseBody\))/g)) {
+    responseNames.add(name)
+  }
+
+  const extractors: Extractor[] = []
+  const setter = /pm\.(?:environment|collectionVariables|globals|variables)\.set\(\s*["']([\w.-]+)["']\s*,\s*([^;\n]+?)\s*\)\s*;?\s*$/gm
+  for (const [, name, expression] of script.matchAll(setter)) {
+    const match = expression.match(/^(pm\.response\.json\(\)|JSON\.parse\(responseBody\)|[A-Za-z_$][\w$]*)((?:\.[A-Za-z_$][\w$]*|\[\d+\]|\[["'][^"']+["']\])+)$/)
+    if (!match || !responseNames.has(match[1])) continue
+    extractors.push({ name, type: 'json_path', expression: `$${match[2].replace(/\["([^"]+)"\]/g, "['$1']")}` })
+  }
+  return extractors
+}
+
+function keepHeaders(headers: [string, string][]): Record<string, string> {
+  return Object.fromEntries(headers.filter(([name]) => name && !DROPPED_HEADER_PATTERN.test(name)))
+}
+
+interface CorrelationCandidate {
+  value: string;
+  key: string;
+  path: string;
+  producer: number;
+}
+
+// Values a response hands out and a later request sends back (tokens, created IDs) are replaced
+// with ${variables} and extracted from the response that first returned them
+function correlateValues(requests: RecordedRequest[], responses: (string | undefined)[], taken = new Set<string>()): string[] {
+  const candidates = new Map<string, CorrelationCandidate>()
+
+  for (const [index, text] of responses.entries()) {
+    let document: any
+    try {
+      document = text ? JSON.parse(text) : undefined
+    } catch {
+      continue
+    }
+
+    const own = requestText(requests[index])
+    for (const candidate of jsonLeaves(document, '$', '', '', 0)) {
+      // The first response to return a value owns it; values the request itself sent are echoes
+      if (candidates.has(candidate.value) || containsValue(own, candidate.value)) continue
+      candidates.set(candidate.value, { ...candidate, producer: index })
+    }
+  }
+
+  const variables: string[] = []
+  // Longest first so a value is never replaced inside a longer one
+  for (const candidate of [...candidates.values()].sort((a, b) => b.value.length - a.value.length)) {
+    const consumers = requests
+      .slice(candidate.producer + 1)
+      .filter(request => containsValue(requestText(request), candidate.value))
+    if (consumers.length === 0) continue
+
+    const name = uniqueName(candidate.key, taken)
+    taken.add(name)
+    variables.push(name)
+
+    requests[candidate.producer].extractors.push({ name, type: 'json_path', expression: candidate.path })
+    for (const request of consumers) {
+      const replace = (text: string) => text.replace(valuePattern(candidate.value), `\${${name}}`)
+      request.url = replace(request.url)
+      request.headers = Object.fromEntries(Object.entries(request.headers).map(([header, value]) => [header, replace(value)]))
+      if (request.body !== undefined) request.body = replace(request.body)
+    }
+  }
+
+  return variables
+}
+
+function jsonLeaves(node: any, path: string, key: string, parentKey: string, depth: number): { value: string; key: string; path: string }[] {
+  if (depth > MAX_CORRELATION_DEPTH || node === null || node === undefined) return []
+
+  if (Array.isArray(node)) {
+    return node.flatMap((child, index) => jsonLeaves(child, `${path}[${index}]`, key, parentKey, depth + 1))
+  }
+  if (typeof node === 'object') {
+    return Object.entries(node).flatMap(([childKey, child]) => jsonLeaves(
+      child,
+      /^[A-Za-z_$][\w$]*$/.test(childKey) ? `${path}.${childKey}` : `${path}['${childKey}']`,
+      childKey,
+      key,
+      depth + 1
+    ))
+  }
+
+  const value = String(node)
+  const dynamicKey = DYNAMIC_KEY_PATTERN.test(key)
+  const correlatable = typeof node === 'string'
+    ? (value.length >= 8 && !/\s/.test(value)) || (dynamicKey && value.length >= 3)
+    : typeof node === 'number' && dynamicKey && value.length >= 3
+  if (!correlatable || /^(true|false|null)$/.test(value)) return []
+
+  // A bare "id" is named after the object holding it, e.g. user.id becomes user_id
+  const name = /^(id|uuid|guid|key|token)$/i.test(key) && parentKey ? `${parentKey}_${key}` : key
+  return [{ value, key: name, path }]
+}
+
+function requestText(request: RecordedRequest): string {
+  return [request.url, ...Object.values(request.headers), request.body || ''].join('\n')
+}
+
+function containsValue(text: string, value: string): boolean {
+  return valuePattern(value).test(text)
+}
+
+// Whole values only, so ID 12 does not match inside 123
+function valuePattern(value: string): RegExp {
+  return new RegExp(`(?<![\\w-])${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w-])`, 'g')
+}
+
+function uniqueName(key: string, taken: Set<string>): string {
+  const base = key.replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '') || 'value'
+  let name = base
+  for (let suffix = 2; taken.has(name); suffix++) name = `${base}_${suffix}`
+  return name
+}
@@ -0,0 +1,48 @@
+// supabase/functions/_shared/retry.ts
+// Per-project retry policy for functional tests
+
+export type FailureKind = 'infra' | 'timeout' | 'assertion'
+
+// Shape of projects.settings.retry_policy
+export interface RetryPolicy {
+  max_attempts: number;
+  retry_on: FailureKind[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 1,
+  retry_on: ['infra', 'timeout'],
+}
+
+const MAX_ATTEMPTS = 5
+const FAILURE_KINDS: FailureKind[] = ['infra', 'timeout', 'assertion']
+
+export function resolveRetryPolicy(settings?: Partial<RetryPolicy>): RetryPolicy {
+  const attempts = Math.floor(Number(settings?.max_attempts))
+  const retryOn = Array.isArray(settings?.retry_on)
+    ? settings.retry_on.filter(kind => FAILURE_KINDS.includes(kind))
+    : DEFAULT_RETRY_POLICY.retry_on
+
+  return {
+    max_attempts: Number.isFinite(attempts) && attempts >= 1
+      ? Math.min(attempts, MAX_ATTEMPTS)
+      : DEFAULT_RETRY_POLICY.max_attempts,
+    retry_on: retryOn,
+  }
+}
+
+// Grid and WebDriver transport errors are infra; waits that lapsed are timeouts;
+// everything else means the application did not behave as expected
+export function classifyFailure(error: string): FailureKind {
+  if (/WebDriver \w+ \S+ failed|ECONNRESET|ECONNREFUSED|error sending request|fetch failed/i.test(error)) {
+    return 'infra'
+  }
+  if (/timed out|timeout/i.test(error)) {
+    return 'timeout'
+  }
+  return 'assertion'
+}
+
+export function shouldRetry(policy: RetryPolicy, kind: FailureKind | undefined, attempt: number): boolean {
+  return attempt < policy.max_attempts && !!kind && policy.retry_on.includes(kind)
+}
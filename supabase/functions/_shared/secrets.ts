@@ -0,0 +1,45 @@
+// supabase/functions/_shared/secrets.ts
+// AES-GCM encryption for secrets stored in the database, keyed by the SECRETS_ENCRYPTION_KEY function secret
+
+// Stored as v1.<base64 iv>.<base64 ciphertext>
+const VERSION = 'v1'
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+// Any passphrase works; it is hashed to a 256-bit key
+function encryptionKey(): Promise<CryptoKey> {
+  const passphrase = Deno.env.get('SECRETS_ENCRYPTION_KEY')
+  if (!passphrase) throw new Error('SECRETS_ENCRYPTION_KEY is not configured')
+
+  cachedKey ??= crypto.subtle
+    .digest('SHA-256', new TextEncoder().encode(passphrase))
+    .then(digest => crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt']))
+  return cachedKey
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await encryptionKey(), new TextEncoder().encode(plaintext))
+  return [VERSION, toBase64(iv), toBase64(new Uint8Array(ciphertext))].join('.')
+}
+
+export async function decryptSecret(stored: string): Promise<string> {
+  const [version, iv, ciphertext] = stored.split('.')
+  if (version !== VERSION || !iv || !ciphertext) throw new Error('Stored secret is not in a supported format')
+
+  const key = await encryptionKey()
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext))
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    throw new Error('Stored secret could not be decrypted; was SECRETS_ENCRYPTION_KEY changed?')
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
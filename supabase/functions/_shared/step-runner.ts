@@ -0,0 +1,350 @@
+// supabase/functions/_shared/step-runner.ts
+// Deterministic execution of typed test steps against a WebDriver session
+
+import { ELEMENT_KEY, WebDriverClient } from './webdriver.ts'
+import { describeLocator, describeStep, type Locator, type TestStep } from './steps.ts'
+import type { AssertionResult } from './assertions.ts'
+import { evaluateHttpAssertions, hasStatusAssertion } from './http-assertions.ts'
+import { applyExtractors } from './variables.ts'
+
+export interface StepOutcome {
+  success: boolean;
+  error?: string;
+  failureDetails?: {
+    element: string;
+    expected: string;
+    actual: string;
+    selector: string;
+    page_url: string;
+  };
+}
+
+// One row of test_step_results
+export interface StepResult {
+  index: number;
+  step: string;
+  expected_result?: string;
+  status: 'pass' | 'fail' | 'skip';
+  // Whether any assertion backed this step; unverified steps only prove the action ran
+  verified: boolean;
+  assertions: AssertionResult[];
+  error?: string;
+  duration_ms: number;
+  page_url?: string;
+  screenshot_url?: string;
+  dom_snapshot?: string;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 10000
+const MAX_DOM_SNAPSHOT_LENGTH = 50000
+const POLL_INTERVAL_MS = 250
+
+// W3C key codes for the named keys steps may reference
+const KEY_CODES: Record<string, string> = {
+  Enter: '\uE007',
+  Tab: '\uE004',
+  Escape: '\uE00C',
+  Backspace: '\uE003',
+  Delete: '\uE017',
+  Space: '\uE00D',
+  ArrowUp: '\uE013',
+  ArrowDown: '\uE015',
+  ArrowLeft: '\uE012',
+  ArrowRight: '\uE014',
+}
+
+// Elements that carry an implicit ARIA role
+const IMPLICIT_ROLES: Record<string, string[]> = {
+  button: ['button', "input[@type='submit' or @type='button' or @type='reset']"],
+  link: ['a[@href]'],
+  textbox: ["input[not(@type) or @type='text' or @type='email' or @type='password' or @type='search' or @type='tel' or @type='url']", 'textarea'],
+  checkbox: ["input[@type='checkbox']"],
+  radio: ["input[@type='radio']"],
+  combobox: ['select'],
+  heading: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+  img: ['img'],
+}
+
+// Translate a locator into a WebDriver strategy/value pair
+export function resolveLocator(locator: Locator): { using: string; value: string } {
+  switch (locator.strategy) {
+    case 'css':
+      return { using: 'css selector', value: locator.value }
+    case 'xpath':
+      return { using: 'xpath', value: locator.value }
+    case 'test_id':
+      return { using: 'css selector', value: `[data-testid=${JSON.stringify(locator.value)}]` }
+    case 'text':
+      return { using: 'xpath', value: `//*[contains(normalize-space(text()), ${xpathLiteral(locator.value)})]` }
+    case 'role':
+      return { using: 'xpath', value: roleXPath(locator.value, locator.name) }
+  }
+}
+
+function roleXPath(role: string, name?: string): string {
+  const candidates = [`*[@role=${xpathLiteral(role)}]`, ...(IMPLICIT_ROLES[role] || [])]
+  const nameFilter = name ? `[${accessibleNameMatch(name)}]` : ''
+  return candidates.map(candidate => `//${candidate}${nameFilter}`).join(' | ')
+}
+
+// Case-insensitive match against the text, aria-label, value or title of an element
+function accessibleNameMatch(name: string): string {
+  const lower = xpathLiteral(name.toLowerCase())
+  const fold = (expr: string) => `contains(translate(normalize-space(${expr}), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${lower})`
+  return ['.', '@aria-label', '@value', '@title'].map(fold).join(' or ')
+}
+
+// Quote a string for XPath 1.0, which has no escape sequences
+function xpathLiteral(value: string): string {
+  if (!value.includes("'")) return `'${value}'`
+  if (!value.includes('"')) return `"${value}"`
+  return `concat('${value.split("'").join(`', "'", '`)}')`
+}
+
+// Page HTML without scripts, styles and inline SVG, capped so rows stay small
+export async function captureDomSnapshot(
+  sessionId: string,
+  client: WebDriverClient
+): Promise<string | undefined> {
+  try {
+    const html = (await client.getPageSource(sessionId))
+      .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+      .replace(/<style\b[\s\S]*?<\/style>/gi, '')
+      .replace(/<svg\b[\s\S]*?<\/svg>/gi, '<svg/>')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    return html.length > MAX_DOM_SNAPSHOT_LENGTH
+      ? `${html.slice(0, MAX_DOM_SNAPSHOT_LENGTH)}<!-- truncated -->`
+      : html
+  } catch (error) {
+    console.error('Failed to capture DOM snapshot:', error)
+    return undefined
+  }
+}
+
+export async function locate(
+  sessionId: string,
+  client: WebDriverClient,
+  locator: Locator
+): Promise<string | null> {
+  const { using, value } = resolveLocator(locator)
+  return await client.findElement(sessionId, using, value)
+}
+
+// Poll until the element exists (and is displayed when required)
+async function waitForElement(
+  sessionId: string,
+  client: WebDriverClient,
+  locator: Locator,
+  state: 'present' | 'visible',
+  timeoutMs: number
+): Promise<string | null> {
+  const deadline = Date.now() + timeoutMs
+
+  do {
+    const element = await locate(sessionId, client, locator)
+    if (element && (state === 'present' || await client.isElementDisplayed(sessionId, element))) {
+      return element
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  } while (Date.now() < deadline)
+
+  return null
+}
+
+// Execute a single typed step, already resolved against `variables`; http_request steps add the values they extract
+export async function executeStep(
+  sessionId: string,
+  client: WebDriverClient,
+  step: TestStep,
+  environmentUrl: string,
+  variables: Record<string, string> = {}
+): Promise<StepOutcome> {
+  const selector = 'locator' in step && step.locator ? describeLocator(step.locator) : ''
+
+  const fail = async (error: string, expected = '', actual = ''): Promise<StepOutcome> => ({
+    success: false,
+    error,
+    failureDetails: {
+      element: describeStep(step),
+      expected,
+      actual,
+      selector,
+      page_url: await client.getCurrentUrl(sessionId).catch(() => environmentUrl),
+    }
+  })
+
+  // Actionable steps wait for their target so slow pages do not fail spuriously
+  const target = async (locator: Locator) =>
+    await waitForElement(sessionId, client, locator, 'present', DEFAULT_WAIT_TIMEOUT_MS)
+
+  try {
+    switch (step.type) {
+      case 'navigate': {
+        await client.navigate(sessionId, new URL(step.url, environmentUrl).toString())
+        return { success: true }
+      }
+
+      case 'click': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Element not found: ${selector}`)
+        await client.click(sessionId, element)
+        return { success: true }
+      }
+
+      case 'fill': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Input element not found: ${selector}`)
+        await client.clear(sessionId, element)
+        await client.sendKeys(sessionId, element, step.value)
+        return { success: true }
+      }
+
+      case 'select': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Select element not found: ${selector}`)
+        const literal = xpathLiteral(step.option)
+        const option = await client.findChildElement(
+          sessionId,
+          element,
+          'xpath',
+          `.//option[normalize-space(.)=${literal} or @value=${literal}]`
+        )
+        if (!option) return await fail(`Option not found: ${step.option}`, step.option)
+        await client.click(sessionId, option)
+        return { success: true }
+      }
+
+      case 'hover': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Element not found: ${selector}`)
+        await client.performActions(sessionId, [{
+          type: 'pointer',
+          id: 'mouse',
+          parameters: { pointerType: 'mouse' },
+          actions: [{ type: 'pointerMove', duration: 100, origin: { [ELEMENT_KEY]: element }, x: 0, y: 0 }]
+        }])
+        return { success: true }
+      }
+
+      case 'press_key': {
+        const key = KEY_CODES[step.key] ?? step.key
+        const element = step.locator
+          ? await target(step.locator)
+          : await client.getActiveElement(sessionId)
+        if (step.locator && !element) return await fail(`Element not found: ${selector}`)
+        if (element) {
+          await client.sendKeys(sessionId, element, key)
+        } else {
+          await client.performActions(sessionId, [{
+            type: 'key',
+            id: 'keyboard',
+            actions: [{ type: 'keyDown', value: key }, { type: 'keyUp', value: key }]
+          }])
+        }
+        return { success: true }
+      }
+
+      case 'upload_file': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`File input not found: ${selector}`)
+        // File inputs accept a path on the browser host as keystrokes
+        await client.sendKeys(sessionId, element, step.file_path)
+        return { success: true }
+      }
+
+      case 'assert_text': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Element not found: ${selector}`, step.text)
+        const actual = (await client.getElementText(sessionId, element)).trim()
+        const matches = step.match === 'equals' ? actual === step.text : actual.includes(step.text)
+        if (!matches) return await fail(`Text assertion failed for ${selector}`, step.text, actual)
+        return { success: true }
+      }
+
+      case 'assert_visible': {
+        const expectVisible = step.visible !== false
+        const element = await locate(sessionId, client, step.locator)
+        const visible = element ? await client.isElementDisplayed(sessionId, element) : false
+        if (visible !== expectVisible) {
+          return await fail(
+            `Visibility assertion failed for ${selector}`,
+            expectVisible ? 'visible' : 'hidden',
+            visible ? 'visible' : element ? 'hidden' : 'not found'
+          )
+        }
+        return { success: true }
+      }
+
+      case 'assert_url': {
+        const actual = await client.getCurrentUrl(sessionId)
+        const expected = step.match === 'equals' ? new URL(step.url, environmentUrl).toString() : step.url
+        const matches = step.match === 'equals' ? actual === expected : actual.includes(expected)
+        if (!matches) return await fail('URL assertion failed', expected, actual)
+        return { success: true }
+      }
+
+      case 'assert_attribute': {
+        const element = await target(step.locator)
+        if (!element) return await fail(`Element not found: ${selector}`, step.value)
+        const actual = await client.getElementAttribute(sessionId, element, step.attribute)
+        if (actual !== step.value) {
+          return await fail(`Attribute ${step.attribute} assertion failed for ${selector}`, step.value, actual ?? 'null')
+        }
+        return { success: true }
+      }
+
+      case 'wait_for': {
+        if (!step.locator) {
+          await new Promise(resolve => setTimeout(resolve, step.timeout_ms ?? 1000))
+          return { success: true }
+        }
+        const state = step.state ?? 'visible'
+        const element = await waitForElement(
+          sessionId,
+          client,
+          step.locator,
+          state,
+          step.timeout_ms ?? DEFAULT_WAIT_TIMEOUT_MS
+        )
+        if (!element) return await fail(`Timed out waiting for ${selector}`, state, 'not found')
+        return { success: true }
+      }
+
+      case 'http_request': {
+        // Sent from the executor rather than the browser, so it does not carry the page's cookies
+        const started = Date.now()
+        const response = await fetch(new URL(step.url, environmentUrl), {
+          method: step.method,
+          headers: step.headers,
+          body: step.body
+        })
+        const body = await response.text()
+        const responseTime = Date.now() - started
+        applyExtractors(step.extractors || [], { headers: response.headers, body }, variables)
+
+        const checks = step.checks || []
+        const failures = evaluateHttpAssertions(checks, {
+          status: response.status,
+          responseTime,
+          headers: response.headers,
+          body
+        })
+        if (!hasStatusAssertion(checks) && !response.ok) failures.unshift('response_code 2xx')
+
+        if (failures.length > 0) {
+          return await fail(
+            `Request checks failed: ${failures.join(', ')}`,
+            failures.join('; '),
+            `HTTP ${response.status} in ${responseTime}ms: ${body.slice(0, 200)}`
+          )
+        }
+        return { success: true }
+      }
+    }
+  } catch (error) {
+    return await fail(error.message)
+  }
+}
@@ -0,0 +1,307 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/steps.ts
+// Typed functional test step schema stored in test_cases.steps
+
+import { normalizeHttpAssertions, type HttpAssertion } from './http-assertions.ts';
+import { normalizeExtractors, type Extractor } from './variables.ts';
+
+export type LocatorStrategy = 'css' | 'xpath' | 'role' | 'test_id' | 'text';
+
+export interface Locator {
+  strategy: LocatorStrategy;
+  value: string;
+  // Accessible name, only used with the 'role' strategy
+  name?: string;
+}
+
+// Checks evaluated after a step runs; inferred from expected_result when not given explicitly
+export type Assertion =
+  | { kind: 'title'; value: string; match?: 'contains' | 'equals' }
+  | { kind: 'url'; value: string; match?: 'contains' | 'equals' }
+  | { kind: 'text'; value: string; locator?: Locator; match?: 'contains' | 'equals' }
+  | { kind: 'visible'; locator: Locator; visible?: boolean }
+  | { kind: 'count'; locator: Locator; count: number; op?: 'eq' | 'gte' | 'lte' }
+  | { kind: 'toast'; value: string };
+
+interface BaseStep {
+  description?: string;
+  expected_result?: string;
+  assertions?: Assertion[];
+}
+
+export type TestStep = BaseStep & (
+  | { type: 'navigate'; url: string }
+  | { type: 'click'; locator: Locator }
+  | { type: 'fill'; locator: Locator; value: string }
+  | { type: 'select'; locator: Locator; option: string }
+  | { type: 'hover'; locator: Locator }
+  | { type: 'press_key'; key: string; locator?: Locator }
+  | { type: 'upload_file'; locator: Locator; file_path: string }
+  | { type: 'assert_text'; locator: Locator; text: string; match?: 'contains' | 'equals' }
+  | { type: 'assert_visible'; locator: Locator; visible?: boolean }
+  | { type: 'assert_url'; url: string; match?: 'contains' | 'equals' }
+  | { type: 'assert_attribute'; locator: Locator; attribute: string; value: string }
+  | { type: 'wait_for'; locator?: Locator; state?: 'present' | 'visible'; timeout_ms?: number }
+  // API call made by the executor itself; checks default to a 2xx status. Extracted values fill ${name} in later requests.
+  | { type: 'http_request'; method: string; url: string; headers?: Record<string, string>; body?: string; checks?: HttpAssertion[]; extractors?: Extractor[] }
+);
+
+export type StepType = TestStep['type'];
+
+// Free-text step format produced before the typed DSL existed
+export interface LegacyStep {
+  action: string;
+  expected_result: string;
+}
+
+export const STEP_TYPES: StepType[] = [
+  'navigate', 'click', 'fill', 'select', 'hover', 'press_key', 'upload_file',
+  'assert_text', 'assert_visible', 'assert_url', 'assert_attribute', 'wait_for', 'http_request',
+];
+
+const LOCATOR_STRATEGIES: LocatorStrategy[] = ['css', 'xpath', 'role', 'test_id', 'text'];
+
+const ASSERTION_KINDS: Assertion['kind'][] = ['title', 'url', 'text', 'visible', 'count', 'toast'];
+
+// Key names in legacy "press Enter" actions (spaces removed, lower case) and the key the runner sends
+const LEGACY_KEYS: Record<string, string> = {
+  enter: 'Enter', return: 'Enter', tab: 'Tab', escape: 'Escape', esc: 'Escape',
+  backspace: 'Backspace', delete: 'Delete', space: 'Space', spacebar: 'Space',
+  arrowup: 'ArrowUp', uparrow: 'ArrowUp', arrowdown: 'ArrowDown', downarrow: 'ArrowDown',
+  arrowleft: 'ArrowLeft', leftarrow: 'ArrowLeft', arrowright: 'ArrowRight', rightarrow: 'ArrowRight',
+};
+
+// Steps that need a locator to be valid
+const LOCATOR_REQUIRED: StepType[] = [
+  'click', 'fill', 'select', 'hover', 'upload_file',
+  'assert_text', 'assert_visible', 'assert_attribute',
+];
+
+export function isLegacyStep(step: any): step is LegacyStep {
+  return step && typeof step === 'object' && typeof step.action === 'string' && !step.type;
+}
+
+// Validate a step coming from storage or the LLM, converting legacy free-text steps.
+// Throws when the step cannot be made executable.
+export function normalizeStep(step: any, testData: Record<string, any> = {}): TestStep {
+  if (isLegacyStep(step)) {
+    return fromLegacyStep(step, testData);
+  }
+
+  if (!step || typeof step !== 'object' || !STEP_TYPES.includes(step.type)) {
+    throw new Error(`Invalid step type: ${step?.type ?? 'missing'}`);
+  }
+
+  if (LOCATOR_REQUIRED.includes(step.type) || step.locator) {
+    step.locator = normalizeLocator(step.locator);
+  }
+
+  if (step.assertions !== undefined) {
+    step.assertions = normalizeAssertions(step.assertions);
+  }
+
+  switch (step.type) {
+    case 'navigate':
+    case 'assert_url':
+      if (typeof step.url !== 'string') throw new Error(`${step.type} step requires a url`);
+      break;
+    case 'fill':
+      if (step.value === undefined) throw new Error('fill step requires a value');
+      step.value = String(step.value);
+      break;
+    case 'select':
+      if (!step.option) throw new Error('select step requires an option');
+      break;
+    case 'press_key':
+      if (!step.key) throw new Error('press_key step requires a key');
+      break;
+    case 'upload_file':
+      if (!step.file_path) throw new Error('upload_file step requires a file_path');
+      break;
+    case 'assert_text':
+      if (typeof step.text !== 'string') throw new Error('assert_text step requires text');
+      break;
+    case 'assert_attribute':
+      if (!step.attribute) throw new Error('assert_attribute step requires an attribute');
+      break;
+    case 'http_request':
+      if (typeof step.url !== 'string') throw new Error('http_request step requires a url');
+      step.method = String(step.method || 'GET').toUpperCase();
+      if (step.body !== undefined && typeof step.body !== 'string') step.body = JSON.stringify(step.body);
+      step.checks = normalizeHttpAssertions(step.checks);
+      step.extractors = normalizeExtractors(step.extractors);
+      break;
+  }
+
+  return step as TestStep;
+}
+
+export function normalizeSteps(steps: any[], testData: Record<string, any> = {}): TestStep[] {
+  return (steps || []).map(step => normalizeStep(step, testData));
+}
+
+function normalizeLocator(locator: any): Locator {
+  if (typeof locator === 'string') {
+    return { strategy: 'css', value: locator };
+  }
+
+  if (!locator || !LOCATOR_STRATEGIES.includes(locator.strategy) || !locator.value) {
+    throw new Error(`Invalid locator: ${JSON.stringify(locator)}`);
+  }
+
+  return locator;
+}
+
+function normalizeAssertions(assertions: any): Assertion[] {
+  if (!Array.isArray(assertions)) {
+    throw new Error('assertions must be an array');
+  }
+
+  return assertions.map(assertion => {
+    if (!assertion || !ASSERTION_KINDS.includes(assertion.kind)) {
+      throw new Error(`Invalid assertion kind: ${assertion?.kind ?? 'missing'}`);
+    }
+    if (assertion.locator || assertion.kind === 'visible' || assertion.kind === 'count') {
+      assertion.locator = normalizeLocator(assertion.locator);
+    }
+    if (assertion.kind === 'count') {
+      if (typeof assertion.count !== 'number') throw new Error('count assertion requires a numeric count');
+    } else if (assertion.kind !== 'visible' && typeof assertion.value !== 'string') {
+      throw new Error(`${assertion.kind} assertion requires a value`);
+    }
+    return assertion as Assertion;
+  });
+}
+
+// Best-effort translation of "click login button" style actions into typed steps
+export function fromLegacyStep(step: LegacyStep, testData: Record<string, any> = {}): TestStep {
+  return convertLegacyStep(step, testData).step;
+}
+
+// guessed is set when the conversion filled in a default or took unquoted text literally,
+// so the result should be reviewed before it replaces the original step
+export function convertLegacyStep(
+  step: LegacyStep,
+  testData: Record<string, any> = {}
+): { step: TestStep; guessed: boolean } {
+  const action = step.action.trim();
+  const lower = action.toLowerCase();
+  const base = { description: action, expected_result: step.expected_result };
+
+  if (/^(navigate|go to|open|visit)\b/.test(lower)) {
+    const urlMatch = action.match(/(https?:\/\/\S+)|(\/\S*)/i) || action.match(/["']([^"']+)["']/);
+    if (!urlMatch) throw new Error(`Cannot convert legacy step without a URL: "${action}"`);
+    return { step: { ...base, type: 'navigate', url: urlMatch[1] || urlMatch[0] }, guessed: false };
+  }
+
+  if (/^wait\b/.test(lower)) {
+    const seconds = lower.match(/(\d+)/);
+    return {
+      step: { ...base, type: 'wait_for', timeout_ms: seconds ? parseInt(seconds[1]) * 1000 : 2000 },
+      guessed: !seconds,
+    };
+  }
+
+  const typeMatch = action.match(/^(?:type|enter|fill(?: in)?|input)\s+(.+?)\s+(?:in|into)\s+(?:the\s+)?(.+)$/i);
+  if (typeMatch) {
+    const field = stripElementNoun(typeMatch[2]);
+    const text = typeMatch[1].trim();
+    // "Enter valid email in email field" means the test data value, "Enter 'bob' in ..." the literal
+    const quoted = /^(["']).*\1$/.test(text);
+    const dataValue = testData[field] ?? testData[fieldKey(field)];
+    const value = quoted ? unquote(text) : dataValue !== undefined ? String(dataValue) : text;
+    return {
+      step: { ...base, type: 'fill', locator: legacyFieldLocator(field), value },
+      guessed: !quoted && dataValue === undefined,
+    };
+  }
+
+  // Checked before clicks: "press Enter" is a key press, not a click on the text "Enter"
+  const keyMatch = action.match(/^(?:press|hit)\s+(?:the\s+)?(arrow\s+\w+|\w+\s+arrow|\w+)(?:\s+key)?\b(.*)$/i);
+  const key = keyMatch && LEGACY_KEYS[keyMatch[1].replace(/\s+/g, '').toLowerCase()];
+  // "press the Delete button" is still a click
+  if (key && !/^\s*(button|link|icon)\b/i.test(keyMatch[2])) {
+    // Where the key goes ("press Enter in the search box") cannot be located reliably
+    if (keyMatch[2].trim()) throw new Error(`Cannot convert legacy step: "${action}"`);
+    return { step: { ...base, type: 'press_key', key }, guessed: false };
+  }
+
+  const clickMatch = action.match(/^(?:click|press|tap)\s+(?:on\s+)?(?:the\s+)?(.+)$/i);
+  if (clickMatch) {
+    const target = clickMatch[1].trim();
+    const name = stripElementNoun(target);
+    if (/\blink$/i.test(target)) {
+      return { step: { ...base, type: 'click', locator: { strategy: 'role', value: 'link', name } }, guessed: false };
+    }
+    if (/\b(button|icon)$/i.test(target)) {
+      return { step: { ...base, type: 'click', locator: { strategy: 'role', value: 'button', name } }, guessed: false };
+    }
+    return { step: { ...base, type: 'click', locator: { strategy: 'text', value: unquote(name) } }, guessed: false };
+  }
+
+  throw new Error(`Cannot convert legacy step: "${action}"`);
+}
+
+function legacyFieldLocator(field: string): Locator {
+  const name = field.toLowerCase();
+  if (name.includes('email')) {
+    return { strategy: 'css', value: 'input[type="email"], input[name="email"], #email' };
+  }
+  if (name.includes('password')) {
+    return { strategy: 'css', value: 'input[type="password"], input[name="password"], #password' };
+  }
+
+  const key = fieldKey(field);
+  const attribute = key.replace(/["\\]/g, '\\$&');
+  return { strategy: 'css', value: `input[name="${attribute}"], textarea[name="${attribute}"], #${cssEscape(key)}` };
+}
+
+function fieldKey(field: string): string {
+  return field.toLowerCase().replace(/\s+/g, '_');
+}
+
+// CSS.escape for identifiers, which Deno does not provide
+function cssEscape(value: string): string {
+  return value
+    .replace(/[^a-zA-Z0-9_\u00A0-\uFFFF-]/g, char => `\\${char}`)
+    .replace(/^(-?)(\d)/, (_, dash, digit) => `${dash}\\${digit.charCodeAt(0).toString(16)} `)
+    .replace(/^-$/, '\\-');
+}
+
+function stripElementNoun(target: string): string {
+  return unquote(target.replace(/\s+(button|link|icon|element|field|input|box|textarea)$/i, '').trim());
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, '');
+}
+
+// Human readable one-liner used in logs
+export function describeStep(step: TestStep): string {
+  if (step.description) return step.description;
+
+  const target = 'locator' in step && step.locator ? describeLocator(step.locator) : '';
+
+  switch (step.type) {
+    case 'navigate': return `navigate to ${step.url}`;
+    case 'click': return `click ${target}`;
+    case 'fill': return `fill ${target} with "${step.value}"`;
+    case 'select': return `select "${step.option}" in ${target}`;
+    case 'hover': return `hover ${target}`;
+    case 'press_key': return `press ${step.key}${target ? ` on ${target}` : ''}`;
+    case 'upload_file': return `upload ${step.file_path} to ${target}`;
+    case 'assert_text': return `assert ${target} ${step.match === 'equals' ? 'equals' : 'contains'} "${step.text}"`;
+    case 'assert_visible': return `assert ${target} is ${step.visible === false ? 'hidden' : 'visible'}`;
+    case 'assert_url': return `assert url ${step.match === 'equals' ? 'equals' : 'contains'} ${step.url}`;
+    case 'assert_attribute': return `assert ${target} [${step.attribute}] = "${step.value}"`;
+    case 'wait_for': return target ? `wait for ${target}` : `wait ${step.timeout_ms ?? 0}ms`;
+    case 'http_request': return `${step.method} ${step.url}`;
+  }
+}
+
+export function describeLocator(locator: Locator): string {
+  if (locator.strategy === 'role') {
+    return `${locator.value}${locator.name ? ` "${locator.name}"` : ''}`;
+  }
+  return `${locator.strategy}=${locator.value}`;
+}
@@ -0,0 +1,149 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/thresholds.ts
+// Declarative SLO thresholds (jmeter_config.thresholds) that decide load-test pass/fail
+
+export type ThresholdMetric = 'p90' | 'p95' | 'p99' | 'avg_response_time' | 'error_rate' | 'rps' | 'throughput'
+
+export type ThresholdOperator = '<' | '<=' | '>' | '>='
+
+export interface Threshold {
+  metric: ThresholdMetric;
+  op: ThresholdOperator;
+  value: number;
+  // "GET /api/users" or "/api/users"; omitted for run-wide thresholds
+  endpoint?: string;
+}
+
+export interface ThresholdVerdict extends Threshold {
+  description: string;
+  // null when the metric was not reported (e.g. per-endpoint data from BlazeMeter)
+  actual: number | null;
+  status: 'pass' | 'fail' | 'no_data';
+  // Why a threshold without a value failed
+  reason?: string;
+}
+
+// Error-rate gate applied unless a test case declares its own run-wide error_rate threshold
+export const DEFAULT_THRESHOLDS: Threshold[] = [
+  { metric: 'error_rate', op: '<', value: 5 },
+]
+
+// Latency is only recorded for successful samples, so it cannot be judged without any
+const LATENCY_METRICS: ThresholdMetric[] = ['p90', 'p95', 'p99', 'avg_response_time']
+
+const METRIC_FIELDS: Record<ThresholdMetric, string> = {
+  p90: 'percentile_90',
+  p95: 'percentile_95',
+  p99: 'percentile_99',
+  avg_response_time: 'avg_response_time',
+  error_rate: 'error_rate',
+  rps: 'requests_per_second',
+  throughput: 'throughput',
+}
+
+const METRIC_UNITS: Record<ThresholdMetric, string> = {
+  p90: 'ms',
+  p95: 'ms',
+  p99: 'ms',
+  avg_response_time: 'ms',
+  error_rate: '%',
+  rps: ' req/s',
+  throughput: ' req/s',
+}
+
+const OPERATORS: ThresholdOperator[] = ['<', '<=', '>', '>=']
+
+// Validate thresholds from jmeter_config, dropping malformed entries
+export function normalizeThresholds(thresholds: any): Threshold[] {
+  if (!Array.isArray(thresholds)) return []
+
+  return thresholds
+    .filter(threshold =>
+      threshold &&
+      threshold.metric in METRIC_FIELDS &&
+      OPERATORS.includes(threshold.op) &&
+      Number.isFinite(Number(threshold.value))
+    )
+    .map(threshold => ({
+      metric: threshold.metric,
+      op: threshold.op,
+      value: Number(threshold.value),
+      ...(threshold.endpoint && { endpoint: String(threshold.endpoint) }),
+    }))
+}
+
+export function describeThreshold(threshold: Threshold): string {
+  const scope = threshold.endpoint ? `${threshold.endpoint} ` : ''
+  return `${scope}${threshold.metric} ${threshold.op} ${threshold.value}${METRIC_UNITS[threshold.metric]}`
+}
+
+// Evaluate against metrics from calculateMetrics/extractBlazeMeterMetrics.
+// Per-endpoint thresholds read metrics.endpoint_metrics.
+export function evaluateThresholds(
+  thresholds: Threshold[],
+  metrics: any,
+  defaults: Threshold[] = DEFAULT_THRESHOLDS
+): ThresholdVerdict[] {
+  const declaresErrorRate = thresholds.some(threshold => threshold.metric === 'error_rate' && !threshold.endpoint)
+  const effective = declaresErrorRate ? thresholds : [...defaults, ...thresholds]
+
+  return effective.map(threshold => {
+    const verdict = { ...threshold, description: describeThreshold(threshold) }
+
+    let source = metrics
+    if (threshold.endpoint) {
+      // Runners that report per-endpoint metrics fail selectors that match none of them
+      if (!Array.isArray(metrics.endpoint_metrics)) return { ...verdict, actual: null, status: 'no_data' }
+      source = metrics.endpoint_metrics.find((stats: any) => matchesEndpoint(stats, threshold.endpoint!))
+      if (!source) return { ...verdict, actual: null, status: 'fail', reason: 'no matching endpoint' }
+    }
+
+    if (LATENCY_METRICS.includes(threshold.metric) && successfulRequests(source) === 0) {
+      return { ...verdict, actual: null, status: 'fail', reason: 'no successful requests' }
+    }
+
+    const value = source[METRIC_FIELDS[threshold.metric]]
+    const actual = typeof value === 'number' && Number.isFinite(value) ? value : null
+
+    return {
+      ...verdict,
+      actual,
+      status: actual === null ? 'no_data' : compare(actual, threshold.op, threshold.value) ? 'pass' : 'fail',
+    }
+  })
+}
+
+// Thresholds the runner reported no data for do not fail a test; there is nothing to judge
+export function thresholdsPassed(verdicts: ThresholdVerdict[]): boolean {
+  return verdicts.every(verdict => verdict.status !== 'fail')
+}
+
+// null when the runner does not report request counts
+function successfulRequests(stats: any): number | null {
+  const total = stats.total_requests
+  const failed = stats.failed_requests
+  return typeof total === 'number' && typeof failed === 'number' ? total - failed : null
+}
+
+function matchesEndpoint(stats: { method: string; path: string }, selector: string): boolean {
+  const target = selector.trim()
+  if (target.includes(' ')) {
+    const [method, path] = target.split(/\s+/, 2)
+    return stats.method === method.toUpperCase() && matchesPath(stats.path, path)
+  }
+  return matchesPath(stats.path, target)
+}
+
+// Relative paths also match when the environment URL adds a base path
+function matchesPath(actual: string, expected: string): boolean {
+  return actual === expected || (expected.startsWith('/') && actual.endsWith(expected))
+}
+
+function compare(actual: number, op: ThresholdOperator, expected: number): boolean {
+  switch (op) {
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+  }
+}
@@ -0,0 +1,120 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/variables.ts
+// ${name} variables in request URLs, headers and bodies, filled from values extracted out of earlier responses
+
+import { queryJsonPath, stringifyValue } from './http-assertions.ts'
+
+export type ExtractorType = 'json_path' | 'regex' | 'header'
+
+// Stores the first match of `expression` in the response as `name`, e.g. { name: 'token', type: 'json_path', expression: '$.access_token' }.
+// regex keeps its first capture group (or the whole match) and header reads the named response header.
+export interface Extractor {
+  name: string;
+  type: ExtractorType;
+  expression: string;
+}
+
+export interface ExtractionSource {
+  headers: Headers;
+  body?: string;
+}
+
+export interface RequestTemplate {
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+const VARIABLE_PATTERN = /\$\{([\w.-]+)\}/g
+
+const EXTRACTOR_TYPES: ExtractorType[] = ['json_path', 'regex', 'header']
+
+// Entries without a type are JSONPath, as recordings first produced them; invalid regexes are dropped
+export function normalizeExtractors(extractors: any): Extractor[] {
+  if (!Array.isArray(extractors)) return []
+
+  return extractors
+    .filter(extractor => extractor?.name && extractor?.expression)
+    .map(extractor => ({
+      name: String(extractor.name),
+      type: EXTRACTOR_TYPES.includes(extractor.type) ? extractor.type as ExtractorType : 'json_path',
+      expression: String(extractor.expression),
+    }))
+    .filter(extractor => extractor.type !== 'regex' || compileRegex(extractor.expression))
+}
+
+// Header extractors are the only ones that can skip reading the response body
+export function extractorsNeedBody(extractors: Extractor[]): boolean {
+  return extractors.some(extractor => extractor.type !== 'header')
+}
+
+// Unknown variables are left as written, as JMeter does, so a missing value shows up in the request
+export function substituteVariables(value: string, variables: Record<string, string>): string {
+  return value.replace(VARIABLE_PATTERN, (reference, name) => variables[name] ?? reference)
+}
+
+export function resolveRequest<T extends RequestTemplate>(request: T, variables: Record<string, string>): T {
+  if (Object.keys(variables).length === 0) return request
+
+  return {
+    ...request,
+    url: substituteVariables(request.url, variables),
+    ...(request.headers && {
+      headers: Object.fromEntries(Object.entries(request.headers)
+        .map(([name, value]) => [name, substituteVariables(String(value), variables)])),
+    }),
+    ...(typeof request.body === 'string' && { body: substituteVariables(request.body, variables) }),
+  }
+}
+
+// Substitute into every string of a step or request, leaving other values as they are
+export function resolveVariables<T>(value: T, variables: Record<string, string>): T {
+  if (typeof value === 'string') return substituteVariables(value, variables) as T
+  if (Array.isArray(value)) return value.map(item => resolveVariables(item, variables)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveVariables(item, variables)])) as T
+  }
+  return value
+}
+
+// Extractors that find nothing leave the previous value in place
+export function applyExtractors(extractors: Extractor[], response: ExtractionSource, variables: Record<string, string>): void {
+  let document: any
+  let parsed = false
+
+  for (const extractor of extractors) {
+    let value: string | undefined
+    switch (extractor.type) {
+      case 'header':
+        value = response.headers.get(extractor.expression) ?? undefined
+        break
+      case 'regex': {
+        const match = response.body !== undefined ? compileRegex(extractor.expression)?.exec(response.body) : null
+        value = match ? match[1] ?? match[0] : undefined
+        break
+      }
+      case 'json_path': {
+        if (!parsed) {
+          parsed = true
+          try {
+            document = JSON.parse(response.body ?? '')
+          } catch {
+            document = undefined
+          }
+        }
+        const [match] = document === undefined ? [] : queryJsonPath(document, extractor.expression)
+        value = match === undefined || match === null ? undefined : stringifyValue(match)
+        break
+      }
+    }
+    if (value !== undefined) variables[extractor.name] = value
+  }
+}
+
+function compileRegex(expression: string): RegExp | null {
+  try {
+    return new RegExp(expression)
+  } catch {
+    return null
+  }
+}
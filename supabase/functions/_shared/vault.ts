@@ -0,0 +1,137 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/vault.ts
+// Encrypted account and project secrets (public.secrets), readable only with the service role
+
+import { decryptSecret, encryptSecret } from './secrets.ts'
+
+export type AccountSecretName = 'github_token' | 'slack_webhook_url'
+export type ProjectSecretName = 'grid_access_key'
+export type SecretName = AccountSecretName | ProjectSecretName
+
+export const ACCOUNT_SECRETS: AccountSecretName[] = ['github_token', 'slack_webhook_url']
+export const PROJECT_SECRETS: ProjectSecretName[] = ['grid_access_key']
+
+// Account secrets belong to a user, project secrets to a project
+export type SecretScope = { ownerId: string } | { projectId: string }
+
+// What the client may see of a secret
+export interface SecretStatus {
+  name: SecretName;
+  hint: string | null;
+  updated_at: string;
+}
+
+// Rows migrated from the old plaintext columns, until encrypt-legacy-secrets or a read encrypts them
+const LEGACY_PREFIX = 'plain.'
+
+// Short values would be mostly revealed by their last characters
+const HINT_MIN_LENGTH = 12
+
+export function secretHint(value: string): string | null {
+  return value.length >= HINT_MIN_LENGTH ? value.slice(-4) : null
+}
+
+export async function readSecret(supabaseClient: any, scope: SecretScope, name: SecretName): Promise<string | undefined> {
+  const [column, id] = scopeColumn(scope)
+  const { data: secret, error } = await supabaseClient
+    .from('secrets')
+    .select('id, value')
+    .eq(column, id)
+    .eq('name', name)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!secret) return undefined
+
+  if (!secret.value.startsWith(LEGACY_PREFIX)) return decryptSecret(secret.value)
+
+  const plaintext = secret.value.slice(LEGACY_PREFIX.length)
+  try {
+    await encryptLegacySecret(supabaseClient, secret)
+  } catch (error) {
+    console.error(`Failed to encrypt legacy secret ${name}:`, error)
+  }
+  return plaintext
+}
+
+// Backfill for rows migrated from the plaintext columns (encrypt-legacy-secrets); returns how many were encrypted
+export async function encryptLegacySecrets(supabaseClient: any): Promise<number> {
+  const { data: secrets, error } = await supabaseClient
+    .from('secrets')
+    .select('id, value')
+    .like('value', `${LEGACY_PREFIX}%`)
+
+  if (error) throw error
+
+  for (const secret of secrets || []) {
+    await encryptLegacySecret(supabaseClient, secret)
+  }
+  return (secrets || []).length
+}
+
+export async function writeSecret(supabaseClient: any, scope: SecretScope, name: SecretName, value: string): Promise<SecretStatus> {
+  const [column, id] = scopeColumn(scope)
+  const row = {
+    value: await encryptSecret(value),
+    hint: secretHint(value),
+    updated_at: new Date().toISOString(),
+  }
+
+  // Upserts cannot target the partial unique indexes, so update first and insert when nothing matched
+  const { data: updated, error: updateError } = await supabaseClient
+    .from('secrets')
+    .update(row)
+    .eq(column, id)
+    .eq('name', name)
+    .select('name, hint, updated_at')
+
+  if (updateError) throw updateError
+  if (updated.length > 0) return updated[0]
+
+  const { data: inserted, error: insertError } = await supabaseClient
+    .from('secrets')
+    .insert({ ...row, [column]: id, name })
+    .select('name, hint, updated_at')
+    .single()
+
+  if (insertError) throw insertError
+  return inserted
+}
+
+export async function deleteSecret(supabaseClient: any, scope: SecretScope, name: SecretName): Promise<void> {
+  const [column, id] = scopeColumn(scope)
+  const { error } = await supabaseClient
+    .from('secrets')
+    .delete()
+    .eq(column, id)
+    .eq('name', name)
+
+  if (error) throw error
+}
+
+export async function listSecrets(supabaseClient: any, scope: SecretScope): Promise<SecretStatus[]> {
+  const [column, id] = scopeColumn(scope)
+  const { data, error } = await supabaseClient
+    .from('secrets')
+    .select('name, hint, updated_at')
+    .eq(column, id)
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Only rows still in plaintext are updated, so a value saved meanwhile is not overwritten
+async function encryptLegacySecret(supabaseClient: any, secret: { id: string; value: string }): Promise<void> {
+  const { error } = await supabaseClient
+    .from('secrets')
+    .update({ value: await encryptSecret(secret.value.slice(LEGACY_PREFIX.length)), updated_at: new Date().toISOString() })
+    .eq('id', secret.id)
+    .eq('value', secret.value)
+
+  if (error) throw error
+}
+
+function scopeColumn(scope: SecretScope): ['owner_id' | 'project_id', string] {
+  return 'ownerId' in scope ? ['owner_id', scope.ownerId] : ['project_id', scope.projectId]
+}
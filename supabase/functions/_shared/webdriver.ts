@@ -0,0 +1,312 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/_shared/webdriver.ts
+// W3C WebDriver client and pluggable browser-grid providers
+
+export const ELEMENT_KEY = 'element-6066-11e4-a52e-4f735466cecf'
+
+const DEFAULT_LAMBDATEST_HUB = 'https://hub.lambdatest.com/wd/hub'
+
+export type GridProviderType = 'lambdatest' | 'webdriver'
+
+// Shape of projects.settings.browser_grid
+export interface BrowserGridSettings {
+  provider?: GridProviderType;
+  hub_url?: string;
+  username?: string;
+  // Not stored in settings; merged in from the grid_access_key vault secret
+  access_key?: string;
+  capabilities?: Record<string, any>;
+}
+
+export type Viewport = 'desktop' | 'tablet' | 'mobile'
+
+// One cell of a cross-browser matrix
+export interface BrowserConfig {
+  browser: string;
+  version?: string;
+  platform?: string;
+  viewport?: Viewport;
+}
+
+export const VIEWPORT_SIZES: Record<Viewport, { width: number; height: number }> = {
+  desktop: { width: 1920, height: 1080 },
+  tablet: { width: 820, height: 1180 },
+  mobile: { width: 390, height: 844 },
+}
+
+// Stable identifier used to key results by configuration, e.g. "chrome/latest/any/desktop"
+export function configurationKey(config: BrowserConfig): string {
+  return [config.browser, config.version || 'latest', config.platform || 'any', config.viewport || 'desktop'].join('/')
+}
+
+export interface BrowserGridProvider {
+  name: string;
+  type: GridProviderType;
+  client: WebDriverClient;
+  buildCapabilities(config: BrowserConfig, testName: string): Record<string, any>;
+  updateSessionStatus(sessionId: string, status: 'passed' | 'failed', reason?: string): Promise<void>;
+}
+
+// Minimal W3C WebDriver client that talks to any hub (cloud grid, Selenium Grid, chromedriver)
+export class WebDriverClient {
+  private hubUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(hubUrl: string, headers: Record<string, string> = {}) {
+    this.hubUrl = hubUrl.replace(/\/+$/, '');
+    this.headers = headers;
+  }
+
+  async createSession(capabilities: Record<string, any>): Promise<string> {
+    const data = await this.command('POST', '/session', {
+      // Legacy JSON wire protocol hubs still read desiredCapabilities
+      desiredCapabilities: capabilities,
+      capabilities: {
+        alwaysMatch: capabilities
+      }
+    });
+
+    const sessionId = data.sessionId || data.value?.sessionId;
+    if (!sessionId) {
+      throw new Error('WebDriver hub did not return a session id');
+    }
+
+    return sessionId;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.command('DELETE', `/session/${sessionId}`);
+  }
+
+  async navigate(sessionId: string, url: string): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/url`, { url });
+  }
+
+  async setWindowRect(sessionId: string, width: number, height: number): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/window/rect`, { width, height });
+  }
+
+  async getTitle(sessionId: string): Promise<string> {
+    const data = await this.command('GET', `/session/${sessionId}/title`);
+    return data.value ?? '';
+  }
+
+  async getCurrentUrl(sessionId: string): Promise<string> {
+    const data = await this.command('GET', `/session/${sessionId}/url`);
+    return data.value;
+  }
+
+  async findElement(sessionId: string, using: string, value: string): Promise<string | null> {
+    try {
+      const data = await this.command('POST', `/session/${sessionId}/element`, { using, value });
+      return data.value?.[ELEMENT_KEY] || data.value?.ELEMENT || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async findElements(sessionId: string, using: string, value: string): Promise<string[]> {
+    try {
+      const data = await this.command('POST', `/session/${sessionId}/elements`, { using, value });
+      return (data.value || []).map((element: any) => element[ELEMENT_KEY] || element.ELEMENT).filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  async findChildElement(
+    sessionId: string,
+    elementId: string,
+    using: string,
+    value: string
+  ): Promise<string | null> {
+    try {
+      const data = await this.command('POST', `/session/${sessionId}/element/${elementId}/element`, { using, value });
+      return data.value?.[ELEMENT_KEY] || data.value?.ELEMENT || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async getActiveElement(sessionId: string): Promise<string | null> {
+    try {
+      const data = await this.command('GET', `/session/${sessionId}/element/active`);
+      return data.value?.[ELEMENT_KEY] || data.value?.ELEMENT || null;
+    } catch {
+      return null;
+    }
+  }
+
+  async getElementText(sessionId: string, elementId: string): Promise<string> {
+    const data = await this.command('GET', `/session/${sessionId}/element/${elementId}/text`);
+    return data.value ?? '';
+  }
+
+  async getElementAttribute(sessionId: string, elementId: string, name: string): Promise<string | null> {
+    const data = await this.command('GET', `/session/${sessionId}/element/${elementId}/attribute/${name}`);
+    return data.value ?? null;
+  }
+
+  async isElementDisplayed(sessionId: string, elementId: string): Promise<boolean> {
+    const data = await this.command('GET', `/session/${sessionId}/element/${elementId}/displayed`);
+    return data.value === true;
+  }
+
+  async performActions(sessionId: string, actions: any[]): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/actions`, { actions });
+    await this.command('DELETE', `/session/${sessionId}/actions`);
+  }
+
+  async click(sessionId: string, elementId: string): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/element/${elementId}/click`, {});
+  }
+
+  async clear(sessionId: string, elementId: string): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/element/${elementId}/clear`, {});
+  }
+
+  async sendKeys(sessionId: string, elementId: string, text: string): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/element/${elementId}/value`, {
+      text,
+      value: text.split('')
+    });
+  }
+
+  async getPageSource(sessionId: string): Promise<string> {
+    const data = await this.command('GET', `/session/${sessionId}/source`);
+    return data.value ?? '';
+  }
+
+  // Cookies apply to the domain of the page currently loaded
+  async addCookie(sessionId: string, cookie: { name: string; value: string; path?: string }): Promise<void> {
+    await this.command('POST', `/session/${sessionId}/cookie`, { cookie });
+  }
+
+  async executeScript(sessionId: string, script: string, args: any[] = []): Promise<any> {
+    const data = await this.command('POST', `/session/${sessionId}/execute/sync`, { script, args });
+    return data.value;
+  }
+
+  async takeScreenshot(sessionId: string): Promise<string> {
+    const data = await this.command('GET', `/session/${sessionId}/screenshot`);
+    return data.value;
+  }
+
+  private async command(method: string, path: string, body?: any): Promise<any> {
+    const response = await fetch(`${this.hubUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await response.text();
+    let data: any = {};
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = { value: text };
+    }
+
+    if (!response.ok) {
+      const message = data.value?.message || data.value?.error || response.statusText;
+      throw new Error(`WebDriver ${method} ${path} failed: ${message}`);
+    }
+
+    return data;
+  }
+}
+
+// Resolve the browser grid configured for a project, falling back to LambdaTest
+export function createGridProvider(settings?: BrowserGridSettings): BrowserGridProvider {
+  const type = settings?.provider || 'lambdatest';
+
+  switch (type) {
+    case 'lambdatest':
+      return createLambdaTestProvider(settings || {});
+    case 'webdriver':
+      return createWebDriverProvider(settings || {});
+    default:
+      throw new Error(`Unsupported browser grid provider: ${type}`);
+  }
+}
+
+function createLambdaTestProvider(settings: BrowserGridSettings): BrowserGridProvider {
+  const username = settings.username || Deno.env.get('LAMBDATEST_USERNAME');
+  const accessKey = settings.access_key || Deno.env.get('LAMBDATEST_ACCESS_KEY');
+
+  if (!username || !accessKey) {
+    throw new Error('LambdaTest credentials not configured');
+  }
+
+  const authorization = `Basic ${btoa(`${username}:${accessKey}`)}`;
+
+  return {
+    name: 'LambdaTest',
+    type: 'lambdatest',
+    client: new WebDriverClient(settings.hub_url || DEFAULT_LAMBDATEST_HUB, {
+      'Authorization': authorization,
+    }),
+    buildCapabilities: (config, testName) => ({
+      browserName: config.browser,
+      version: config.version || 'latest',
+      platform: config.platform || (config.browser === 'safari' ? 'macOS Sonoma' : 'Windows 11'),
+      build: `Functional Test Run - ${new Date().toISOString()}`,
+      name: testName,
+      video: true,
+      visual: true,
+      network: true,
+      console: true,
+      terminal: true,
+      ...settings.capabilities,
+    }),
+    updateSessionStatus: async (sessionId, status, reason) => {
+      try {
+        await fetch(
+          `https://api.lambdatest.com/automation/api/v1/sessions/${sessionId}`,
+          {
+            method: 'PATCH',
+            headers: {
+              'Authorization': authorization,
+              'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+              status_ind: status,
+              ...(reason && { reason })
+            })
+          }
+        );
+      } catch (error) {
+        console.error('Failed to update LambdaTest status:', error);
+      }
+    },
+  };
+}
+
+// Any W3C endpoint: Selenium Grid, standalone chromedriver/geckodriver containers, etc.
+function createWebDriverProvider(settings: BrowserGridSettings): BrowserGridProvider {
+  if (!settings.hub_url) {
+    throw new Error('WebDriver hub URL not configured');
+  }
+
+  const headers: Record<string, string> = {};
+  if (settings.username && settings.access_key) {
+    headers['Authorization'] = `Basic ${btoa(`${settings.username}:${settings.access_key}`)}`;
+  }
+
+  return {
+    name: 'WebDriver',
+    type: 'webdriver',
+    client: new WebDriverClient(settings.hub_url, headers),
+    buildCapabilities: (config) => ({
+      browserName: config.browser,
+      ...(config.version && config.version !== 'latest' && { browserVersion: config.version }),
+      ...(config.platform && { platformName: config.platform }),
+      ...settings.capabilities,
+    }),
+    // Plain WebDriver hubs have no dashboard to report status to
+    updateSessionStatus: async () => {},
+  };
+}
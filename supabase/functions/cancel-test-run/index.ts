@@ -0,0 +1,110 @@
+// supabase/functions/cancel-test-run/index.ts
+// Requests cancellation of a test run; the executor streaming it stops at its next checkpoint
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-requested-with',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+interface CancelTestRunRequest {
+  testRunId: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const { testRunId }: CancelTestRunRequest = await req.json()
+    if (!testRunId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: testRunId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const { data: testRun, error: testRunError } = await supabaseClient
+      .from('test_runs')
+      .select('id, status, projects!inner(owner_id)')
+      .eq('id', testRunId)
+      .single()
+
+    if (testRunError || !testRun || testRun.projects.owner_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: 'Test run not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    if (testRun.status !== 'pending' && testRun.status !== 'running') {
+      return new Response(
+        JSON.stringify({ error: `Test run is already ${testRun.status}` }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const now = new Date().toISOString()
+    // Nothing is executing a pending run, so it can be cancelled outright
+    const { error: updateError } = await supabaseClient
+      .from('test_runs')
+      .update({
+        cancel_requested_at: now,
+        cancelled_by: user.id,
+        ...(testRun.status === 'pending' && { status: 'cancelled', completed_at: now })
+      })
+      .eq('id', testRunId)
+
+    if (updateError) throw updateError
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        status: testRun.status === 'pending' ? 'cancelled' : 'cancelling'
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  } catch (error) {
+    console.error('Error in cancel-test-run function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+})
@@ -0,0 +1,53 @@
+// supabase/functions/encrypt-legacy-secrets/index.ts
+// One-off backfill after migration 015: encrypts every secret still stored as "plain.<value>"
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { encryptLegacySecrets } from '../_shared/vault.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  // Only an operator holding the service role key may run the backfill
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  try {
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const encrypted = await encryptLegacySecrets(supabaseClient)
+
+    console.log(`Encrypted ${encrypted} legacy secrets`)
+    return new Response(
+      JSON.stringify({ success: true, encrypted }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  } catch (error) {
+    console.error('Error in encrypt-legacy-secrets function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+})
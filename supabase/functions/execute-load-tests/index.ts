@@ -3,6 +3,15 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CANCELLED_MESSAGE, createCancellationToken, type CancellationToken } from '../_shared/cancellation.ts'
+import { startHeartbeat } from '../_shared/heartbeat.ts'
+import { evaluateThresholds, normalizeThresholds, thresholdsPassed } from '../_shared/thresholds.ts'
+import { normalizeHttpAssertions } from '../_shared/http-assertions.ts'
+import { runLocalLoadTest } from '../_shared/load-runner.ts'
+import { LoadMetricsCollector, type LoadMetrics } from '../_shared/load-metrics.ts'
+import { resolveArrivalSchedule, scaleLoadProfile } from '../_shared/load-profiles.ts'
+import { loadDatasetBinding, shardDataset } from '../_shared/datasets.ts'
+import { createCredentialResolver, withAuthHeaders } from '../_shared/auth-profiles.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,36 +29,26 @@ interface ExecuteLoadTestRequest {
     rampUp?: number;
     duration?: number;
     iterations?: number;
+    // Split each test across this many load agents instead of running it here
+    agents?: number;
   };
 }
 
+// Agents that reported within this window count as online
+const AGENT_ONLINE_WINDOW_MS = 60000;
+// Shards nobody claims within this window fail
+const JOB_CLAIM_TIMEOUT_MS = 60000;
+// Running shards whose agent stops reporting for this long fail
+const JOB_STALE_MS = 60000;
+const JOB_POLL_INTERVAL_MS = 2000;
+
 interface LoadTestResult {
   test_case_id: string;
   status: 'pass' | 'fail' | 'skip';
   execution_time: number;
   error_message?: string;
   logs: string[];
-  load_test_metrics: {
-    requests_per_second: number;
-    avg_response_time: number;
-    error_rate: number;
-    throughput: number;
-    percentile_90: number;
-    percentile_95: number;
-    percentile_99: number;
-    total_requests: number;
-    failed_requests: number;
-    duration: number;
-    vusers: number;
-    response_time_over_time?: number[];
-    throughput_over_time?: number[];
-    error_rate_over_time?: number[];
-    error_details?: Array<{
-      type: string;
-      count: number;
-      message?: string;
-    }>;
-  };
+  load_test_metrics: LoadMetrics;
 }
 
 serve(async (req) => {
@@ -187,6 +186,31 @@ serve(async (req) => {
       )
     }
 
+    // Distributed runs need agents that are online right now
+    let agentCount = 0
+    if (loadTestConfig.agents && loadTestConfig.agents > 0) {
+      const { count } = await supabaseClient
+        .from('load_agents')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .neq('status', 'offline')
+        .gte('last_seen_at', new Date(Date.now() - AGENT_ONLINE_WINDOW_MS).toISOString())
+
+      agentCount = Math.min(Math.floor(loadTestConfig.agents), count || 0)
+      if (agentCount === 0) {
+        return new Response(
+          JSON.stringify({ error: 'No load agents are online for this project' }),
+          { 
+            status: 400, 
+            headers: { 
+              ...corsHeaders, 
+              'Content-Type': 'application/json' 
+            }
+          }
+        )
+      }
+    }
+
     // Create test run record
     const { data: testRun, error: testRunError } = await supabaseClient
       .from('test_runs')
@@ -225,6 +249,8 @@ serve(async (req) => {
       )
     }
 
+    const cancellation = createCancellationToken(supabaseClient, testRun.id)
+
     // Use Server-Sent Events for real-time updates
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
@@ -238,6 +264,7 @@ serve(async (req) => {
           testCount: testCases.length
         })
         controller.enqueue(encoder.encode(`data: ${initialData}\n\n`))
+        const stopHeartbeat = startHeartbeat(supabaseClient, testRun.id)
 
         try {
           // Execute local load tests
@@ -245,26 +272,31 @@ serve(async (req) => {
             supabaseClient,
             testRun.id,
             testCases,
+            environment,
             environmentUrl,
             loadTestConfig,
+            cancellation,
+            agentCount,
             (update) => {
               controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`))
             }
           )
 
+          const cancelled = await cancellation.isCancelled()
+
           // Mark test run as completed
           await supabaseClient
             .from('test_runs')
             .update({
-              status: 'completed',
+              status: cancelled ? 'cancelled' : 'completed',
               completed_at: new Date().toISOString()
             })
             .eq('id', testRun.id)
 
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-            type: 'complete',
+            type: cancelled ? 'cancelled' : 'complete',
             testType: 'load',
-            message: 'Load test execution completed'
+            message: cancelled ? CANCELLED_MESSAGE : 'Load test execution completed'
           })}\n\n`))
         } catch (error) {
           console.error('Error during load test execution:', error)
@@ -283,6 +315,7 @@ serve(async (req) => {
             error: error.message
           })}\n\n`))
         } finally {
+          stopHeartbeat()
           controller.close()
         }
       }
@@ -317,14 +350,22 @@ async function executeLoadTests(
   supabaseClient: any,
   testRunId: string,
   testCases: any[],
+  environment: string,
   environmentUrl: string,
   loadTestConfig: any,
+  cancellation: CancellationToken,
+  agentCount: number,
   onProgress: (update: any) => void
 ) {
   let passedTests = 0;
   let failedTests = 0;
+  const resolveCredentials = testCases.length > 0
+    ? createCredentialResolver(supabaseClient, testCases[0].project_id, environment, environmentUrl)
+    : null;
 
   for (const testCase of testCases) {
+    if (await cancellation.isCancelled()) break;
+
     const startTime = Date.now();
     
     try {
@@ -340,6 +381,9 @@ async function executeLoadTests(
         throw new Error('Test case missing jmeter_config or endpoints');
       }
 
+      // Signed in once before the load starts, which also surfaces a missing profile or failed login
+      const credentials = testCase.auth_profile ? await resolveCredentials!(testCase.auth_profile) : undefined;
+
       // Merge test case config with global config
       const testConfig = {
         threads: 10,
@@ -350,20 +394,42 @@ async function executeLoadTests(
         testName: testCase.name,
         endpoints: testCase.jmeter_config.endpoints.map((endpoint: any) => ({
           ...endpoint,
-          url: endpoint.url.startsWith('http') ? endpoint.url : `${environmentUrl}${endpoint.url}`
-        }))
+          url: endpoint.url.startsWith('http') ? endpoint.url : `${environmentUrl}${endpoint.url}`,
+          assertions: normalizeHttpAssertions(endpoint.assertions)
+        })),
+        dataset: await loadDatasetBinding(supabaseClient, testCase)
       };
 
-      // Execute the load test
-      const metrics = await runLocalLoadTest(testConfig, onProgress, testCase.id);
+      // Execute the load test here, or split it across load agents. Shard configs are stored in
+      // load_jobs, so agents get the profile name and the load-agent function signs in when they claim.
+      const metrics = agentCount > 0
+        ? await runDistributedLoadTest(supabaseClient, testRunId, testCase, {
+            ...testConfig,
+            ...(testCase.auth_profile && {
+              auth: { profile: testCase.auth_profile, environment, environment_url: environmentUrl }
+            })
+          }, agentCount, cancellation, onProgress)
+        : await runLocalLoadTest({
+            ...testConfig,
+            endpoints: testConfig.endpoints.map((endpoint: any) => ({
+              ...endpoint,
+              headers: withAuthHeaders(endpoint.url, endpoint.headers, credentials)
+            }))
+          }, onProgress, testCase.id, cancellation);
       const executionTime = Date.now() - startTime;
 
-      // Determine if test passed based on error rate
-      const testPassed = metrics.error_rate < 5; // Consider test failed if error rate > 5%
+      // A cancelled test keeps its partial metrics but is neither passed nor failed
+      const cancelled = await cancellation.isCancelled();
+
+      // Pass/fail is decided by the test case's SLO thresholds
+      const thresholdResults = evaluateThresholds(normalizeThresholds(testCase.jmeter_config.thresholds), metrics);
+      const testPassed = thresholdsPassed(thresholdResults);
+      const failedThresholds = thresholdResults.filter(verdict => verdict.status === 'fail');
+      const status = cancelled ? 'skip' : testPassed ? 'pass' : 'fail';
       
-      if (testPassed) {
+      if (status === 'pass') {
         passedTests++;
-      } else {
+      } else if (status === 'fail') {
         failedTests++;
       }
 
@@ -373,11 +439,22 @@ async function executeLoadTests(
         .insert({
           test_run_id: testRunId,
           test_case_id: testCase.id,
-          status: testPassed ? 'pass' : 'fail',
+          status,
           duration_seconds: Math.round(executionTime / 1000),
           load_test_metrics: metrics,
+          threshold_results: thresholdResults,
+          error_message: cancelled
+            ? CANCELLED_MESSAGE
+            : failedThresholds.length > 0
+              ? `Thresholds failed: ${failedThresholds.map(verdict => verdict.description).join(', ')}`
+              : undefined,
           executed_at: new Date().toISOString(),
-          logs: `Load test completed with ${metrics.total_requests} requests, ${metrics.error_rate.toFixed(2)}% error rate`
+          logs: (cancelled
+            ? `Load test cancelled after ${metrics.total_requests} requests, ${metrics.error_rate.toFixed(2)}% error rate`
+            : `Load test completed with ${metrics.total_requests} requests, ${metrics.error_rate.toFixed(2)}% error rate`) +
+            (metrics.kept_up === false
+              ? `\nCould not keep up with the load profile: ${metrics.dropped_requests} of ${metrics.target_requests} scheduled requests were dropped`
+              : '')
         });
 
       if (error) {
@@ -397,9 +474,12 @@ async function executeLoadTests(
         type: 'load_test_complete',
         testCaseId: testCase.id,
         metrics,
-        status: testPassed ? 'pass' : 'fail',
+        thresholdResults,
+        status,
         executionTime,
-        message: `Load test completed: ${testPassed ? 'PASSED' : 'FAILED'} - ${metrics.requests_per_second.toFixed(2)} RPS, ${metrics.error_rate.toFixed(2)}% errors`
+        message: cancelled
+          ? `Load test cancelled - ${metrics.requests_per_second.toFixed(2)} RPS, ${metrics.error_rate.toFixed(2)}% errors`
+          : `Load test completed: ${testPassed ? 'PASSED' : 'FAILED'} - ${metrics.requests_per_second.toFixed(2)} RPS, ${metrics.error_rate.toFixed(2)}% errors`
       });
 
     } catch (error) {
@@ -438,222 +518,219 @@ async function executeLoadTests(
   }
 
   // Final summary
+  const cancelled = await cancellation.isCancelled();
   onProgress({
     type: 'load_test_summary',
-    message: `Load test execution completed: ${passedTests} passed, ${failedTests} failed`,
+    message: `Load test execution ${cancelled ? 'cancelled' : 'completed'}: ${passedTests} passed, ${failedTests} failed`,
     totalTests: testCases.length,
     passedTests,
-    failedTests
+    failedTests,
+    cancelled
   });
 }
 
-// Run local load test using concurrent HTTP requests
-async function runLocalLoadTest(
-  config: any, 
-  onProgress: (update: any) => void, 
-  testCaseId: string
+// Queue one shard per agent, follow their progress and merge their histograms into one result
+async function runDistributedLoadTest(
+  supabaseClient: any,
+  testRunId: string,
+  testCase: any,
+  testConfig: any,
+  shardCount: number,
+  cancellation: CancellationToken,
+  onProgress: (update: any) => void
 ): Promise<any> {
-  const {
-    threads = 10,
-    rampUp = 60,
-    duration = 300,
-    endpoints = []
-  } = config;
-
-  if (endpoints.length === 0) {
-    throw new Error('No endpoints configured for load test');
+  const { agents: _agents, ...config } = testConfig;
+
+  const { data: jobs, error } = await supabaseClient
+    .from('load_jobs')
+    .insert(Array.from({ length: shardCount }, (_, shardIndex) => ({
+      test_run_id: testRunId,
+      test_case_id: testCase.id,
+      project_id: testCase.project_id,
+      shard_index: shardIndex,
+      shard_count: shardCount,
+      config: shardLoadConfig(config, shardCount, shardIndex)
+    })))
+    .select('id');
+
+  if (error || !jobs) {
+    throw new Error(`Failed to queue load jobs: ${error?.message}`);
   }
 
-  const results: Array<{
-    timestamp: number;
-    responseTime: number;
-    success: boolean;
-    statusCode?: number;
-    error?: string;
-    endpoint: string;
-  }> = [];
+  onProgress({
+    type: 'load_test_distributed',
+    testCaseId: testCase.id,
+    shards: shardCount,
+    message: `Split into ${shardCount} shards for load agents`
+  });
 
+  const jobIds = jobs.map((job: any) => job.id);
   const startTime = Date.now();
-  const endTime = startTime + (duration * 1000);
-  const rampUpInterval = (rampUp * 1000) / threads;
-
-  let activeThreads = 0;
-  let completedRequests = 0;
-  let errorCount = 0;
-
-  // Progress tracking
-  let lastProgressUpdate = Date.now();
-  const progressInterval = 5000; // Update every 5 seconds
+  const duration = resolveArrivalSchedule(config.profile, {
+    threads: config.threads,
+    rampUp: config.rampUp,
+    duration: config.duration,
+    targetTps: config.target_tps
+  })?.duration ?? config.duration;
+  // Room for agents to claim the shards and report their final snapshots
+  const deadline = startTime + JOB_CLAIM_TIMEOUT_MS + duration * 1000 + 120000;
+
+  let rows: any[] = [];
+  let cancelRequested = false;
+  let lastProgressUpdate = 0;
+
+  while (true) {
+    await new Promise(r => setTimeout(r, JOB_POLL_INTERVAL_MS));
+
+    const { data, error: pollError } = await supabaseClient
+      .from('load_jobs')
+      .select('id, shard_index, status, agent_id, metrics_snapshot, metrics, error_message, heartbeat_at, completed_at')
+      .in('id', jobIds);
+    if (pollError) console.error('Failed to poll load jobs:', pollError);
+    rows = data || rows;
+    const now = Date.now();
+
+    // Per-shard deadlines only cover jobs that can be read; give up on the run when they cannot
+    if (now > deadline && (pollError || rows.length < jobIds.length)) {
+      await supabaseClient
+        .from('load_jobs')
+        .update({ status: 'failed', error_message: 'Timed out waiting for the load agent', completed_at: new Date().toISOString() })
+        .in('id', jobIds)
+        .in('status', ['queued', 'running']);
+      throw new Error(pollError
+        ? `Failed to read load jobs: ${pollError.message}`
+        : `${jobIds.length - rows.length} of ${shardCount} load jobs disappeared before they finished`);
+    }
 
-  const workers: Promise<void>[] = [];
+    if (!cancelRequested && await cancellation.isCancelled()) {
+      cancelRequested = true;
+      // Agents see the cancellation the next time they report and send what they have
+      await supabaseClient
+        .from('load_jobs')
+        .update({ status: 'cancelled' })
+        .in('id', jobIds)
+        .in('status', ['queued', 'running']);
+      continue;
+    }
 
-  // Start threads gradually during ramp-up
-  for (let i = 0; i < threads; i++) {
-    const threadDelay = i * rampUpInterval;
-    
-    const worker = (async () => {
-      // Wait for ramp-up delay
-      if (threadDelay > 0) {
-        await new Promise(r => setTimeout(r, threadDelay));
+    for (const job of rows) {
+      const failure = job.status === 'queued' && now - startTime > JOB_CLAIM_TIMEOUT_MS
+        ? 'No load agent claimed this shard'
+        : job.agent_id && !isJobFinished(job) && now - Date.parse(job.heartbeat_at) > JOB_STALE_MS
+          ? 'Load agent stopped reporting'
+          : now > deadline && !isJobFinished(job)
+            ? 'Timed out waiting for the load agent'
+            : null;
+
+      if (failure) {
+        await supabaseClient
+          .from('load_jobs')
+          .update({ status: 'failed', error_message: failure, completed_at: new Date().toISOString() })
+          .eq('id', job.id)
+          .eq('status', job.status);
+        Object.assign(job, { status: 'failed', error_message: failure, completed_at: new Date().toISOString() });
       }
+    }
 
-      activeThreads++;
-      
-      // Keep making requests until duration is reached
-      while (Date.now() < endTime) {
-        for (const endpoint of endpoints) {
-          if (Date.now() >= endTime) break;
-
-          const requestStart = Date.now();
-          
-          try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-
-            const response = await fetch(endpoint.url, {
-              method: endpoint.method || 'GET',
-              headers: {
-                'Content-Type': 'application/json',
-                'User-Agent': 'QA-Autopilot-LoadTest/1.0',
-                ...endpoint.headers
-              },
-              body: endpoint.body ? JSON.stringify(endpoint.body) : undefined,
-              signal: controller.signal
-            });
-
-            clearTimeout(timeoutId);
-            const responseTime = Date.now() - requestStart;
-            const success = response.ok;
-
-            results.push({
-              timestamp: requestStart,
-              responseTime,
-              success,
-              statusCode: response.status,
-              endpoint: endpoint.url
-            });
-
-            completedRequests++;
-            if (!success) errorCount++;
-
-          } catch (error) {
-            const responseTime = Date.now() - requestStart;
-            
-            results.push({
-              timestamp: requestStart,
-              responseTime,
-              success: false,
-              error: error.message,
-              endpoint: endpoint.url
-            });
-
-            completedRequests++;
-            errorCount++;
-          }
+    if (rows.length === jobIds.length && rows.every(isJobFinished)) break;
 
-          // Update progress periodically
-          if (Date.now() - lastProgressUpdate > progressInterval) {
-            const elapsed = (Date.now() - startTime) / 1000;
-            const progress = Math.min((elapsed / duration) * 100, 100);
-            
-            onProgress({
-              type: 'load_test_progress',
-              testCaseId,
-              progress: Math.round(progress),
-              activeThreads,
-              completedRequests,
-              errorCount,
-              message: `Progress: ${Math.round(progress)}% - ${completedRequests} requests, ${errorCount} errors`
-            });
-            
-            lastProgressUpdate = Date.now();
-          }
+    if (now - lastProgressUpdate > 5000) {
+      const partial = mergeJobSnapshots(rows);
+      const progress = Math.min(((now - startTime) / 1000 / duration) * 100, 100);
+      onProgress({
+        type: 'load_test_progress',
+        testCaseId: testCase.id,
+        progress: Math.round(progress),
+        activeAgents: rows.filter(job => job.status === 'running').length,
+        completedRequests: partial.totalRequests,
+        message: `Progress: ${Math.round(progress)}% - ${partial.totalRequests} requests across ${shardCount} agents`
+      });
+      lastProgressUpdate = now;
+    }
+  }
 
-          // Small delay between requests in same thread to avoid overwhelming
-          await new Promise(r => setTimeout(r, 100));
-        }
-      }
+  const failedShards = rows.filter(job => job.status === 'failed');
+  const collector = mergeJobSnapshots(rows);
+  if (collector.totalRequests === 0 && failedShards.length > 0) {
+    throw new Error(`All load agents failed: ${failedShards.map(job => job.error_message).join('; ')}`);
+  }
 
-      activeThreads--;
-    })();
+  if (failedShards.length > 0) {
+    onProgress({
+      type: 'load_test_warning',
+      testCaseId: testCase.id,
+      message: `${failedShards.length} of ${shardCount} load agents failed; results cover the remaining shards`
+    });
+  }
 
-    workers.push(worker);
+  // Agents run at most their LOAD_AGENT_MAX_VUS, so a shard asking for more generated less load than planned
+  const clampedShards = rows.filter(job => job.metrics?.clamped_vus);
+  if (clampedShards.length > 0) {
+    onProgress({
+      type: 'load_test_warning',
+      testCaseId: testCase.id,
+      message: `${clampedShards.length} of ${shardCount} load agents capped their virtual users: ${clampedShards
+        .map(job => `shard ${job.shard_index + 1} ran ${job.metrics.clamped_vus.allowed} of ${job.metrics.clamped_vus.requested}`)
+        .join(', ')}`
+    });
   }
 
-  // Wait for all workers to complete
-  await Promise.all(workers);
+  // Shards run side by side, so the run lasted as long as the longest shard
+  const elapsed = Math.max(...rows.map(job => job.metrics?.duration || 0), 1);
+  const metrics = collector.summarize(elapsed, rows.reduce((sum, job) => sum + (job.metrics?.vusers || 0), 0));
+  const targetRequests = rows.reduce((sum, job) => sum + (job.metrics?.target_requests || 0), 0);
+  const droppedRequests = rows.reduce((sum, job) => sum + (job.metrics?.dropped_requests || 0), 0);
 
-  // Calculate final metrics
-  return calculateMetrics(results, duration, threads);
+  return {
+    ...metrics,
+    ...(targetRequests > 0 && {
+      profile: rows.find(job => job.metrics?.profile)?.metrics.profile,
+      target_requests: targetRequests,
+      target_rps: targetRequests / elapsed,
+      dropped_requests: droppedRequests,
+      kept_up: droppedRequests === 0
+    }),
+    distributed: {
+      shards: shardCount,
+      failed_shards: failedShards.length,
+      agents: rows
+        .sort((a, b) => a.shard_index - b.shard_index)
+        .map(job => ({
+          shard: job.shard_index,
+          agent_id: job.agent_id,
+          status: job.status,
+          total_requests: job.metrics_snapshot?.overall?.requests || 0,
+          clamped_vus: job.metrics?.clamped_vus,
+          error_message: job.error_message || undefined
+        }))
+    }
+  };
 }
 
-function calculateMetrics(results: any[], duration: number, vusers: number): any {
-  if (results.length === 0) {
-    return {
-      requests_per_second: 0,
-      avg_response_time: 0,
-      error_rate: 100,
-      throughput: 0,
-      percentile_90: 0,
-      percentile_95: 0,
-      percentile_99: 0,
-      total_requests: 0,
-      failed_requests: 0,
-      duration,
-      vusers,
-      error_details: []
-    };
-  }
-
-  const totalRequests = results.length;
-  const failedRequests = results.filter(r => !r.success).length;
-  const successfulRequests = totalRequests - failedRequests;
-  
-  // Response times for successful requests
-  const responseTimes = results
-    .filter(r => r.success)
-    .map(r => r.responseTime)
-    .sort((a, b) => a - b);
-
-  // Calculate percentiles
-  const getPercentile = (arr: number[], percentile: number) => {
-    if (arr.length === 0) return 0;
-    const index = Math.ceil((percentile / 100) * arr.length) - 1;
-    return arr[Math.max(0, index)] || 0;
-  };
+// Cancelled shards are finished once their agent sent its final snapshot, or if none ever claimed them
+function isJobFinished(job: any): boolean {
+  return job.status === 'completed' || job.status === 'failed' ||
+    (job.status === 'cancelled' && (!!job.completed_at || !job.agent_id));
+}
 
-  const avgResponseTime = responseTimes.length > 0 
-    ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length 
-    : 0;
+function mergeJobSnapshots(jobs: any[]): LoadMetricsCollector {
+  const collector = new LoadMetricsCollector();
+  for (const job of jobs) {
+    if (job.metrics_snapshot) collector.merge(job.metrics_snapshot);
+  }
+  return collector;
+}
 
-  const errorRate = (failedRequests / totalRequests) * 100;
-  const requestsPerSecond = totalRequests / duration;
-  
-  // Group errors by type
-  const errorDetails = results
-    .filter(r => !r.success)
-    .reduce((acc, r) => {
-      const errorType = r.statusCode ? `HTTP ${r.statusCode}` : r.error || 'Unknown Error';
-      acc[errorType] = (acc[errorType] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+// Each shard gets an even share of the threads and of the target rate
+function shardLoadConfig(config: any, shardCount: number, shardIndex: number): any {
+  const share = (total: number) => Math.floor(total / shardCount) + (shardIndex < total % shardCount ? 1 : 0);
 
   return {
-    requests_per_second: requestsPerSecond,
-    avg_response_time: avgResponseTime,
-    error_rate: errorRate,
-    throughput: successfulRequests / duration, // Successful requests per second
-    percentile_90: getPercentile(responseTimes, 90),
-    percentile_95: getPercentile(responseTimes, 95),
-    percentile_99: getPercentile(responseTimes, 99),
-    total_requests: totalRequests,
-    failed_requests: failedRequests,
-    duration,
-    vusers,
-    error_details: Object.entries(errorDetails).map(([type, count]) => ({
-      type,
-      count
-    }))
+    ...config,
+    threads: Math.max(1, share(config.threads)),
+    target_tps: config.target_tps ? config.target_tps / shardCount : undefined,
+    profile: config.profile ? scaleLoadProfile(config.profile, 1 / shardCount, config.target_tps) : undefined,
+    dataset: config.dataset ? shardDataset(config.dataset, shardCount, shardIndex) : undefined
   };
 }
 
@@ -4,6 +4,13 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { artifactPath, uploadArtifact } from '../_shared/artifacts.ts'
+import { CANCELLED_MESSAGE, createCancellationToken, type CancellationToken } from '../_shared/cancellation.ts'
+import { startHeartbeat } from '../_shared/heartbeat.ts'
+import { evaluateThresholds, normalizeThresholds, thresholdsPassed, type Threshold } from '../_shared/thresholds.ts'
+import { DEFAULT_JMETER_PATH, jmeterUnavailableReason, parseJMeterResults, runJMeter, zipDirectory } from '../_shared/jmeter.ts'
+import { applyJmxOverrides, escapeXml, extractorElements, samplerTargetProps, substituteJmxHost, type JmxOverrides } from '../_shared/jmx.ts'
+import { normalizeExtractors } from '../_shared/variables.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,6 +24,24 @@ interface ExecuteTestsRequest {
   browserType?: 'chrome' | 'firefox' | 'safari';
   environment?: 'local' | 'staging' | 'production';
   testType?: 'functional' | 'load';
+  // Where load tests run; defaults to BlazeMeter when BLAZEMETER_API_KEY is set, otherwise local JMeter
+  loadRunner?: 'blazemeter' | 'jmeter';
+  // Applied to every thread group of the plan for this run
+  jmxOverrides?: JmxOverrides;
+  // Point uploaded plans at the environment URL instead of the host they were recorded against
+  substituteHost?: boolean;
+}
+
+// JMeter and BlazeMeter runs have always failed on any error; kept for tests without an error_rate threshold
+const JMETER_DEFAULT_THRESHOLDS: Threshold[] = [
+  { metric: 'error_rate', op: '<=', value: 0 },
+]
+
+interface LoadRunOutcome {
+  metrics: any;
+  artifacts: Array<{ name: string; type: string; path: string }>;
+  cancelled: boolean;
+  logs: string;
 }
 
 interface TestResult {
@@ -69,7 +94,7 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
-    const jmeterPath = Deno.env.get('JMETER_PATH') || '/usr/bin/jmeter'
+    const jmeterPath = Deno.env.get('JMETER_PATH') || DEFAULT_JMETER_PATH
 
     if (!supabaseUrl || !supabaseServiceKey) {
       return new Response(
@@ -84,7 +109,10 @@ serve(async (req) => {
       testCaseIds, 
       browserType = 'chrome', 
       environment = 'staging',
-      testType = 'functional'
+      testType = 'functional',
+      loadRunner = Deno.env.get('BLAZEMETER_API_KEY') ? 'blazemeter' : 'jmeter',
+      jmxOverrides = {},
+      substituteHost = true
     } = requestData
 
     if (!projectId || !testCaseIds || testCaseIds.length === 0) {
@@ -149,6 +177,17 @@ serve(async (req) => {
       )
     }
 
+    // Refuse up front rather than failing every test case once the run has started
+    if (resolvedTestType === 'load' && loadRunner === 'jmeter') {
+      const unavailable = await jmeterUnavailableReason(jmeterPath)
+      if (unavailable) {
+        return new Response(
+          JSON.stringify({ error: unavailable }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+    }
+
     // Create test run record
     const { data: testRun, error: testRunError } = await supabaseClient
       .from('test_runs')
@@ -181,6 +220,8 @@ serve(async (req) => {
       )
     }
 
+    const cancellation = createCancellationToken(supabaseClient, testRun.id)
+
     // Use Server-Sent Events for real-time updates
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
@@ -193,15 +234,21 @@ serve(async (req) => {
           environmentUrl
         })
         controller.enqueue(encoder.encode(`data: ${initialData}\n\n`))
+        const stopHeartbeat = startHeartbeat(supabaseClient, testRun.id)
 
         try {
           if (resolvedTestType === 'load') {
             // Execute JMeter load tests
             await executeLoadTests(
               supabaseClient,
+              projectId,
               testRun.id,
               testCases.filter(tc => tc.test_type === 'load'),
               environmentUrl,
+              loadRunner,
+              jmeterPath,
+              { overrides: jmxOverrides, substituteHost },
+              cancellation,
               (update) => {
                 controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`))
               }
@@ -220,19 +267,21 @@ serve(async (req) => {
             )
           }
 
+          const cancelled = await cancellation.isCancelled()
+
           // Mark test run as completed
           await supabaseClient
             .from('test_runs')
             .update({
-              status: 'completed',
+              status: cancelled ? 'cancelled' : 'completed',
               completed_at: new Date().toISOString()
             })
             .eq('id', testRun.id)
 
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-            type: 'complete',
+            type: cancelled ? 'cancelled' : 'complete',
             testType: resolvedTestType,
-            message: 'Test execution completed'
+            message: cancelled ? CANCELLED_MESSAGE : 'Test execution completed'
           })}\n\n`))
         } catch (error) {
           console.error('Error during test execution:', error)
@@ -251,6 +300,7 @@ serve(async (req) => {
             error: error.message
           })}\n\n`))
         } finally {
+          stopHeartbeat()
           controller.close()
         }
       }
@@ -363,78 +413,88 @@ class BlazeMeterClient {
   }
 }
 
-// Execute JMeter load tests
+// Execute JMeter load tests on BlazeMeter or with the local JMeter binary
 async function executeLoadTests(
   supabaseClient: any,
+  projectId: string,
   testRunId: string,
   testCases: any[],
   environmentUrl: string,
+  loadRunner: 'blazemeter' | 'jmeter',
+  jmeterPath: string,
+  planOptions: { overrides: JmxOverrides; substituteHost: boolean },
+  cancellation: CancellationToken,
   onProgress: (update: any) => void
 ) {
-  const blazemeterApiKey = Deno.env.get('BLAZEMETER_API_KEY');
-  if (!blazemeterApiKey) {
-    throw new Error('BlazeMeter API key not configured');
+  let blazemeter: BlazeMeterClient | null = null;
+  if (loadRunner === 'blazemeter') {
+    const blazemeterApiKey = Deno.env.get('BLAZEMETER_API_KEY');
+    if (!blazemeterApiKey) {
+      throw new Error('BlazeMeter API key not configured');
+    }
+    blazemeter = new BlazeMeterClient(blazemeterApiKey);
   }
 
-  const blazemeter = new BlazeMeterClient(blazemeterApiKey);
+  let passedTests = 0;
+  let failedTests = 0;
 
   for (const testCase of testCases) {
+    if (await cancellation.isCancelled()) break;
+
     try {
       onProgress({
         type: 'load_test_start',
         testCaseId: testCase.id,
-        testName: testCase.name
-      });
-
-      // Generate JMX content
-      const jmxContent = generateJMXContent({
-        ...testCase.jmeter_config,
-        endpoints: testCase.jmeter_config.endpoints.map((endpoint: any) => ({
-          ...endpoint,
-          url: endpoint.url.startsWith('http') ? endpoint.url : `${environmentUrl}${endpoint.url}`
-        })),
-        testName: testCase.name
-      });
-
-      // Create test in BlazeMeter
-      const testId = await blazemeter.createTest(jmxContent, testCase.name);
-      onProgress({
-        type: 'load_test_created',
-        testCaseId: testCase.id,
-        testId
-      });
-
-      // Start the test
-      const sessionId = await blazemeter.startTest(testId);
-      onProgress({
-        type: 'load_test_started',
-        testCaseId: testCase.id,
-        sessionId
+        testName: testCase.name,
+        runner: loadRunner
       });
 
-      // Poll for test completion
-      let testStatus;
-      let lastProgress = 0;
-      do {
-        await new Promise(resolve => setTimeout(resolve, 10000)); // Check every 10 seconds
-        
-        testStatus = await blazemeter.getTestStatus(sessionId);
-        const progress = testStatus.result.progress || 0;
-        
-        if (progress > lastProgress) {
-          onProgress({
-            type: 'load_test_progress',
-            testCaseId: testCase.id,
-            progress,
-            status: testStatus.result.status
+      // Uploaded plans run unchanged apart from the host and any overrides for this run;
+      // generated configs are turned into a plan
+      const uploadedPlan = testCase.jmeter_config.test_plan;
+      const jmxContent = applyJmxOverrides(
+        uploadedPlan
+          ? planOptions.substituteHost && environmentUrl ? substituteJmxHost(uploadedPlan, environmentUrl) : uploadedPlan
+          : generateJMXContent({
+              ...testCase.jmeter_config,
+              endpoints: testCase.jmeter_config.endpoints.map((endpoint: any) => ({
+                ...endpoint,
+                url: endpoint.url.startsWith('http') ? endpoint.url : `${environmentUrl}${endpoint.url}`
+              })),
+              testName: testCase.name
+            }),
+        planOptions.overrides
+      );
+
+      const outcome = blazemeter
+        ? await runOnBlazeMeter(supabaseClient, blazemeter, projectId, testRunId, testCase, jmxContent, cancellation, onProgress)
+        : await runWithLocalJMeter(supabaseClient, jmeterPath, projectId, testRunId, testCase, jmxContent, cancellation, onProgress);
+
+      if (outcome.cancelled) {
+        await supabaseClient
+          .from('test_results')
+          .insert({
+            test_run_id: testRunId,
+            test_case_id: testCase.id,
+            status: 'skip',
+            error_message: CANCELLED_MESSAGE,
+            logs: outcome.logs,
+            load_test_metrics: outcome.metrics,
+            artifacts: outcome.artifacts,
+            executed_at: new Date().toISOString()
           });
-          lastProgress = progress;
-        }
-      } while (testStatus.result.status === 'IN_PROGRESS' || testStatus.result.status === 'STARTING');
 
-      // Get final report
-      const report = await blazemeter.getTestReport(sessionId);
-      const metrics = extractBlazeMeterMetrics(report);
+        onProgress({
+          type: 'load_test_cancelled',
+          testCaseId: testCase.id
+        });
+        break;
+      }
+
+      const metrics = outcome.metrics;
+      const thresholdResults = evaluateThresholds(normalizeThresholds(testCase.jmeter_config.thresholds), metrics, JMETER_DEFAULT_THRESHOLDS);
+      const status = thresholdsPassed(thresholdResults) ? 'pass' : 'fail';
+      if (status === 'pass') passedTests++; else failedTests++;
 
       // Store results in Supabase
       const { error } = await supabaseClient
@@ -442,16 +502,13 @@ async function executeLoadTests(
         .insert({
           test_run_id: testRunId,
           test_case_id: testCase.id,
-          status: metrics.error_rate > 0 ? 'fail' : 'pass',
-          duration_seconds: Math.round(metrics.duration / 1000),
+          status,
+          duration_seconds: Math.round(metrics.duration),
           load_test_metrics: metrics,
+          threshold_results: thresholdResults,
+          logs: outcome.logs,
           executed_at: new Date().toISOString(),
-          artifacts: [{
-            name: 'blazemeter-report.json',
-            type: 'application/json',
-            content: JSON.stringify(report),
-            encoding: 'utf8'
-          }]
+          artifacts: outcome.artifacts
         });
 
       if (error) throw error;
@@ -460,11 +517,13 @@ async function executeLoadTests(
         type: 'load_test_complete',
         testCaseId: testCase.id,
         metrics,
-        status: metrics.error_rate > 0 ? 'fail' : 'pass'
+        thresholdResults,
+        status
       });
 
     } catch (error) {
       console.error(`Test case ${testCase.id} failed:`, error);
+      failedTests++;
       onProgress({
         type: 'load_test_error',
         testCaseId: testCase.id,
@@ -472,6 +531,159 @@ async function executeLoadTests(
       });
     }
   }
+
+  await supabaseClient
+    .from('test_runs')
+    .update({
+      passed_tests: passedTests,
+      failed_tests: failedTests,
+    })
+    .eq('id', testRunId);
+
+  const cancelled = await cancellation.isCancelled();
+  onProgress({
+    type: 'load_test_summary',
+    message: `Load test execution ${cancelled ? 'cancelled' : 'completed'}: ${passedTests} passed, ${failedTests} failed`,
+    totalTests: testCases.length,
+    passedTests,
+    failedTests,
+    cancelled
+  });
+}
+
+async function runOnBlazeMeter(
+  supabaseClient: any,
+  blazemeter: BlazeMeterClient,
+  projectId: string,
+  testRunId: string,
+  testCase: any,
+  jmxContent: string,
+  cancellation: CancellationToken,
+  onProgress: (update: any) => void
+): Promise<LoadRunOutcome> {
+  // Create test in BlazeMeter
+  const testId = await blazemeter.createTest(jmxContent, testCase.name);
+  onProgress({
+    type: 'load_test_created',
+    testCaseId: testCase.id,
+    testId
+  });
+
+  // Start the test
+  const sessionId = await blazemeter.startTest(testId);
+  onProgress({
+    type: 'load_test_started',
+    testCaseId: testCase.id,
+    sessionId
+  });
+
+  // Poll for test completion
+  let testStatus;
+  let lastProgress = 0;
+  do {
+    await new Promise(resolve => setTimeout(resolve, 10000)); // Check every 10 seconds
+
+    // Stop the remote session so a cancelled run does not keep generating load
+    if (await cancellation.isCancelled()) {
+      await blazemeter.stopTest(sessionId);
+      return { metrics: undefined, artifacts: [], cancelled: true, logs: `BlazeMeter session ${sessionId} stopped` };
+    }
+    
+    testStatus = await blazemeter.getTestStatus(sessionId);
+    const progress = testStatus.result.progress || 0;
+    
+    if (progress > lastProgress) {
+      onProgress({
+        type: 'load_test_progress',
+        testCaseId: testCase.id,
+        progress,
+        status: testStatus.result.status
+      });
+      lastProgress = progress;
+    }
+  } while (testStatus.result.status === 'IN_PROGRESS' || testStatus.result.status === 'STARTING');
+
+  // Get final report
+  const report = await blazemeter.getTestReport(sessionId);
+  const metrics = extractBlazeMeterMetrics(report);
+
+  // Keep the full report in Storage; the row only references it
+  const reportPath = await uploadArtifact(
+    supabaseClient,
+    artifactPath(projectId, testRunId, testCase.id, 'blazemeter-report.json'),
+    JSON.stringify(report),
+    'application/json'
+  );
+
+  return {
+    // BlazeMeter reports the duration in milliseconds
+    metrics: { ...metrics, duration: metrics.duration / 1000 },
+    artifacts: reportPath ? [{
+      name: 'blazemeter-report.json',
+      type: 'application/json',
+      path: reportPath
+    }] : [],
+    cancelled: false,
+    logs: `BlazeMeter session ${sessionId} finished with ${metrics.total_requests} requests`
+  };
+}
+
+// Run the plan with the JMeter binary at JMETER_PATH, then parse its JTL and keep the HTML dashboard
+async function runWithLocalJMeter(
+  supabaseClient: any,
+  jmeterPath: string,
+  projectId: string,
+  testRunId: string,
+  testCase: any,
+  jmxContent: string,
+  cancellation: CancellationToken,
+  onProgress: (update: any) => void
+): Promise<LoadRunOutcome> {
+  const run = await runJMeter(jmeterPath, jmxContent, cancellation, (progress) => {
+    onProgress({
+      type: 'load_test_progress',
+      testCaseId: testCase.id,
+      completedRequests: progress.requests,
+      errorCount: progress.errors,
+      activeThreads: progress.activeThreads,
+      message: `${progress.requests} requests, ${progress.errors} errors, ${progress.activeThreads} active threads`
+    });
+  });
+
+  try {
+    const metrics = await parseJMeterResults(run.resultFile);
+    if (metrics.total_requests === 0 && !run.cancelled) {
+      throw new Error(`JMeter exited with code ${run.exitCode} without results:\n${run.output.slice(-10).join('\n')}`);
+    }
+
+    const artifacts: LoadRunOutcome['artifacts'] = [];
+    const dashboard = await zipDirectory(run.reportDir);
+    const dashboardPath = dashboard && await uploadArtifact(
+      supabaseClient,
+      artifactPath(projectId, testRunId, testCase.id, 'jmeter-dashboard.zip'),
+      dashboard,
+      'application/zip'
+    );
+    if (dashboardPath) {
+      artifacts.push({ name: 'jmeter-dashboard.zip', type: 'application/zip', path: dashboardPath });
+    }
+
+    const logPath = await Deno.readFile(run.logFile)
+      .then(log => uploadArtifact(
+        supabaseClient,
+        artifactPath(projectId, testRunId, testCase.id, 'jmeter.log'),
+        log,
+        'text/plain'
+      ))
+      .catch(() => undefined);
+    if (logPath) {
+      artifacts.push({ name: 'jmeter.log', type: 'text/plain', path: logPath });
+    }
+
+    return { metrics, artifacts, cancelled: run.cancelled, logs: run.output.join('\n') };
+  } finally {
+    await Deno.remove(run.workDir, { recursive: true }).catch(() => {});
+  }
 }
 
 function extractBlazeMeterMetrics(report: any): any {
@@ -503,7 +715,7 @@ function generateJMXContent(config: any): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <jmeterTestPlan version="1.2" properties="5.0" jmeter="5.5">
   <hashTree>
-    <TestPlan guiclass="TestPlanGui" testclass="TestPlan" testname="${config.testName}" enabled="true">
+    <TestPlan guiclass="TestPlanGui" testclass="TestPlan" testname="${escapeXml(config.testName)}" enabled="true">
       <stringProp name="TestPlan.comments">${config.description || 'Generated by QA Autopilot'}</stringProp>
       <boolProp name="TestPlan.functional_mode">false</boolProp>
       <boolProp name="TestPlan.serialize_threadgroups">false</boolProp>
@@ -522,22 +734,20 @@ function generateJMXContent(config: any): string {
       </ThreadGroup>
       <hashTree>
         ${config.endpoints.map((endpoint: any) => `
-        <HTTPSamplerProxy guiclass="HttpTestSampleGui" testclass="HTTPSamplerProxy" testname="${endpoint.method} ${endpoint.url}" enabled="true">
+        <HTTPSamplerProxy guiclass="HttpTestSampleGui" testclass="HTTPSamplerProxy" testname="${escapeXml(`${endpoint.method} ${endpoint.url}`)}" enabled="true">
+          ${endpoint.body ? `<boolProp name="HTTPSampler.postBodyRaw">true</boolProp>` : ''}
           <elementProp name="HTTPsampler.Arguments" elementType="Arguments" guiclass="HTTPArgumentsPanel" testclass="Arguments" testname="User Defined Variables" enabled="true">
             <collectionProp name="Arguments.arguments">
               ${endpoint.body ? `
               <elementProp name="" elementType="HTTPArgument">
                 <boolProp name="HTTPArgument.always_encode">false</boolProp>
-                <stringProp name="Argument.value">${endpoint.body}</stringProp>
+                <stringProp name="Argument.value">${escapeXml(typeof endpoint.body === 'string' ? endpoint.body : JSON.stringify(endpoint.body))}</stringProp>
                 <stringProp name="Argument.metadata">=</stringProp>
               </elementProp>
               ` : ''}
             </collectionProp>
           </elementProp>
-          <stringProp name="HTTPSampler.domain">${new URL(endpoint.url).hostname}</stringProp>
-          <stringProp name="HTTPSampler.port">${new URL(endpoint.url).port || ''}</stringProp>
-          <stringProp name="HTTPSampler.protocol">${new URL(endpoint.url).protocol.replace(':', '')}</stringProp>
-          <stringProp name="HTTPSampler.path">${new URL(endpoint.url).pathname}</stringProp>
+          ${samplerTargetProps(endpoint.url)}
           <stringProp name="HTTPSampler.method">${endpoint.method}</stringProp>
           <stringProp name="HTTPSampler.follow_redirects">true</stringProp>
           <stringProp name="HTTPSampler.auto_redirects">false</stringProp>
@@ -547,6 +757,12 @@ function generateJMXContent(config: any): string {
           <stringProp name="HTTPSampler.response_timeout">15000</stringProp>
         </HTTPSamplerProxy>
         <hashTree>
+          ${endpoint.think_time_ms > 0 ? `
+          <ConstantTimer guiclass="ConstantTimerGui" testclass="ConstantTimer" testname="Think Time" enabled="true">
+            <stringProp name="ConstantTimer.delay">${endpoint.think_time_ms}</stringProp>
+          </ConstantTimer>
+          <hashTree/>
+          ` : ''}
           <HeaderManager guiclass="HeaderPanel" testclass="HeaderManager" testname="HTTP Header Manager" enabled="true">
             <collectionProp name="HeaderManager.headers">
               <elementProp name="" elementType="Header">
@@ -555,13 +771,14 @@ function generateJMXContent(config: any): string {
               </elementProp>
               ${Object.entries(endpoint.headers || {}).map(([name, value]) => `
               <elementProp name="" elementType="Header">
-                <stringProp name="Header.name">${name}</stringProp>
-                <stringProp name="Header.value">${value}</stringProp>
+                <stringProp name="Header.name">${escapeXml(name)}</stringProp>
+                <stringProp name="Header.value">${escapeXml(String(value))}</stringProp>
               </elementProp>
               `).join('')}
             </collectionProp>
           </HeaderManager>
           <hashTree/>
+          ${extractorElements(normalizeExtractors(endpoint.extractors))}
         </hashTree>
         `).join('')}
         
@@ -611,92 +828,6 @@ function generateJMXContent(config: any): string {
 </jmeterTestPlan>`
 }
 
-// Parse JMeter results file
-async function parseJMeterResults(resultFile: string): Promise<any> {
-  try {
-    const resultContent = await Deno.readTextFile(resultFile)
-    const lines = resultContent.split('\n').filter(line => line.trim() && !line.startsWith('timeStamp'))
-    
-    if (lines.length === 0) {
-      throw new Error('No results in JMeter output file')
-    }
-
-    const results = lines.map(line => {
-      const [
-        timeStamp, elapsed, label, responseCode, responseMessage, 
-        threadName, dataType, success, failureMessage, bytes, 
-        sentBytes, grpThreads, allThreads, URL, Latency, 
-        IdleTime, Connect
-      ] = line.split(',')
-
-      return {
-        elapsed: parseInt(elapsed),
-        responseCode,
-        success: success === 'true',
-        bytes: parseInt(bytes),
-        latency: parseInt(Latency),
-        connectTime: parseInt(Connect)
-      }
-    })
-
-    const totalRequests = results.length
-    const failedRequests = results.filter(r => !r.success).length
-    const errorRate = (failedRequests / totalRequests) * 100
-    const avgResponseTime = results.reduce((sum, r) => sum + r.elapsed, 0) / totalRequests
-    const throughput = results.reduce((sum, r) => sum + r.bytes, 0) / 1024 // KB
-    const requestsPerSecond = totalRequests / (results[results.length - 1].elapsed / 1000)
-
-    // Calculate percentiles
-    const sortedTimes = results.map(r => r.elapsed).sort((a, b) => a - b)
-    const percentile90 = sortedTimes[Math.floor(sortedTimes.length * 0.9)]
-    const percentile95 = sortedTimes[Math.floor(sortedTimes.length * 0.95)]
-    const percentile99 = sortedTimes[Math.floor(sortedTimes.length * 0.99)]
-
-    // Group errors
-    const errorDetails = results
-      .filter(r => !r.success)
-      .reduce((acc: Record<string, {count: number, sample: any}>, r) => {
-        const key = r.responseCode
-        if (!acc[key]) {
-          acc[key] = { count: 0, sample: r }
-        }
-        acc[key].count++
-        return acc
-      }, {})
-
-    return {
-      requests_per_second: parseFloat(requestsPerSecond.toFixed(2)),
-      avg_response_time: parseFloat(avgResponseTime.toFixed(2)),
-      error_rate: parseFloat(errorRate.toFixed(2)),
-      throughput: parseFloat(throughput.toFixed(2)),
-      percentile_90: percentile90,
-      percentile_95: percentile95,
-      percentile_99: percentile99,
-      total_requests: totalRequests,
-      failed_requests: failedRequests,
-      error_details: Object.entries(errorDetails).map(([code, data]) => ({
-        message: code,
-        count: data.count,
-        sample: data.sample
-      }))
-    }
-  } catch (error) {
-    console.error('Failed to parse JMeter results:', error)
-    return {
-      requests_per_second: 0,
-      avg_response_time: 0,
-      error_rate: 100,
-      throughput: 0,
-      percentile_90: 0,
-      percentile_95: 0,
-      percentile_99: 0,
-      total_requests: 0,
-      failed_requests: 0,
-      error_details: []
-    }
-  }
-}
-
 // Aggregate metrics from multiple load tests
 function aggregateLoadTestMetrics(results: any[]): any {
   if (!results || results.length === 0) {
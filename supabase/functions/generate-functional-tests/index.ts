@@ -4,6 +4,8 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import OpenAI from 'https://esm.sh/openai@4'
+import { normalizeStep, type TestStep } from '../_shared/steps.ts'
+import { readSecret } from '../_shared/vault.ts'
 
 // CORS configuration
 const corsHeaders = {
@@ -16,10 +18,7 @@ const corsHeaders = {
 
 interface FunctionalTestCase {
   test_name: string;
-  steps: Array<{
-    action: string;
-    expected_result: string;
-  }>;
+  steps: TestStep[];
   test_data: Record<string, string>;
   priority: 'Low' | 'Medium' | 'High';
   category: string;
@@ -36,41 +35,51 @@ interface GenerateFunctionalTestsRequest {
   };
 }
 
-// Define valid action patterns for LambdaTest/Selenium
-const VALID_ACTION_PATTERNS = {
-  navigate: /^navigate to\s+(?:https?:\/\/)?[^\s]+/i,
-  click: /^click\s+(?:the\s+)?[\w\s]+(?: button| link| icon| element)?$/i,
-  type: /^(?:type|enter)\s+.+\s+in\s+(?:the\s+)?[\w\s]+(?: field| input| box| textarea)?$/i,
-};
-
-const ACTION_FORMAT_GUIDE = `
-IMPORTANT: Use ONLY these specific action formats that LambdaTest/Selenium can understand:
-
-1. NAVIGATION: "navigate to [url or path]"
-   Examples:
-   - "navigate to /login"
-   - "navigate to https://example.com"
-   - "navigate to /dashboard"
-
-2. CLICKING: "click [element description]"
-   Examples:
-   - "click login button"
-   - "click submit button"
-   - "click cancel link"
-   - "click menu icon"
-
-3. TEXT INPUT: "type [value] in [field name]" OR "enter [value] in [field name]"
-   Examples:
-   - "type test@example.com in email field"
-   - "enter password123 in password field"
-   - "type John Doe in name input"
-   - "enter Hello World in message textarea"
-
-DO NOT USE complex actions like:
-- "fill in the form" (break it down to individual field entries)
-- "complete the registration" (break it down to specific clicks and types)
-- "verify the page" (use specific expected results instead)
-- "wait for page to load" (this is handled automatically)
+const STEP_FORMAT_GUIDE = `
+IMPORTANT: Every step MUST be a JSON object with a "type" field using ONLY these step types.
+Every step also carries an "expected_result" describing what the user should observe.
+
+Locators identify elements explicitly. Prefer, in order:
+- {"strategy": "test_id", "value": "login-submit"}           (data-testid attribute)
+- {"strategy": "role", "value": "button", "name": "Log in"}  (ARIA role + accessible name; roles: button, link, textbox, checkbox, radio, combobox, heading, img)
+- {"strategy": "css", "value": "input[name='email']"}
+- {"strategy": "xpath", "value": "//form//button[@type='submit']"}
+- {"strategy": "text", "value": "Forgot password?"}          (visible text)
+
+Step types:
+1. {"type": "navigate", "url": "/login"}
+2. {"type": "click", "locator": LOCATOR}
+3. {"type": "fill", "locator": LOCATOR, "value": "john@example.com"}
+4. {"type": "select", "locator": LOCATOR, "option": "United States"}
+5. {"type": "hover", "locator": LOCATOR}
+6. {"type": "press_key", "key": "Enter", "locator": LOCATOR (optional)}
+7. {"type": "upload_file", "locator": LOCATOR, "file_path": "/tmp/avatar.png"}
+8. {"type": "assert_text", "locator": LOCATOR, "text": "Welcome back", "match": "contains" | "equals"}
+9. {"type": "assert_visible", "locator": LOCATOR, "visible": true | false}
+10. {"type": "assert_url", "url": "/dashboard", "match": "contains" | "equals"}
+11. {"type": "assert_attribute", "locator": LOCATOR, "attribute": "disabled", "value": "true"}
+12. {"type": "wait_for", "locator": LOCATOR, "state": "visible" | "present", "timeout_ms": 5000}
+
+Verification:
+Each step's expected_result is turned into checks after the step runs. Write it so it can be verified:
+- "User is redirected to /dashboard"        (URL check)
+- "Page title is 'Sign in'"                  (title check)
+- "'Profile saved' toast appears"            (toast check)
+- "'Invalid password' message is displayed"  (text-on-page check)
+For anything more specific, add explicit "assertions" to the step:
+  "assertions": [
+    {"kind": "url", "value": "/dashboard"},
+    {"kind": "title", "value": "Dashboard", "match": "contains"},
+    {"kind": "text", "locator": LOCATOR, "value": "Welcome"},
+    {"kind": "visible", "locator": LOCATOR, "visible": true},
+    {"kind": "count", "locator": LOCATOR, "count": 3, "op": "eq" | "gte" | "lte"},
+    {"kind": "toast", "value": "Saved"}
+  ]
+
+DO NOT:
+- Use free-text actions like "click login button" or "fill in the form"
+- Target generic selectors such as "button" or "input" that match many elements
+- Rely on expected_result alone for verification; add an assert_* step for anything that must be checked
 `;
 
 // Helper functions
@@ -83,19 +92,15 @@ function validateTestCases(testCases: any[]): FunctionalTestCase[] {
     if (!tc.category) tc.category = 'UI';
     if (!tc.test_data) tc.test_data = {};
     
-    // Validate and fix steps
-    tc.steps = tc.steps.map((step: any) => {
-      if (typeof step !== 'object') {
-        return {
-          action: 'navigate to /',
-          expected_result: 'Page loads'
-        };
+    // Validate steps, converting free-text actions and dropping anything that cannot be executed
+    tc.steps = tc.steps.flatMap((step: any) => {
+      try {
+        const normalized = normalizeStep(step, tc.test_data);
+        return [{ ...normalized, expected_result: normalized.expected_result || 'Step completed' }];
+      } catch (error) {
+        console.warn(`Dropping invalid step in "${tc.test_name}": ${error.message}`);
+        return [];
       }
-      
-      return {
-        action: step.action ? fixActionFormat(step.action) : 'navigate to /',
-        expected_result: step.expected_result || 'Step completed'
-      };
     });
     
     return {
@@ -105,40 +110,6 @@ function validateTestCases(testCases: any[]): FunctionalTestCase[] {
   });
 }
 
-function fixActionFormat(action: string): string {
-  const actionLower = action.toLowerCase();
-  
-  // Navigation fixes
-  if (actionLower.includes('go to') || actionLower.includes('navigate') || 
-      actionLower.includes('open') || actionLower.includes('visit')) {
-    const urlMatch = action.match(/(https?:\/\/[^\s]+)|(\/[^\s]*)/i);
-    const path = urlMatch ? urlMatch[0] : '/';
-    return `navigate to ${path}`;
-  }
-  
-  // Click fixes
-  if (actionLower.includes('click') || actionLower.includes('press') || 
-      actionLower.includes('tap') || actionLower.includes('select')) {
-    const element = action.replace(/click|press|tap|select/gi, '').trim();
-    return `click ${element}`;
-  }
-  
-  // Input fixes
-  if (actionLower.includes('type') || actionLower.includes('enter') || 
-      actionLower.includes('input') || actionLower.includes('fill')) {
-    const valueMatch = action.match(/"([^"]+)"|'([^']+)'|(\S+)/);
-    const fieldMatch = action.match(/(?:in|into|to)\s+([^\s]+)/i);
-    
-    const value = valueMatch ? (valueMatch[1] || valueMatch[2] || valueMatch[3]) : 'value';
-    const field = fieldMatch ? fieldMatch[1] : 'field';
-    
-    return `type ${value} in ${field}`;
-  }
-  
-  // Default to click action
-  return `click ${action}`;
-}
-
 async function fetchGitHubPR(prUrl: string, githubToken: string) {
   // Extract owner, repo, and PR number from URL
   const urlMatch = prUrl.match(/github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/)
@@ -364,7 +335,7 @@ serve(async (req) => {
 
 ${sourceData.description}
 
-${ACTION_FORMAT_GUIDE}
+${STEP_FORMAT_GUIDE}
 
 Generate test cases that:
 1. Cover happy path scenarios for UI interactions
@@ -378,18 +349,19 @@ EXAMPLE of a properly formatted functional test case:
 {
   "test_name": "Verify user login with valid credentials",
   "steps": [
-    {"action": "navigate to /login", "expected_result": "Login page is displayed"},
-    {"action": "type john@example.com in email field", "expected_result": "Email field contains john@example.com"},
-    {"action": "type password123 in password field", "expected_result": "Password field is filled"},
-    {"action": "click login button", "expected_result": "User is redirected to dashboard"},
-    {"action": "navigate to /dashboard", "expected_result": "Dashboard page loads with user data"}
+    {"type": "navigate", "url": "/login", "expected_result": "Login page is displayed"},
+    {"type": "fill", "locator": {"strategy": "css", "value": "input[name='email']"}, "value": "john@example.com", "expected_result": "Email field contains john@example.com"},
+    {"type": "fill", "locator": {"strategy": "css", "value": "input[type='password']"}, "value": "password123", "expected_result": "Password field is filled"},
+    {"type": "click", "locator": {"strategy": "role", "value": "button", "name": "Log in"}, "expected_result": "User is redirected to dashboard"},
+    {"type": "assert_url", "url": "/dashboard", "match": "contains", "expected_result": "Dashboard URL is shown"},
+    {"type": "assert_visible", "locator": {"strategy": "test_id", "value": "user-menu"}, "expected_result": "Dashboard page loads with user data"}
   ],
   "test_data": {"email": "john@example.com", "password": "password123"},
   "priority": "High",
   "category": "Authentication"
 }
 
-Return ONLY a JSON array of functional test cases. Each action MUST follow the format guide exactly.`
+Return ONLY a JSON array of functional test cases. Each step MUST follow the step format guide exactly.`
         break
       
       case 'github_pr': {
@@ -403,7 +375,10 @@ Return ONLY a JSON array of functional test cases. Each action MUST follow the f
           )
         }
         try {
-          const prData = await fetchGitHubPR(sourceData.prUrl, project.github_token)
+          // The owner's token is in the secrets vault, which only the service role can read
+          const vaultClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+          const githubToken = await readSecret(vaultClient, { ownerId: project.owner_id }, 'github_token')
+          const prData = await fetchGitHubPR(sourceData.prUrl, githubToken ?? '')
           prompt = `Generate functional test cases for Selenium/LambdaTest based on this GitHub Pull Request:
 
 PR Title: ${prData.title}
@@ -413,7 +388,7 @@ Changed Files: ${prData.files.map(f => f.filename).join(', ')}
 Key Changes:
 ${prData.files.map(f => `- ${f.filename} (${f.status}): ${f.patch || 'No diff available'}`).join('\n')}
 
-${ACTION_FORMAT_GUIDE}
+${STEP_FORMAT_GUIDE}
 
 Generate functional test cases that:
 1. Target UI changes and new user-facing features
@@ -423,9 +398,9 @@ Generate functional test cases that:
 5. Focus on features that can be automated with Selenium WebDriver
 6. Include regression tests for existing functionality that might be affected
 
-Break down complex workflows into simple, testable actions. Focus on what users can see and interact with in the browser.
+Break down complex workflows into simple, testable steps. Focus on what users can see and interact with in the browser.
 
-Return ONLY a JSON array of functional test cases. Each action MUST use only: navigate to, click, type/enter in.`
+Return ONLY a JSON array of functional test cases. Each step MUST use only the typed step formats above.`
         } catch (prError) {
           console.error('Failed to fetch GitHub PR:', prError)
           return new Response(
@@ -453,7 +428,7 @@ Return ONLY a JSON array of functional test cases. Each action MUST use only: na
 
 ${JSON.stringify(sourceData.repositoryStructure, null, 2)}
 
-${ACTION_FORMAT_GUIDE}
+${STEP_FORMAT_GUIDE}
 
 Generate functional test cases that:
 1. Cover main user journeys and workflows
@@ -463,12 +438,9 @@ Generate functional test cases that:
 5. Include authentication flows if present
 6. Focus on end-to-end user scenarios
 
-Remember to break down ALL complex actions into simple, Selenium-compatible steps using ONLY:
-- "navigate to [path]" for page navigation
-- "click [element]" for all clicking actions
-- "type [value] in [field]" or "enter [value] in [field]" for text input
+Remember to break down ALL complex flows into typed steps with explicit locators, and to assert outcomes with assert_* steps.
 
-Return ONLY a JSON array of functional test cases with properly formatted actions for automated execution.`
+Return ONLY a JSON array of functional test cases with properly formatted steps for automated execution.`
         break
 
       default:
@@ -489,13 +461,11 @@ Return ONLY a JSON array of functional test cases with properly formatted action
         {
           role: 'system',
           content: `You are an expert QA automation engineer specializing in Selenium WebDriver and LambdaTest. 
-You MUST generate functional test cases using ONLY these exact action formats:
-1. "navigate to [url/path]" - for navigation
-2. "click [element]" - for clicking elements
-3. "type [value] in [field]" OR "enter [value] in [field]" - for text input
+You MUST generate functional test cases whose steps are typed JSON objects with a "type" field:
+navigate, click, fill, select, hover, press_key, upload_file, assert_text, assert_visible, assert_url, assert_attribute, wait_for.
 
-NEVER use any other action format. Break down complex user flows into these simple, automatable steps.
-Always be specific about element names (e.g., "login button", "email field", "submit button").
+Every element interaction needs an explicit locator object ({"strategy": "test_id" | "role" | "css" | "xpath" | "text", "value": ..., "name": ...}).
+Prefer test ids and role + accessible name over CSS; never use free-text actions.
 Generate practical, executable test cases that focus on UI interactions and user workflows.
 Return only valid JSON format without code blocks or explanations.`
         },
@@ -563,8 +533,9 @@ Return only valid JSON format without code blocks or explanations.`
         {
           test_name: "Basic Navigation Test",
           steps: [
-            { action: "navigate to /", expected_result: "Homepage loads successfully" },
-            { action: "click about link", expected_result: "About page is displayed" }
+            { type: "navigate", url: "/", expected_result: "Homepage loads successfully" },
+            { type: "click", locator: { strategy: "role", value: "link", name: "About" }, expected_result: "About page is displayed" },
+            { type: "assert_url", url: "/about", match: "contains", expected_result: "About page is displayed" }
           ],
           test_data: { "note": "Auto-generated fallback test" },
           priority: "Medium" as const,
@@ -574,10 +545,10 @@ Return only valid JSON format without code blocks or explanations.`
         {
           test_name: "Basic Form Interaction Test",
           steps: [
-            { action: "navigate to /contact", expected_result: "Contact form is displayed" },
-            { action: "type John Doe in name field", expected_result: "Name is entered" },
-            { action: "type john@example.com in email field", expected_result: "Email is entered" },
-            { action: "click submit button", expected_result: "Form submission is attempted" }
+            { type: "navigate", url: "/contact", expected_result: "Contact form is displayed" },
+            { type: "fill", locator: { strategy: "css", value: "input[name='name']" }, value: "John Doe", expected_result: "Name is entered" },
+            { type: "fill", locator: { strategy: "css", value: "input[name='email']" }, value: "john@example.com", expected_result: "Email is entered" },
+            { type: "click", locator: { strategy: "role", value: "button", name: "Submit" }, expected_result: "Form submission is attempted" }
           ],
           test_data: { 
             "name": "John Doe",
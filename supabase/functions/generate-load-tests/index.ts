@@ -4,6 +4,12 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import OpenAI from 'https://esm.sh/openai@4'
+import { normalizeThresholds, type Threshold } from '../_shared/thresholds.ts'
+import { LOAD_PROFILE_TYPES, type LoadProfile } from '../_shared/load-profiles.ts'
+import { parseApiDocument, readApiSpec, type ApiSpec } from '../_shared/openapi.ts'
+import { parseRecording, type Recording } from '../_shared/recordings.ts'
+import { normalizeExtractors, type Extractor } from '../_shared/variables.ts'
+import { readSecret } from '../_shared/vault.ts'
 
 // CORS configuration - Fixed headers
 const corsHeaders = {
@@ -23,10 +29,13 @@ interface LoadTestConfig {
     duration: number;
     target_tps?: number;
     endpoints: Array<{
+      name?: string;
       url: string;
-      method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+      method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
       body?: string;
       headers?: Record<string, string>;
+      think_time_ms?: number;
+      extractors?: Extractor[];
       assertions?: Array<{
         field: string;
         pattern: string;
@@ -40,13 +49,23 @@ interface LoadTestConfig {
       filename: string;
       variables: string[];
     };
+    thresholds?: Threshold[];
+    profile?: LoadProfile;
   };
 }
 
 interface GenerateLoadTestRequest {
   projectId: string;
-  sourceType: 'api_endpoints' | 'url_analysis' | 'custom_config';
+  sourceType: 'api_endpoints' | 'url_analysis' | 'custom_config' | 'openapi' | 'har' | 'postman';
   sourceData: {
+    // har / postman: the exported HAR file or Postman v2.1 collection
+    recording?: string;
+    // openapi: the OpenAPI 3 / Swagger 2 document (JSON or YAML), or its path in the project's repository
+    spec?: string;
+    specPath?: string;
+    repositoryUrl?: string;
+    // openapi: only import operations with these methods
+    methods?: string[];
     description?: string;
     baseUrl?: string;
     endpoints?: Array<{
@@ -60,6 +79,7 @@ interface GenerateLoadTestRequest {
       ramp_up?: number;
       duration?: number;
       target_tps?: number;
+      profile?: LoadProfile;
     };
   };
 }
@@ -72,6 +92,7 @@ Test Configuration:
 - Ramp-up Period: {ramp_up} seconds
 - Test Duration: {duration} seconds
 - Target Throughput: {target_tps} transactions per second
+- Load Profile: {profile}
 - Base URL: {baseUrl}
 
 API Endpoints to Test:
@@ -103,6 +124,8 @@ Generate a complete JMeter test configuration that includes:
 5. **Data Management**:
    - CSV Data Set Config if test data is needed
    - Variable definitions for dynamic data
+   - Request chaining: endpoints run in order for each virtual user, so capture values such as
+     tokens or created IDs with extractors and reuse them as \${name} in later URLs, headers and bodies
 
 6. **Monitoring**:
    - Response time thresholds
@@ -122,12 +145,17 @@ Return ONLY a JSON object with this exact structure:
     "endpoints": [
       {
         "url": "string (full URL or path)",
-        "method": "GET|POST|PUT|DELETE",
+        "method": "GET|POST|PUT|PATCH|DELETE",
         "body": "string (JSON body for POST/PUT)",
         "headers": {
           "Content-Type": "application/json",
           "Authorization": "Bearer \${token}"
         },
+        "extractors": [
+          { "name": "token", "type": "json_path", "expression": "$.access_token" },
+          { "name": "order_url", "type": "header", "expression": "Location" },
+          { "name": "csrf", "type": "regex", "expression": "name=\\"csrf\\" value=\\"([^\\"]+)\\"" }
+        ],
         "assertions": [
           {
             "field": "response_code",
@@ -147,13 +175,32 @@ Return ONLY a JSON object with this exact structure:
     "csv_data": {
       "filename": "test_data.csv",
       "variables": ["userId", "email", "token"]
-    }
+    },
+    "profile": { "type": "constant_arrival_rate", "rate": 50, "duration": 300 },
+    "thresholds": [
+      { "metric": "p95", "op": "<", "value": 2000 },
+      { "metric": "error_rate", "op": "<", "value": 1 },
+      { "metric": "p95", "op": "<", "value": 1000, "endpoint": "GET /api/health" }
+    ]
   }
 }
 
+Extractors store the first match in a per-user variable: json_path reads the JSON body, regex keeps its first capture group from the body and header reads a response header by name. Omit "extractors" when nothing needs to be captured.
+
+Thresholds decide whether the run passes. Metrics: p90, p95, p99, avg_response_time (ms), error_rate (%), rps, throughput (req/s). Operators: <, <=, >, >=. Omit "endpoint" for run-wide thresholds.
+
+The profile sets how load is generated. Omit it for fixed virtual users, or use one of:
+- { "type": "constant_arrival_rate", "rate": RPS, "duration": seconds }
+- { "type": "stages", "stages": [{ "duration": seconds, "target": RPS }] } (the rate ramps linearly to each target)
+- { "type": "spike", "baseline_rate": RPS, "spike_rate": RPS, "spike_at": seconds, "spike_duration": seconds, "duration": seconds }
+- { "type": "soak", "rate": RPS, "duration": seconds }
+- { "type": "step", "start_rate": RPS, "step_rate": RPS, "step_duration": seconds, "steps": number }
+
 Focus on realistic load patterns and proper performance testing practices. Include appropriate assertions and data management for a production-ready load test.
 `;
 
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
 // Helper functions
 function validateLoadTestConfig(config: any): LoadTestConfig {
   // Ensure required fields exist with defaults
@@ -171,22 +218,33 @@ function validateLoadTestConfig(config: any): LoadTestConfig {
         constant_delay: config.jmeter_config?.timers?.constant_delay || 500,
         random_delay: config.jmeter_config?.timers?.random_delay || 300
       },
-      csv_data: config.jmeter_config?.csv_data || undefined
+      csv_data: config.jmeter_config?.csv_data || undefined,
+      thresholds: normalizeThresholds(config.jmeter_config?.thresholds),
+      profile: LOAD_PROFILE_TYPES.includes(config.jmeter_config?.profile?.type)
+        ? config.jmeter_config.profile
+        : undefined
     }
   };
 
   // Validate and fix endpoints
   if (config.jmeter_config?.endpoints && Array.isArray(config.jmeter_config.endpoints)) {
-    validatedConfig.jmeter_config.endpoints = config.jmeter_config.endpoints.map((endpoint: any) => ({
-      url: endpoint.url || '/',
-      method: ['GET', 'POST', 'PUT', 'DELETE'].includes(endpoint.method) ? endpoint.method : 'GET',
-      body: endpoint.body || undefined,
-      headers: endpoint.headers || { 'Content-Type': 'application/json' },
-      assertions: Array.isArray(endpoint.assertions) ? endpoint.assertions : [
-        { field: 'response_code', pattern: '200' },
-        { field: 'response_time', pattern: '< 3000' }
-      ]
-    }));
+    validatedConfig.jmeter_config.endpoints = config.jmeter_config.endpoints.map((endpoint: any) => {
+      const extractors = normalizeExtractors(endpoint.extractors);
+      return {
+        ...(typeof endpoint.name === 'string' && endpoint.name.trim() && { name: endpoint.name.trim() }),
+        url: endpoint.url || '/',
+        method: HTTP_METHODS.includes(endpoint.method) ? endpoint.method : 'GET',
+        body: endpoint.body || undefined,
+        headers: endpoint.headers || { 'Content-Type': 'application/json' },
+        // Recorded and imported flows carry the pause before the next request
+        ...(Number(endpoint.think_time_ms) > 0 && { think_time_ms: Number(endpoint.think_time_ms) }),
+        ...(extractors.length > 0 && { extractors }),
+        assertions: Array.isArray(endpoint.assertions) ? endpoint.assertions : [
+          { field: 'response_code', pattern: '200' },
+          { field: 'response_time', pattern: '< 3000' }
+        ]
+      };
+    });
   } else {
     // Default endpoint if none provided
     validatedConfig.jmeter_config.endpoints = [{
@@ -226,6 +284,7 @@ function buildLoadTestPrompt(requestData: GenerateLoadTestRequest): string {
     .replace('{ramp_up}', config.ramp_up.toString())
     .replace('{duration}', config.duration.toString())
     .replace('{target_tps}', config.target_tps?.toString() || 'not specified')
+    .replace('{profile}', config.profile ? JSON.stringify(config.profile) : 'fixed virtual users (closed model)')
     .replace('{baseUrl}', sourceData.baseUrl || 'https://api.example.com')
     .replace('{endpoints}', endpointsString)
     .replace('{description}', sourceData.description || 'General API performance testing');
@@ -241,6 +300,7 @@ function createDefaultLoadTestConfig(sourceData: any): LoadTestConfig {
       ramp_up: sourceData.config?.ramp_up || 30,
       duration: sourceData.config?.duration || 300,
       target_tps: sourceData.config?.target_tps || undefined,
+      profile: sourceData.config?.profile,
       endpoints: sourceData.endpoints || [{
         url: '/',
         method: 'GET',
@@ -258,6 +318,190 @@ function createDefaultLoadTestConfig(sourceData: any): LoadTestConfig {
   };
 }
 
+// Operations beyond this are left out so huge specs still produce a runnable test
+const MAX_OPENAPI_OPERATIONS = 100;
+
+async function loadApiSpec(userId: string, project: any, sourceData: GenerateLoadTestRequest['sourceData']): Promise<ApiSpec> {
+  let content = sourceData.spec;
+
+  if (!content && sourceData.specPath) {
+    const repositoryUrl = sourceData.repositoryUrl || project.repository_url;
+    const match = repositoryUrl?.match(/github\.com\/([^/]+)\/([^/.]+)/);
+    if (!match) {
+      throw new Error('A GitHub repository URL is required to import a spec by path');
+    }
+
+    // The token is in the secrets vault, which only the service role can read; public repos work without one
+    const vaultClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+    const githubToken = await readSecret(vaultClient, { ownerId: userId }, 'github_token');
+
+    const [, owner, repo] = match;
+    const response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/contents/${sourceData.specPath.replace(/^\//, '')}`,
+      {
+        headers: {
+          ...(githubToken && { 'Authorization': `token ${githubToken}` }),
+          'Accept': 'application/vnd.github.v3.raw',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${sourceData.specPath} from GitHub: ${response.status} ${response.statusText}`);
+    }
+    content = await response.text();
+  }
+
+  if (!content) {
+    throw new Error('Provide the spec content or a specPath for the openapi source type');
+  }
+
+  const spec = readApiSpec(parseApiDocument(content));
+  const methods = sourceData.methods?.map(method => method.toUpperCase());
+  spec.operations = spec.operations
+    .filter(operation => !methods || methods.includes(operation.method))
+    .slice(0, MAX_OPENAPI_OPERATIONS);
+
+  if (spec.operations.length === 0) {
+    throw new Error('The API document has no operations to test');
+  }
+  return spec;
+}
+
+// One endpoint per operation; the spec already gives the structure, so no model is involved
+function createOpenApiLoadTestConfig(spec: ApiSpec, sourceData: GenerateLoadTestRequest['sourceData']): LoadTestConfig {
+  const baseUrl = (sourceData.baseUrl || spec.baseUrl).replace(/\/$/, '');
+
+  return {
+    test_name: `Load Test - ${spec.title}${spec.version ? ` ${spec.version}` : ''}`,
+    description: `Load test covering ${spec.operations.length} operations imported from the ${spec.title} API spec`,
+    test_type: 'load',
+    jmeter_config: {
+      threads: sourceData.config?.threads || 10,
+      ramp_up: sourceData.config?.ramp_up || 30,
+      duration: sourceData.config?.duration || 300,
+      target_tps: sourceData.config?.target_tps || undefined,
+      profile: sourceData.config?.profile,
+      endpoints: spec.operations.map(operation => ({
+        name: operation.name,
+        url: `${baseUrl}${operation.url}`,
+        method: operation.method as LoadTestConfig['jmeter_config']['endpoints'][number]['method'],
+        body: operation.body,
+        headers: operation.headers,
+        assertions: [
+          { field: 'response_code', pattern: operation.successStatus },
+          { field: 'response_time', pattern: '< 3000' }
+        ]
+      })),
+      timers: {
+        constant_delay: 500,
+        random_delay: 300
+      }
+    }
+  };
+}
+
+// Functional test with one http_request step per operation, checking its status and required response fields
+function createOpenApiFunctionalTestCase(spec: ApiSpec, sourceData: GenerateLoadTestRequest['sourceData']) {
+  const baseUrl = (sourceData.baseUrl || spec.baseUrl).replace(/\/$/, '');
+
+  return {
+    name: `API checks - ${spec.title}`,
+    description: `Request-level checks for ${spec.operations.length} operations from the ${spec.title} API spec`,
+    test_type: 'functional',
+    steps: spec.operations.map(operation => ({
+      type: 'http_request',
+      description: operation.name,
+      method: operation.method,
+      url: `${baseUrl}${operation.url}`,
+      headers: operation.headers,
+      body: operation.body,
+      checks: [
+        { field: 'response_code', pattern: operation.successStatus },
+        ...operation.responseFields.map(field => ({ field: 'json_path', path: `$.${field}` }))
+      ]
+    })),
+    test_data: {},
+    priority: 'High',
+    category: 'API'
+  };
+}
+
+// Recorded requests go to the recording's main host, or to baseUrl in its place
+function rebaseRecording(recording: Recording, baseUrl?: string): (url: string) => string {
+  if (!baseUrl) return url => url;
+
+  const origins = new Map<string, number>();
+  for (const request of recording.requests) {
+    const origin = request.url.match(/^https?:\/\/[^/?#]+/i)?.[0];
+    if (origin) origins.set(origin, (origins.get(origin) || 0) + 1);
+  }
+  const primary = [...origins.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const target = baseUrl.replace(/\/$/, '');
+
+  return url => primary && url.startsWith(primary) ? `${target}${url.slice(primary.length)}` : url;
+}
+
+// Requests replay in recorded order with their think times; correlated values flow through extractors
+function createRecordingLoadTestConfig(recording: Recording, sourceType: 'har' | 'postman', sourceData: GenerateLoadTestRequest['sourceData']): LoadTestConfig {
+  const rebase = rebaseRecording(recording, sourceData.baseUrl);
+  const source = sourceType === 'har' ? 'HAR recording' : 'Postman collection';
+
+  return {
+    test_name: `Load Test - ${recording.title}`,
+    description: `Load test replaying ${recording.requests.length} requests from the ${recording.title} ${source}` +
+      (recording.variables.length > 0 ? `, correlating ${recording.variables.join(', ')}` : ''),
+    test_type: 'load',
+    jmeter_config: {
+      threads: sourceData.config?.threads || 10,
+      ramp_up: sourceData.config?.ramp_up || 30,
+      duration: sourceData.config?.duration || 300,
+      target_tps: sourceData.config?.target_tps || undefined,
+      profile: sourceData.config?.profile,
+      endpoints: recording.requests.map(request => ({
+        name: request.name,
+        url: rebase(request.url),
+        method: request.method as LoadTestConfig['jmeter_config']['endpoints'][number]['method'],
+        body: request.body,
+        headers: request.headers,
+        ...(request.thinkTimeMs && { think_time_ms: request.thinkTimeMs }),
+        ...(request.extractors.length > 0 && { extractors: request.extractors }),
+        assertions: [
+          ...(request.status && request.status < 300 ? [{ field: 'response_code', pattern: String(request.status) }] : []),
+          { field: 'response_time', pattern: '< 3000' }
+        ]
+      })),
+      timers: {
+        constant_delay: 0,
+        random_delay: 0
+      }
+    }
+  };
+}
+
+function createRecordingFunctionalTestCase(recording: Recording, sourceType: 'har' | 'postman', sourceData: GenerateLoadTestRequest['sourceData']) {
+  const rebase = rebaseRecording(recording, sourceData.baseUrl);
+
+  return {
+    name: `API checks - ${recording.title}`,
+    description: `Replays ${recording.requests.length} requests from the ${recording.title} ${sourceType === 'har' ? 'HAR recording' : 'Postman collection'}`,
+    test_type: 'functional',
+    steps: recording.requests.map(request => ({
+      type: 'http_request',
+      description: request.name,
+      method: request.method,
+      url: rebase(request.url),
+      headers: request.headers,
+      body: request.body,
+      checks: request.status && request.status < 300 ? [{ field: 'response_code', pattern: String(request.status) }] : [],
+      ...(request.extractors.length > 0 && { extractors: request.extractors })
+    })),
+    test_data: {},
+    priority: 'High',
+    category: 'API'
+  };
+}
+
 // Main handler
 serve(async (req) => {
   console.log(`${req.method} ${req.url}`)
@@ -291,7 +535,7 @@ serve(async (req) => {
     const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
     const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
 
-    if (!supabaseUrl || !supabaseAnonKey || !openaiApiKey) {
+    if (!supabaseUrl || !supabaseAnonKey) {
       console.error('Missing required environment variables')
       return new Response(
         JSON.stringify({ error: 'Server configuration error' }),
@@ -365,9 +609,9 @@ serve(async (req) => {
     }
 
     // Validate source type
-    if (!['api_endpoints', 'url_analysis', 'custom_config'].includes(sourceType)) {
+    if (!['api_endpoints', 'url_analysis', 'custom_config', 'openapi', 'har', 'postman'].includes(sourceType)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid source type. Supported: api_endpoints, url_analysis, custom_config' }),
+        JSON.stringify({ error: 'Invalid source type. Supported: api_endpoints, url_analysis, custom_config, openapi, har, postman' }),
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -397,56 +641,102 @@ serve(async (req) => {
 
     console.log('Project verified:', project.id)
 
-    // Initialize OpenAI
-    const openai = new OpenAI({
-      apiKey: openaiApiKey,
-    })
-
-    console.log('Generating JMeter load test configuration...');
-    
     let loadTestConfig: LoadTestConfig;
-
-    try {
-      // Build the prompt based on source data
-      const prompt = buildLoadTestPrompt(requestData);
-
-      // Generate load test configuration using OpenAI
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a performance testing expert specializing in Apache JMeter. ' +
-              'Generate comprehensive, production-ready JMeter test plans with proper thread groups, ' +
-              'HTTP samplers, timers, assertions, and data management. ' +
-              'Return ONLY valid JSON configuration matching the exact required structure. ' +
-              'Focus on realistic load patterns and include appropriate performance thresholds.'
-          },
-          {
-            role: 'user',
-            content: prompt
+    // Imported sources also yield request-level functional checks
+    let apiTestCaseData: Record<string, any> | null = null;
+
+    if (sourceType === 'openapi' || sourceType === 'har' || sourceType === 'postman') {
+      try {
+        if (sourceType === 'openapi') {
+          const apiSpec = await loadApiSpec(user.id, project, sourceData);
+          console.log(`Imported ${apiSpec.operations.length} operations from ${apiSpec.title}`);
+          loadTestConfig = createOpenApiLoadTestConfig(apiSpec, sourceData);
+          apiTestCaseData = createOpenApiFunctionalTestCase(apiSpec, sourceData);
+        } else {
+          if (!sourceData.recording) {
+            throw new Error(`Provide the exported ${sourceType === 'har' ? 'HAR file' : 'collection'} as sourceData.recording`);
           }
-        ],
-        temperature: 0.1, // Lower temperature for more precise configurations
-        max_tokens: 3000,
-        response_format: { type: "json_object" },
-      });
-
-      const generatedContent = completion.choices[0]?.message?.content;
-      if (!generatedContent) {
-        throw new Error('Failed to generate load test configuration');
+          const recording = parseRecording(sourceData.recording, sourceType);
+          console.log(`Imported ${recording.requests.length} requests from ${recording.title}, correlated: ${recording.variables.join(', ') || 'none'}`);
+          loadTestConfig = createRecordingLoadTestConfig(recording, sourceType, sourceData);
+          apiTestCaseData = createRecordingFunctionalTestCase(recording, sourceType, sourceData);
+        }
+      } catch (importError) {
+        console.error(`Failed to import ${sourceType} source:`, importError);
+        return new Response(
+          JSON.stringify({ error: importError.message }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+    } else {
+      if (!openaiApiKey) {
+        console.error('Missing OPENAI_API_KEY')
+        return new Response(
+          JSON.stringify({ error: 'Server configuration error' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
       }
 
-      // Parse and validate the generated configuration
-      const parsedConfig = JSON.parse(generatedContent);
-      loadTestConfig = validateLoadTestConfig(parsedConfig);
+      // Initialize OpenAI
+      const openai = new OpenAI({
+        apiKey: openaiApiKey,
+      })
+
+      console.log('Generating JMeter load test configuration...');
+    
+      try {
+        // Build the prompt based on source data
+        const prompt = buildLoadTestPrompt(requestData);
+
+        // Generate load test configuration using OpenAI
+        const completion = await openai.chat.completions.create({
+          model: 'gpt-4o-mini',
+          messages: [
+            {
+              role: 'system',
+              content: 'You are a performance testing expert specializing in Apache JMeter. ' +
+                'Generate comprehensive, production-ready JMeter test plans with proper thread groups, ' +
+                'HTTP samplers, timers, assertions, and data management. ' +
+                'Return ONLY valid JSON configuration matching the exact required structure. ' +
+                'Focus on realistic load patterns and include appropriate performance thresholds.'
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: 0.1, // Lower temperature for more precise configurations
+          max_tokens: 3000,
+          response_format: { type: "json_object" },
+        });
+
+        const generatedContent = completion.choices[0]?.message?.content;
+        if (!generatedContent) {
+          throw new Error('Failed to generate load test configuration');
+        }
+
+        // Parse and validate the generated configuration
+        const parsedConfig = JSON.parse(generatedContent);
+        loadTestConfig = validateLoadTestConfig(parsedConfig);
+
+        // A profile chosen by the user wins over the model's suggestion
+        if (sourceData.config?.profile) {
+          loadTestConfig.jmeter_config.profile = sourceData.config.profile;
+        }
 
-    } catch (generationError) {
-      console.error('Failed to generate load test config with AI:', generationError);
+      } catch (generationError) {
+        console.error('Failed to generate load test config with AI:', generationError);
       
-      // Fallback to default configuration
-      console.log('Using default load test configuration...');
-      loadTestConfig = createDefaultLoadTestConfig(sourceData);
+        // Fallback to default configuration
+        console.log('Using default load test configuration...');
+        loadTestConfig = createDefaultLoadTestConfig(sourceData);
+      }
     }
 
     // Enhanced configuration based on source type
@@ -472,6 +762,12 @@ serve(async (req) => {
       case 'custom_config':
         loadTestConfig.description = sourceData.description || 'Custom load test configuration';
         break;
+
+      case 'openapi':
+      case 'har':
+      case 'postman':
+        // Named and described from the imported source already
+        break;
     }
 
     // Store the load test configuration
@@ -495,6 +791,24 @@ serve(async (req) => {
       throw new Error(`Failed to save load test: ${insertError.message}`);
     }
 
+    let apiTestCase = null;
+    if (apiTestCaseData) {
+      const { data, error: apiTestError } = await supabaseClient
+        .from('test_cases')
+        .insert({
+          project_id: projectId,
+          ...apiTestCaseData,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (apiTestError) {
+        console.error('Failed to save API checks:', apiTestError);
+      }
+      apiTestCase = data;
+    }
+
     // Store AI generation record
     const { error: aiRecordError } = await supabaseClient
       .from('ai_features')
@@ -516,8 +830,9 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         testCase: insertedTestCase,
+        apiTestCase,
         loadTestConfig: loadTestConfig,
-        generatedCount: 1,
+        generatedCount: apiTestCase ? 2 : 1,
         testType: 'load',
         jmeterInfo: {
           threads: loadTestConfig.jmeter_config.threads,
@@ -4,6 +4,7 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import OpenAI from 'https://esm.sh/openai@4'
+import { readSecret } from '../_shared/vault.ts'
 
 // CORS configuration - More permissive for development
 const corsHeaders = {
@@ -597,7 +598,10 @@ Return ONLY a JSON array of test cases with the exact structure shown above. Eac
           )
         }
         try {
-          const prData = await fetchGitHubPR(sourceData.prUrl, project.github_token)
+          // The owner's token is in the secrets vault, which only the service role can read
+          const vaultClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+          const githubToken = await readSecret(vaultClient, { ownerId: project.owner_id }, 'github_token')
+          const prData = await fetchGitHubPR(sourceData.prUrl, githubToken ?? '')
           prompt = `Analyze this GitHub Pull Request and generate comprehensive test cases:
 
 PR Title: ${prData.title}
@@ -4,6 +4,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts"
+import { readSecret } from '../_shared/vault.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,6 @@ const corsHeaders = {
 
 interface AnalyzeRepositoryRequest {
   repositoryUrl: string;
-  githubToken: string;
 }
 
 interface RepositoryStructure {
@@ -37,6 +37,8 @@ serve(async (req) => {
     return handleRepositoryAnalysis(req)
   } else if (pathname.endsWith('/setup-webhook')) {
     return handleWebhookSetup(req)
+  } else if (pathname.endsWith('/repositories')) {
+    return handleListRepositories(req)
   }
 
   return new Response('Not found', { status: 404, headers: corsHeaders })
@@ -93,7 +95,11 @@ async function handleRepositoryAnalysis(req: Request) {
       return new Response('Unauthorized', { status: 401, headers: corsHeaders })
     }
 
-    const { repositoryUrl, githubToken }: AnalyzeRepositoryRequest = await req.json()
+    const { repositoryUrl }: AnalyzeRepositoryRequest = await req.json()
+    const githubToken = await getGitHubToken(user.id)
+    if (!githubToken) {
+      return githubTokenRequired()
+    }
 
     // Extract owner and repo from URL
     const urlMatch = repositoryUrl.match(/github\.com\/([^/]+)\/([^/]+)/)
@@ -151,7 +157,11 @@ async function handleWebhookSetup(req: Request) {
       return new Response('Unauthorized', { status: 401, headers: corsHeaders })
     }
 
-    const { projectId, repositoryUrl, githubToken } = await req.json()
+    const { projectId, repositoryUrl } = await req.json()
+    const githubToken = await getGitHubToken(user.id)
+    if (!githubToken) {
+      return githubTokenRequired()
+    }
 
     // Verify project ownership
     const { data: project, error: projectError } = await supabaseClient
@@ -261,6 +271,84 @@ async function handleWebhookSetup(req: Request) {
   }
 }
 
+async function handleListRepositories(req: Request) {
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser()
+
+    if (!user) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders })
+    }
+
+    const githubToken = await getGitHubToken(user.id)
+    if (!githubToken) {
+      return githubTokenRequired()
+    }
+
+    const response = await fetch('https://api.github.com/user/repos?sort=updated&per_page=50', {
+      headers: {
+        'Authorization': `token ${githubToken}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch repositories: ${response.status} ${response.statusText}`)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        repositories: await response.json(),
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Repository listing error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+}
+
+// The token lives in the secrets vault, which only the service role can read
+async function getGitHubToken(userId: string): Promise<string | undefined> {
+  const serviceClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  return readSecret(serviceClient, { ownerId: userId }, 'github_token')
+}
+
+function githubTokenRequired() {
+  return new Response(
+    JSON.stringify({ error: 'GitHub token not configured. Add one in Settings.' }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 400,
+    }
+  )
+}
+
 async function analyzeRepositoryStructure(
   owner: string,
   repo: string,
@@ -420,7 +508,7 @@ async function handlePullRequestOpened(supabaseClient: any, payload: any) {
   // Find project by repository ID
   const { data: project } = await supabaseClient
     .from('projects')
-    .select('*, profiles!projects_owner_id_fkey(github_token)')
+    .select('*')
     .eq('github_repo_id', repoId)
     .single()
 
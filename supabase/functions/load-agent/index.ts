@@ -0,0 +1,207 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/load-agent/index.ts
+// API for standalone load agents: heartbeats, claiming load_jobs shards and reporting their metrics
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createCredentialResolver, withAuthHeaders } from '../_shared/auth-profiles.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-requested-with, x-agent-token',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+interface LoadAgentRequest {
+  action: 'heartbeat' | 'claim' | 'progress' | 'complete' | 'fail';
+  status?: 'online' | 'busy' | 'offline';
+  version?: string;
+  max_vus?: number;
+  jobId?: string;
+  snapshot?: unknown;
+  metrics?: unknown;
+  error?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: 'Server configuration error' }, 500)
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Agents authenticate with the token shown once when they were created
+    const token = req.headers.get('x-agent-token')
+    if (!token) {
+      return jsonResponse({ error: 'Missing agent token' }, 401)
+    }
+
+    const { data: agent } = await supabaseClient
+      .from('load_agents')
+      .select('id, project_id, name')
+      .eq('token_hash', await sha256Hex(token))
+      .maybeSingle()
+
+    if (!agent) {
+      return jsonResponse({ error: 'Unknown agent token' }, 401)
+    }
+
+    const body: LoadAgentRequest = await req.json()
+    const now = new Date().toISOString()
+
+    switch (body.action) {
+      case 'heartbeat': {
+        const { data, error } = await supabaseClient
+          .from('load_agents')
+          .update({
+            last_seen_at: now,
+            status: body.status || 'online',
+            ...(body.version && { version: body.version }),
+            ...(body.max_vus && { max_vus: body.max_vus })
+          })
+          .eq('id', agent.id)
+          .select()
+          .single()
+
+        if (error) throw error
+        return jsonResponse({ agent: data })
+      }
+
+      case 'claim': {
+        const { data, error } = await supabaseClient.rpc('claim_load_job', { agent: agent.id })
+        if (error) throw error
+
+        let job = data?.[0] || null
+        if (job?.config?.auth) {
+          try {
+            job = await withJobCredentials(supabaseClient, job)
+          } catch (error) {
+            await supabaseClient
+              .from('load_jobs')
+              .update({ status: 'failed', error_message: error.message, completed_at: now })
+              .eq('id', job.id)
+            job = null
+          }
+        }
+
+        await supabaseClient
+          .from('load_agents')
+          .update({ last_seen_at: now, status: job ? 'busy' : 'online' })
+          .eq('id', agent.id)
+
+        return jsonResponse({ job })
+      }
+
+      case 'progress': {
+        const job = await findAgentJob(supabaseClient, body.jobId, agent.id)
+        if (!job) return jsonResponse({ error: 'Job not found' }, 404)
+
+        // A cancelled shard keeps reporting until the agent stops it
+        await supabaseClient
+          .from('load_jobs')
+          .update({ metrics_snapshot: body.snapshot, heartbeat_at: now })
+          .eq('id', job.id)
+
+        await supabaseClient
+          .from('load_agents')
+          .update({ last_seen_at: now })
+          .eq('id', agent.id)
+
+        return jsonResponse({ cancelled: job.status === 'cancelled' })
+      }
+
+      case 'complete':
+      case 'fail': {
+        const job = await findAgentJob(supabaseClient, body.jobId, agent.id)
+        if (!job) return jsonResponse({ error: 'Job not found' }, 404)
+
+        if (job.status === 'completed' || job.status === 'failed') {
+          return jsonResponse({ error: `Job is already ${job.status}` }, 409)
+        }
+
+        // Cancelled shards stay cancelled but still hand in what they measured
+        const { error } = await supabaseClient
+          .from('load_jobs')
+          .update({
+            status: job.status === 'cancelled' ? 'cancelled' : body.action === 'complete' ? 'completed' : 'failed',
+            ...(body.snapshot !== undefined && { metrics_snapshot: body.snapshot }),
+            ...(body.metrics !== undefined && { metrics: body.metrics }),
+            ...(body.action === 'fail' && { error_message: body.error || 'Load agent failed' }),
+            heartbeat_at: now,
+            completed_at: now
+          })
+          .eq('id', job.id)
+
+        if (error) throw error
+
+        await supabaseClient
+          .from('load_agents')
+          .update({ last_seen_at: now, status: 'online' })
+          .eq('id', agent.id)
+
+        return jsonResponse({ success: true })
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400)
+    }
+  } catch (error) {
+    console.error('Error in load-agent function:', error)
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500)
+  }
+})
+
+// Auth profile credentials are resolved per claim and only sent in the response, never stored in load_jobs
+async function withJobCredentials(supabaseClient: ReturnType<typeof createClient>, job: any) {
+  const { auth, ...config } = job.config
+  const credentials = await createCredentialResolver(supabaseClient, job.project_id, auth.environment, auth.environment_url)(auth.profile)
+
+  return {
+    ...job,
+    config: {
+      ...config,
+      endpoints: config.endpoints.map((endpoint: any) => ({
+        ...endpoint,
+        headers: withAuthHeaders(endpoint.url, endpoint.headers, credentials)
+      }))
+    }
+  }
+}
+
+async function findAgentJob(supabaseClient: ReturnType<typeof createClient>, jobId: string | undefined, agentId: string) {
+  if (!jobId) return null
+
+  const { data } = await supabaseClient
+    .from('load_jobs')
+    .select('id, status')
+    .eq('id', jobId)
+    .eq('agent_id', agentId)
+    .maybeSingle()
+
+  return data
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+  )
+}
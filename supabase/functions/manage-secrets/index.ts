@@ -0,0 +1,197 @@
+// supabase/functions/manage-secrets/index.ts
+// Lists, sets, removes and tests vault secrets. Values go in encrypted and never come back out.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  ACCOUNT_SECRETS,
+  PROJECT_SECRETS,
+  deleteSecret,
+  listSecrets,
+  readSecret,
+  writeSecret,
+  type SecretName,
+  type SecretScope,
+} from '../_shared/vault.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-requested-with',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+interface ManageSecretsRequest {
+  action: 'list' | 'set' | 'delete' | 'test';
+  // Required for project secrets, and to list them
+  projectId?: string;
+  name?: SecretName;
+  value?: string;
+}
+
+const ACTIONS = ['list', 'set', 'delete', 'test']
+// Webhook URLs are posted to from the edge function, so only Slack's host is accepted
+const SLACK_WEBHOOK_PREFIX = 'https://hooks.slack.com/'
+const TEST_TIMEOUT_MS = 15000
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const request: ManageSecretsRequest = await req.json()
+    const { action, projectId, name, value } = request
+    const validationError = validateRequest(request)
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    if (projectId) {
+      const { data: project, error: projectError } = await supabaseClient
+        .from('projects')
+        .select('id, owner_id')
+        .eq('id', projectId)
+        .single()
+
+      if (projectError || !project || project.owner_id !== user.id) {
+        return new Response(
+          JSON.stringify({ error: 'Project not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+    }
+
+    if (action === 'list') {
+      const secrets = [
+        ...await listSecrets(supabaseClient, { ownerId: user.id }),
+        ...(projectId ? await listSecrets(supabaseClient, { projectId }) : []),
+      ]
+      return new Response(
+        JSON.stringify({ success: true, secrets }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const scope: SecretScope = PROJECT_SECRETS.includes(name as never)
+      ? { projectId: projectId! }
+      : { ownerId: user.id }
+
+    switch (action) {
+      case 'set': {
+        const secret = await writeSecret(supabaseClient, scope, name!, value!.trim())
+        return new Response(
+          JSON.stringify({ success: true, secret }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+      case 'delete':
+        await deleteSecret(supabaseClient, scope, name!)
+        return new Response(
+          JSON.stringify({ success: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      default: {
+        // Tests the stored secret, or a value typed in but not saved yet
+        const secret = value?.trim() || await readSecret(supabaseClient, scope, name!)
+        if (!secret) {
+          return new Response(
+            JSON.stringify({ error: `${name} is not set` }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+          )
+        }
+        const result = await testSecret(name!, secret)
+        return new Response(
+          JSON.stringify({ success: true, ...result }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+    }
+  } catch (error) {
+    console.error('Error in manage-secrets function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+})
+
+function validateRequest({ action, projectId, name, value }: ManageSecretsRequest): string | null {
+  if (!ACTIONS.includes(action)) return `Unknown action: ${action}`
+  if (action === 'list') return null
+  if (!name || ![...ACCOUNT_SECRETS, ...PROJECT_SECRETS].includes(name)) return `Unknown secret: ${name}`
+  if (PROJECT_SECRETS.includes(name as never) && !projectId) return `${name} belongs to a project; projectId is required`
+  if (action === 'set' && !value?.trim()) return 'A value is required'
+  if (name === 'slack_webhook_url' && value?.trim() && !value.trim().startsWith(SLACK_WEBHOOK_PREFIX)) {
+    return `Slack webhook URLs start with ${SLACK_WEBHOOK_PREFIX}`
+  }
+  if (action === 'test' && name === 'grid_access_key') return 'Grid access keys are checked when a functional run starts'
+  return null
+}
+
+// Rejections are reported as valid: false so the client can show the reason
+async function testSecret(name: SecretName, secret: string): Promise<{ valid: boolean; message: string }> {
+  if (name === 'github_token') {
+    const response = await fetch('https://api.github.com/user', {
+      headers: {
+        'Authorization': `token ${secret}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+      signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+    })
+    if (!response.ok) return { valid: false, message: `GitHub rejected the token: HTTP ${response.status}` }
+
+    const githubUser = await response.json()
+    return { valid: true, message: `Connected as ${githubUser.login}` }
+  }
+
+  // Values saved before the vault were not checked
+  if (!secret.startsWith(SLACK_WEBHOOK_PREFIX)) {
+    return { valid: false, message: `Slack webhook URLs start with ${SLACK_WEBHOOK_PREFIX}` }
+  }
+  const response = await fetch(secret, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      text: '🧪 QA Autopilot Test Message',
+      attachments: [{ color: 'good', fields: [{ title: 'Status', value: 'Slack integration is working correctly!', short: false }] }],
+    }),
+    signal: AbortSignal.timeout(TEST_TIMEOUT_MS),
+  })
+  if (!response.ok) return { valid: false, message: `Slack rejected the webhook: HTTP ${response.status}` }
+  return { valid: true, message: 'Test message sent to Slack' }
+}
@@ -0,0 +1,143 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// supabase/functions/purge-artifacts/index.ts
+// Deletes stored test artifacts past each project's retention window (invoked daily by pg_cron)
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ARTIFACTS_BUCKET, DEFAULT_RETENTION_DAYS } from '../_shared/artifacts.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Storage remove() accepts a bounded number of paths per call
+const REMOVE_BATCH_SIZE = 100
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  // Only the scheduler (service role) may purge
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  try {
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: projects, error: projectsError } = await supabaseClient
+      .from('projects')
+      .select('id, settings')
+
+    if (projectsError) throw projectsError
+
+    let purgedRuns = 0
+    let removedFiles = 0
+
+    for (const project of projects || []) {
+      const retentionDays = Number(project.settings?.artifact_retention_days) || DEFAULT_RETENTION_DAYS
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+
+      const { data: runs, error: runsError } = await supabaseClient
+        .from('test_runs')
+        .select('id')
+        .eq('project_id', project.id)
+        .is('artifacts_purged_at', null)
+        .lt('created_at', cutoff)
+
+      if (runsError) {
+        console.error(`Failed to list expired runs for project ${project.id}:`, runsError)
+        continue
+      }
+
+      for (const run of runs || []) {
+        try {
+          removedFiles += await purgeRunArtifacts(supabaseClient, project.id, run.id)
+          purgedRuns++
+        } catch (error) {
+          console.error(`Failed to purge artifacts for run ${run.id}:`, error)
+        }
+      }
+    }
+
+    console.log(`Purged artifacts for ${purgedRuns} runs (${removedFiles} files)`)
+
+    return new Response(
+      JSON.stringify({ success: true, purgedRuns, removedFiles }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  } catch (error) {
+    console.error('Error in purge-artifacts function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+})
+
+async function purgeRunArtifacts(supabaseClient: any, projectId: string, testRunId: string): Promise<number> {
+  const paths = await listFiles(supabaseClient, `${projectId}/${testRunId}`)
+
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await supabaseClient.storage
+      .from(ARTIFACTS_BUCKET)
+      .remove(paths.slice(i, i + REMOVE_BATCH_SIZE))
+
+    if (error) throw error
+  }
+
+  // Drop references so History does not try to sign missing objects
+  await supabaseClient
+    .from('test_results')
+    .update({ screenshots: [], artifacts: [] })
+    .eq('test_run_id', testRunId)
+
+  await supabaseClient
+    .from('test_step_results')
+    .update({ screenshot_url: null })
+    .eq('test_run_id', testRunId)
+
+  await supabaseClient
+    .from('test_runs')
+    .update({ artifacts_purged_at: new Date().toISOString() })
+    .eq('id', testRunId)
+
+  return paths.length
+}
+
+// Storage list() is not recursive; folders come back as entries without an id
+async function listFiles(supabaseClient: any, prefix: string): Promise<string[]> {
+  const { data, error } = await supabaseClient.storage
+    .from(ARTIFACTS_BUCKET)
+    .list(prefix, { limit: 1000 })
+
+  if (error) throw error
+
+  const files: string[] = []
+  for (const entry of data || []) {
+    const path = `${prefix}/${entry.name}`
+    if (entry.id) {
+      files.push(path)
+    } else {
+      files.push(...await listFiles(supabaseClient, path))
+    }
+  }
+
+  return files
+}
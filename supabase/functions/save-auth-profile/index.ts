@@ -0,0 +1,184 @@
+// supabase/functions/save-auth-profile/index.ts
+// Creates or updates an environment auth profile, encrypting its secret before it is stored
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { encryptSecret } from '../_shared/secrets.ts'
+import { secretHint } from '../_shared/vault.ts'
+import type { AuthProfile, AuthProfileType } from '../_shared/auth-profiles.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-requested-with',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+}
+
+interface SaveAuthProfileRequest {
+  projectId: string;
+  profile: {
+    // Updates the existing profile; its secret is kept when none is sent
+    id?: string;
+    name: string;
+    environment: 'local' | 'staging' | 'production';
+    type: AuthProfileType;
+    config?: AuthProfile['config'];
+    secret?: string;
+  };
+}
+
+const ENVIRONMENTS = ['local', 'staging', 'production']
+const PROFILE_TYPES: AuthProfileType[] = ['bearer', 'basic', 'oauth2_client_credentials', 'login_form', 'cookies']
+const CONFIG_KEYS = [
+  'username', 'token_url', 'client_id', 'scope', 'login_url', 'username_field', 'password_field',
+  'format', 'token_path', 'local_storage_key',
+]
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const request: SaveAuthProfileRequest = await req.json()
+    const { projectId, profile } = request
+    const validationError = validateRequest(request)
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from('projects')
+      .select('id, owner_id')
+      .eq('id', projectId)
+      .single()
+
+    if (projectError || !project || project.owner_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: 'Project not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    if (profile.id) {
+      const { data: existing, error: existingError } = await supabaseClient
+        .from('auth_profiles')
+        .select('id, type')
+        .eq('id', profile.id)
+        .eq('project_id', projectId)
+        .maybeSingle()
+
+      if (existingError) throw existingError
+      if (!existing) {
+        return new Response(
+          JSON.stringify({ error: 'Auth profile not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+
+      // A kept secret means something else to another type (a token is not a password)
+      if (existing.type !== profile.type && !profile.secret) {
+        return new Response(
+          JSON.stringify({ error: `A new secret is required when changing the type from ${existing.type} to ${profile.type}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+        )
+      }
+    }
+
+    // Only known settings are kept, trimmed, and empty ones dropped
+    const config = Object.fromEntries(
+      Object.entries(profile.config || {})
+        .filter(([key, value]) => CONFIG_KEYS.includes(key) && typeof value === 'string' && value.trim() !== '')
+        .map(([key, value]) => [key, (value as string).trim()])
+    )
+
+    const name = profile.name.trim()
+    const row = {
+      project_id: projectId,
+      name,
+      environment: profile.environment,
+      type: profile.type,
+      config,
+      ...(profile.secret && { secret: await encryptSecret(profile.secret), secret_hint: secretHint(profile.secret) }),
+      updated_at: new Date().toISOString()
+    }
+
+    const { data: saved, error: saveError } = profile.id
+      ? await supabaseClient
+        .from('auth_profiles')
+        .update(row)
+        .eq('id', profile.id)
+        .eq('project_id', projectId)
+        .select('id, project_id, name, environment, type, config, secret_hint, created_at, updated_at')
+        .single()
+      : await supabaseClient
+        .from('auth_profiles')
+        .insert({ ...row, created_by: user.id })
+        .select('id, project_id, name, environment, type, config, secret_hint, created_at, updated_at')
+        .single()
+
+    if (saveError) {
+      const message = saveError.code === '23505'
+        ? `An auth profile named ${name} already exists for ${profile.environment}`
+        : saveError.message
+      return new Response(
+        JSON.stringify({ error: message }),
+        { status: saveError.code === '23505' ? 409 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, profile: saved }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  } catch (error) {
+    console.error('Error in save-auth-profile function:', error)
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' }}
+    )
+  }
+})
+
+function validateRequest({ projectId, profile }: SaveAuthProfileRequest): string | null {
+  if (!projectId || !profile) return 'Missing required fields: projectId, profile'
+  if (!profile.name?.trim()) return 'Auth profiles need a name'
+  if (!ENVIRONMENTS.includes(profile.environment)) return `Unknown environment: ${profile.environment}`
+  if (!PROFILE_TYPES.includes(profile.type)) return `Unsupported auth profile type: ${profile.type}`
+  if (!profile.id && !profile.secret) return 'A secret is required for new auth profiles'
+  return null
+}
@@ -0,0 +1,22 @@
+-- Typed functional test steps.
+-- test_cases.steps now holds objects like {"type": "click", "locator": {"strategy": "role", "value": "button", "name": "Log in"}}.
+-- Legacy {action, expected_result} steps are converted by execute-functional-tests when they run. Conversions
+-- are written back only when nothing was guessed; otherwise they apply to that run and the legacy steps stay.
+
+alter table public.test_cases
+  add constraint test_cases_steps_is_array check (jsonb_typeof(steps) = 'array');
+
+comment on column public.test_cases.steps is
+  'Array of typed steps: {type, locator?, ...args, expected_result}. See supabase/functions/_shared/steps.ts';
+
+-- Find test cases that still carry free-text steps
+create or replace function public.test_case_has_legacy_steps(steps jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select exists (
+    select 1 from jsonb_array_elements(steps) as step
+    where step ? 'action' and not step ? 'type'
+  );
+$$;
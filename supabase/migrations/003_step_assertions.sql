@@ -0,0 +1,33 @@
+-- Per-step verification results for functional tests: one row per executed step with the
+-- assertions its expected_result was checked against
+
+create table public.test_step_results (
+  id uuid default uuid_generate_v4() primary key,
+  test_result_id uuid references public.test_results(id) on delete cascade not null,
+  test_run_id uuid references public.test_runs(id) on delete cascade not null,
+  step_index integer not null,
+  action text not null,
+  expected_result text,
+  status text check (status in ('pass', 'fail', 'skip')) not null,
+  verified boolean default false not null,
+  assertions jsonb default '[]'::jsonb not null, -- Array of {description, expected, actual, passed}
+  duration_ms integer,
+  error_message text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (test_result_id, step_index)
+);
+
+create index test_step_results_test_result_id_idx on public.test_step_results(test_result_id);
+create index test_step_results_test_run_id_idx on public.test_step_results(test_run_id);
+
+alter table public.test_step_results enable row level security;
+
+create policy "Users can view step results for their projects" on public.test_step_results
+  for select using (
+    exists (
+      select 1 from public.test_runs
+      join public.projects on projects.id = test_runs.project_id
+      where test_runs.id = test_step_results.test_run_id
+      and projects.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,6 @@
+-- What the browser showed at each step, for the step timeline in History
+
+alter table public.test_step_results
+  add column if not exists screenshot_url text,
+  add column if not exists page_url text,
+  add column if not exists dom_snapshot text; -- Trimmed HTML captured when the step failed
@@ -0,0 +1,57 @@
+-- Test artifacts (screenshots, reports) live in Storage instead of base64 strings in table rows.
+-- Object paths are <project_id>/<test_run_id>/<name>, so access is scoped by the first folder.
+-- test_results.screenshots and test_step_results.screenshot_url now hold storage paths;
+-- older rows may still contain data: URLs, which the UI renders as-is.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('test-artifacts', 'test-artifacts', false, 52428800, array['image/png', 'image/jpeg', 'application/json', 'text/html', 'text/plain', 'application/zip'])
+on conflict (id) do nothing;
+
+create policy "Users can view artifacts for their projects" on storage.objects
+  for select using (
+    bucket_id = 'test-artifacts'
+    and exists (
+      select 1 from public.projects
+      where projects.id::text = (storage.foldername(objects.name))[1]
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete artifacts for their projects" on storage.objects
+  for delete using (
+    bucket_id = 'test-artifacts'
+    and exists (
+      select 1 from public.projects
+      where projects.id::text = (storage.foldername(objects.name))[1]
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- Artifact references for non-screenshot files: [{name, type, path}]
+alter table public.test_results
+  add column if not exists artifacts jsonb default '[]'::jsonb;
+
+-- Set once a run's artifacts have been removed by the retention job
+alter table public.test_runs
+  add column if not exists artifacts_purged_at timestamp with time zone;
+
+-- Retention: purge-artifacts removes artifacts of runs older than
+-- projects.settings.artifact_retention_days (default 30). Run it daily with pg_cron;
+-- project_url and service_role_key are read from Vault.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'purge-expired-artifacts',
+  '0 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/purge-artifacts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
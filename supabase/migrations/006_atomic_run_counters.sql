@@ -0,0 +1,20 @@
+-- Parallel executors report results concurrently; increment counters in one statement
+-- instead of writing absolute values computed in each worker.
+
+create or replace function public.increment_test_run_counts(
+  run_id uuid,
+  passed_delta integer default 0,
+  failed_delta integer default 0
+)
+returns void
+language sql
+as $$
+  update public.test_runs
+  set passed_tests = coalesce(passed_tests, 0) + passed_delta,
+      failed_tests = coalesce(failed_tests, 0) + failed_delta
+  where id = run_id;
+$$;
+
+-- Only edge functions call this; EXECUTE is granted to PUBLIC by default, so revoke it there too
+revoke execute on function public.increment_test_run_counts(uuid, integer, integer) from public, anon, authenticated;
+grant execute on function public.increment_test_run_counts(uuid, integer, integer) to service_role;
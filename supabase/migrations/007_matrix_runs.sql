@@ -0,0 +1,10 @@
+-- Cross-browser matrix runs: one test_run, one test_results row per test case and configuration.
+-- configuration holds {browser, version, platform, viewport}; configuration_key is its stable
+-- string form (e.g. 'chrome/latest/any/desktop') used to build the matrix grid.
+
+alter table public.test_results
+  add column if not exists configuration jsonb,
+  add column if not exists configuration_key text;
+
+create index if not exists test_results_run_configuration_idx
+  on public.test_results(test_run_id, configuration_key);
@@ -0,0 +1,71 @@
+-- Automatic retries, per-attempt records and flaky-test detection
+
+alter table public.test_runs
+  add column if not exists commit_sha text,
+  -- Outcome used for PR checks; quarantined flaky cases do not fail it
+  add column if not exists gating_status text check (gating_status in ('passed', 'failed'));
+
+alter table public.test_results
+  add column if not exists attempts integer default 1 not null,
+  add column if not exists failure_kind text check (failure_kind in ('infra', 'timeout', 'assertion')),
+  -- Failed at least once and then passed within the same run
+  add column if not exists flaky boolean default false not null,
+  add column if not exists quarantined boolean default false not null;
+
+create index if not exists test_runs_commit_sha_idx on public.test_runs(project_id, commit_sha);
+
+-- One row per execution of a test case; test_results holds the final attempt
+create table public.test_result_attempts (
+  id uuid default uuid_generate_v4() primary key,
+  test_result_id uuid references public.test_results(id) on delete cascade not null,
+  test_run_id uuid references public.test_runs(id) on delete cascade not null,
+  attempt integer not null,
+  status text check (status in ('pass', 'fail', 'skip')) not null,
+  failure_kind text check (failure_kind in ('infra', 'timeout', 'assertion')),
+  error_message text,
+  duration_ms integer,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (test_result_id, attempt)
+);
+
+create index test_result_attempts_test_result_id_idx on public.test_result_attempts(test_result_id);
+
+alter table public.test_result_attempts enable row level security;
+
+create policy "Users can view result attempts for their projects" on public.test_result_attempts
+  for select using (
+    exists (
+      select 1 from public.test_runs
+      join public.projects on projects.id = test_runs.project_id
+      where test_runs.id = test_result_attempts.test_run_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- Flakiness over the last 30 days. A revision is a commit (or a single run when no commit
+-- was recorded) on one browser configuration; it is flaky when the case both passed and
+-- failed there, or only passed after a retry. Browser-specific failures are not flakiness.
+create or replace view public.test_case_flakiness
+with (security_invoker = true) as
+with revisions as (
+  select
+    r.test_case_id,
+    coalesce(tr.commit_sha, tr.id::text) as revision,
+    coalesce(r.configuration_key, '') as configuration_key,
+    bool_or(r.status = 'pass') and bool_or(r.status = 'fail') or bool_or(r.flaky) as flaky
+  from public.test_results r
+  join public.test_runs tr on tr.id = r.test_run_id
+  where r.executed_at > timezone('utc'::text, now()) - interval '30 days'
+    and r.status <> 'skip'
+  group by r.test_case_id, revision, configuration_key
+)
+select
+  revisions.test_case_id,
+  test_cases.project_id,
+  count(*) as revisions,
+  count(*) filter (where revisions.flaky) as flaky_revisions,
+  round(count(*) filter (where revisions.flaky)::numeric / count(*), 3) as flakiness_score,
+  bool_or(revisions.flaky) as is_flaky
+from revisions
+join public.test_cases on test_cases.id = revisions.test_case_id
+group by revisions.test_case_id, test_cases.project_id;
@@ -0,0 +1,10 @@
+-- Cancelling runs from the UI. cancel-test-run sets cancel_requested_at; the executor polls it,
+-- tears down remote sessions and then moves the run to 'cancelled'.
+
+alter table public.test_runs drop constraint if exists test_runs_status_check;
+alter table public.test_runs add constraint test_runs_status_check
+  check (status in ('pending', 'running', 'completed', 'failed', 'cancelled'));
+
+alter table public.test_runs
+  add column if not exists cancel_requested_at timestamp with time zone,
+  add column if not exists cancelled_by uuid references public.profiles(id) on delete set null;
@@ -0,0 +1,49 @@
+-- Executors touch heartbeat_at while a run streams. Runs whose executor disappeared
+-- (edge function timeout, crash) stop heartbeating and are swept by reap_stale_test_runs.
+
+alter table public.test_runs drop constraint if exists test_runs_status_check;
+alter table public.test_runs add constraint test_runs_status_check
+  check (status in ('pending', 'running', 'completed', 'failed', 'cancelled', 'timed_out'));
+
+alter table public.test_runs
+  add column if not exists heartbeat_at timestamp with time zone,
+  -- Why a run failed, timed out or was cancelled; shown in History
+  add column if not exists error_message text;
+
+create index if not exists test_runs_active_heartbeat_idx
+  on public.test_runs(heartbeat_at)
+  where status in ('pending', 'running');
+
+-- Runs that requested cancellation become 'cancelled'; everything else 'timed_out'.
+-- Returns the number of runs swept.
+create or replace function public.reap_stale_test_runs(stale_after interval default interval '5 minutes')
+returns integer
+language plpgsql
+as $$
+declare
+  reaped integer;
+begin
+  update public.test_runs
+  set status = case when cancel_requested_at is not null then 'cancelled' else 'timed_out' end,
+      completed_at = timezone('utc'::text, now()),
+      error_message = case
+        when cancel_requested_at is not null then 'Test run cancelled; the executor stopped before acknowledging it'
+        else 'Executor stopped responding (no heartbeat since '
+          || to_char(coalesce(heartbeat_at, started_at), 'YYYY-MM-DD HH24:MI:SS') || ' UTC)'
+      end
+  where status in ('pending', 'running')
+    and coalesce(heartbeat_at, started_at) < timezone('utc'::text, now()) - stale_after;
+
+  get diagnostics reaped = row_count;
+  return reaped;
+end;
+$$;
+
+revoke execute on function public.reap_stale_test_runs(interval) from public, anon, authenticated;
+grant execute on function public.reap_stale_test_runs(interval) to service_role;
+
+select cron.schedule(
+  'reap-stale-test-runs',
+  '*/5 * * * *',
+  $$ select public.reap_stale_test_runs(); $$
+);
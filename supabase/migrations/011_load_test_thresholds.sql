@@ -0,0 +1,5 @@
+-- Verdicts of the SLO thresholds declared in test_cases.jmeter_config.thresholds,
+-- one entry per threshold: {metric, op, value, endpoint?, description, actual, status}
+
+alter table public.test_results
+  add column if not exists threshold_results jsonb default '[]'::jsonb not null;
@@ -0,0 +1,101 @@
+-- Distributed load generation: agents registered per project pull shards of a load test
+-- from load_jobs, run them and report histogram snapshots that execute-load-tests merges.
+
+create table public.load_agents (
+  id uuid default uuid_generate_v4() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  name text not null,
+  -- SHA-256 of the agent token; the token itself is only shown when the agent is created
+  token_hash text not null unique,
+  status text check (status in ('online', 'busy', 'offline')) default 'offline' not null,
+  max_vus integer default 500 not null,
+  version text,
+  last_seen_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index load_agents_project_id_idx on public.load_agents(project_id);
+
+alter table public.load_agents enable row level security;
+
+create policy "Users can manage load agents for their projects" on public.load_agents
+  for all using (
+    exists (
+      select 1 from public.projects
+      where projects.id = load_agents.project_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- One shard of a load test; config is the runner config scaled down to the shard
+create table public.load_jobs (
+  id uuid default uuid_generate_v4() primary key,
+  test_run_id uuid references public.test_runs(id) on delete cascade not null,
+  test_case_id uuid references public.test_cases(id) on delete cascade not null,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  shard_index integer not null,
+  shard_count integer not null,
+  config jsonb not null,
+  status text check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')) default 'queued' not null,
+  agent_id uuid references public.load_agents(id) on delete set null,
+  -- Serialized metrics collector, refreshed while the shard runs
+  metrics_snapshot jsonb,
+  -- Final summary reported by the agent (duration, dropped requests, ...)
+  metrics jsonb,
+  error_message text,
+  claimed_at timestamp with time zone,
+  heartbeat_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (test_run_id, test_case_id, shard_index)
+);
+
+create index load_jobs_queued_idx on public.load_jobs(project_id, created_at) where status = 'queued';
+create index load_jobs_test_run_id_idx on public.load_jobs(test_run_id);
+
+alter table public.load_jobs enable row level security;
+
+create policy "Users can view load jobs for their projects" on public.load_jobs
+  for select using (
+    exists (
+      select 1 from public.projects
+      where projects.id = load_jobs.project_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- Hand the oldest queued shard of the agent's project to the agent. Shards of the same
+-- test go to different agents so the load really comes from several machines.
+create or replace function public.claim_load_job(agent uuid)
+returns setof public.load_jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.load_jobs
+  set status = 'running',
+      agent_id = agent,
+      claimed_at = timezone('utc'::text, now()),
+      heartbeat_at = timezone('utc'::text, now())
+  where id = (
+    select jobs.id
+    from public.load_jobs jobs
+    join public.load_agents agents on agents.project_id = jobs.project_id
+    where agents.id = agent
+      and jobs.status = 'queued'
+      and not exists (
+        select 1 from public.load_jobs siblings
+        where siblings.test_run_id = jobs.test_run_id
+          and siblings.test_case_id = jobs.test_case_id
+          and siblings.agent_id = agent
+      )
+    order by jobs.created_at, jobs.shard_index
+    limit 1
+    for update of jobs skip locked
+  )
+  returning *;
+end;
+$$;
+
+revoke execute on function public.claim_load_job(uuid) from public, anon, authenticated;
+grant execute on function public.claim_load_job(uuid) to service_role;
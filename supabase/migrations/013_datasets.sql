@@ -0,0 +1,69 @@
+-- Project-level test data uploaded as CSV or JSON. rows holds [{column: value}] with string values,
+-- substituted into requests and steps as ${column}.
+
+create table public.datasets (
+  id uuid default uuid_generate_v4() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  name text not null,
+  format text check (format in ('csv', 'json')) not null,
+  columns text[] not null,
+  rows jsonb not null,
+  row_count integer not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (project_id, name)
+);
+
+create index datasets_project_id_idx on public.datasets(project_id);
+
+alter table public.datasets enable row level security;
+
+create policy "Users can manage datasets for their projects" on public.datasets
+  for all using (
+    exists (
+      select 1 from public.projects
+      where projects.id = datasets.project_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- A test case bound to a dataset runs once per row (functional) or draws rows as it loads (load).
+-- Load tests pick rows sequentially, at random or uniquely (each row once, then the virtual user
+-- stops), either once per virtual user or for every iteration.
+alter table public.test_cases
+  add column if not exists dataset_id uuid references public.datasets(id) on delete set null,
+  add column if not exists dataset_selection text check (dataset_selection in ('sequential', 'random', 'unique')) default 'sequential' not null,
+  add column if not exists dataset_scope text check (dataset_scope in ('vu', 'iteration')) default 'iteration' not null;
+
+-- Zero-based row a functional result ran with; null when the test case has no dataset
+alter table public.test_results
+  add column if not exists data_row integer;
+
+-- Each data row is its own revision: one row passing and another failing is a data-specific
+-- failure, not flakiness, and must not quarantine the case
+create or replace view public.test_case_flakiness
+with (security_invoker = true) as
+with revisions as (
+  select
+    r.test_case_id,
+    coalesce(tr.commit_sha, tr.id::text) as revision,
+    coalesce(r.configuration_key, '') as configuration_key,
+    r.data_row,
+    bool_or(r.status = 'pass') and bool_or(r.status = 'fail') or bool_or(r.flaky) as flaky
+  from public.test_results r
+  join public.test_runs tr on tr.id = r.test_run_id
+  where r.executed_at > timezone('utc'::text, now()) - interval '30 days'
+    and r.status <> 'skip'
+  group by r.test_case_id, revision, configuration_key, r.data_row
+)
+select
+  revisions.test_case_id,
+  test_cases.project_id,
+  count(*) as revisions,
+  count(*) filter (where revisions.flaky) as flaky_revisions,
+  round(count(*) filter (where revisions.flaky)::numeric / count(*), 3) as flakiness_score,
+  bool_or(revisions.flaky) as is_flaky
+from revisions
+join public.test_cases on test_cases.id = revisions.test_case_id
+group by revisions.test_case_id, test_cases.project_id;
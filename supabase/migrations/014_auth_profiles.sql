@@ -0,0 +1,46 @@
+-- Credentials the runners use against an environment. Test cases reference a profile by name, so
+-- the same name can hold different credentials on staging and production.
+
+create table public.auth_profiles (
+  id uuid default uuid_generate_v4() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  name text not null,
+  environment text check (environment in ('local', 'staging', 'production')) not null,
+  type text check (type in ('bearer', 'basic', 'oauth2_client_credentials', 'login_form', 'cookies')) not null,
+  -- Non-secret settings: username, token_url, client_id, scope, login_url, field names, ...
+  config jsonb default '{}'::jsonb not null,
+  -- AES-GCM ciphertext of the token, password, client secret or cookies. Only the
+  -- save-auth-profile and execute-* edge functions hold the key.
+  secret text not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (project_id, environment, name)
+);
+
+create index auth_profiles_project_id_idx on public.auth_profiles(project_id);
+
+alter table public.auth_profiles enable row level security;
+
+-- Profiles are written through save-auth-profile, which encrypts the secret
+create policy "Users can view auth profiles for their projects" on public.auth_profiles
+  for select using (
+    exists (
+      select 1 from public.projects
+      where projects.id = auth_profiles.project_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete auth profiles for their projects" on public.auth_profiles
+  for delete using (
+    exists (
+      select 1 from public.projects
+      where projects.id = auth_profiles.project_id
+      and projects.owner_id = auth.uid()
+    )
+  );
+
+-- Name of the auth profile the runners apply; resolved against the run's environment
+alter table public.test_cases
+  add column if not exists auth_profile text;
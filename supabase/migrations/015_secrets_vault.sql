@@ -0,0 +1,59 @@
+-- Encrypted secrets: GitHub tokens, Slack webhook URLs and browser grid access keys. Values are
+-- AES-GCM ciphertext written by the manage-secrets edge function; the client only sees which
+-- secrets are set and a masked hint.
+
+create table public.secrets (
+  id uuid default uuid_generate_v4() primary key,
+  -- Account secrets (github_token, slack_webhook_url) belong to a profile, grid credentials to a project
+  owner_id uuid references public.profiles(id) on delete cascade,
+  project_id uuid references public.projects(id) on delete cascade,
+  name text not null,
+  value text not null,
+  -- Last characters of longer values, shown masked in Settings
+  hint text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  check ((owner_id is null) <> (project_id is null))
+);
+
+create unique index secrets_owner_name_idx on public.secrets(owner_id, name) where owner_id is not null;
+create unique index secrets_project_name_idx on public.secrets(project_id, name) where project_id is not null;
+
+-- No policies: only edge functions (service role) read or write secrets
+alter table public.secrets enable row level security;
+
+-- Existing plaintext moves into the vault marked "plain.", since SQL does not hold the encryption key.
+-- REQUIRED after applying this migration: deploy and run the encrypt-legacy-secrets function once with
+-- the service role key, which encrypts every "plain." row:
+--   curl -X POST "$SUPABASE_URL/functions/v1/encrypt-legacy-secrets" -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY"
+-- Until then, readers encrypt a row the first time they use it.
+insert into public.secrets (owner_id, name, value, hint)
+select id, 'github_token', 'plain.' || github_token, case when length(github_token) >= 12 then right(github_token, 4) end
+from public.profiles
+where coalesce(github_token, '') <> '';
+
+insert into public.secrets (owner_id, name, value, hint)
+select id, 'slack_webhook_url', 'plain.' || slack_webhook_url, case when length(slack_webhook_url) >= 12 then right(slack_webhook_url, 4) end
+from public.profiles
+where coalesce(slack_webhook_url, '') <> '';
+
+insert into public.secrets (project_id, name, value, hint)
+select id, 'grid_access_key', 'plain.' || (settings #>> '{browser_grid,access_key}'), case when length(settings #>> '{browser_grid,access_key}') >= 12 then right(settings #>> '{browser_grid,access_key}', 4) end
+from public.projects
+where coalesce(settings #>> '{browser_grid,access_key}', '') <> '';
+
+update public.projects
+set settings = settings #- '{browser_grid,access_key}'
+where settings #> '{browser_grid,access_key}' is not null;
+
+alter table public.profiles
+  drop column if exists github_token,
+  drop column if exists slack_webhook_url;
+
+-- Auth profile secrets stay readable by edge functions only; the client gets the masked hint
+alter table public.auth_profiles
+  add column if not exists secret_hint text;
+
+revoke select on public.auth_profiles from anon, authenticated;
+grant select (id, project_id, name, environment, type, config, secret_hint, created_by, created_at, updated_at)
+  on public.auth_profiles to authenticated;